@@ -22,6 +22,7 @@ contract FlashSwap is ReentrancyGuard {
     uint256 private deadlineMinutes = 5;
     uint256 private defaultSlippage = 997; // 0.3% slippage
     uint256[] private slippageValues;
+    uint256[] private minAmountsOut;
 
     address private PANCAKE_FACTORY;
     address private PANCAKE_ROUTER;
@@ -235,13 +236,15 @@ contract FlashSwap is ReentrancyGuard {
     /// @param _token2 Second token to swap to
     /// @param _deadlineMinutes Maximum time the transaction can be pending; Value 0 will use default
     /// @param _slippageValues Slippage values for each trade; Must be 3 values or none
+    /// @param _minAmountsOut Minimum output of each trade, whatever the reserves at execution; Must be 3 values or none
     function start(
         address _token0,
         uint256 _borrow_amt,
         address _token1,
         address _token2,
         uint256 _deadlineMinutes,
-        uint256[] calldata _slippageValues
+        uint256[] calldata _slippageValues,
+        uint256[] calldata _minAmountsOut
     ) external {
         require(msg.sender == owner, "!owner");
 
@@ -255,6 +258,10 @@ contract FlashSwap is ReentrancyGuard {
                 );
             }
         }
+        require(
+            _minAmountsOut.length == 0 || _minAmountsOut.length == 3,
+            "Min amounts length != 3"
+        );
 
         address pair = validateArbitrageParameters(
             _token0,
@@ -269,6 +276,9 @@ contract FlashSwap is ReentrancyGuard {
         TOKEN0 = _token0;
         TOKEN1 = _token1;
         TOKEN2 = _token2;
+        // Read by placeTrade during the flash loan callback
+        slippageValues = _slippageValues;
+        minAmountsOut = _minAmountsOut;
         uint256 MAX_UINT = type(uint256).max;
         safeApprove(TOKEN0, address(PANCAKE_ROUTER), MAX_UINT);
         safeApprove(TOKEN1, address(PANCAKE_ROUTER), MAX_UINT);
@@ -417,6 +427,7 @@ contract FlashSwap is ReentrancyGuard {
 
         // save gas fee
         delete slippageValues;
+        delete minAmountsOut;
     }
 
     // PLACE A TRADE
@@ -441,11 +452,20 @@ contract FlashSwap is ReentrancyGuard {
         uint256 expectedAmount = IUniswapV2Router01(PANCAKE_ROUTER)
             .getAmountsOut(_amountIn, path)[1];
 
+        // The reserves may have moved since the caller quoted the trade; the slippage
+        // below is only relative to this transaction's quote
+        if (minAmountsOut.length == 3) {
+            require(
+                expectedAmount >= minAmountsOut[_tradeIndex - 1],
+                "Trade output below minimum"
+            );
+        }
+
         // Determine which slippage value to use
         uint256 slippage;
         if (slippageValues.length == 3) {
-            // Use the custom slippage for this trade
-            slippage = slippageValues[_tradeIndex];
+            // Use the custom slippage for this trade; _tradeIndex starts at 1
+            slippage = slippageValues[_tradeIndex - 1];
         } else {
             // Fallback to default slippage
             slippage = defaultSlippage;
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./interfaces/IERC20.sol";
+import "./interfaces/IUniswapV2Router02.sol";
+
+interface IWETH {
+    function deposit() external payable;
+}
+
+/// @title TokenProbe - Buy / transfer / sell round trip of a token
+/// @notice Never deployed: the scanner places its runtime code at an unused address
+/// (eth_call state override, or hardhat_setCode on a local fork), funds it with BNB
+/// and reads the result of probe() without sending a transaction
+contract TokenProbe {
+    struct ProbeResult {
+        bool bought;
+        bool transferred;
+        bool sold;
+        uint256 buyExpected;
+        uint256 buyReceived;
+        uint256 transferSent;
+        uint256 transferReceived;
+        uint256 sellExpected;
+        uint256 sellReceived;
+    }
+
+    // Receives the transfer step, an address no token treats specially
+    address private constant TRANSFER_RECIPIENT =
+        address(uint160(uint256(keccak256("TokenProbe.transferRecipient"))));
+
+    /// @param router Router of the DEX the token trades on
+    /// @param buyPath Wrapped native token first, the probed token last
+    /// @param amountIn Native amount to wrap and spend on the buy
+    function probe(
+        address router,
+        address[] calldata buyPath,
+        uint256 amountIn
+    ) external returns (ProbeResult memory result) {
+        address base = buyPath[0];
+        IERC20 token = IERC20(buyPath[buyPath.length - 1]);
+        IWETH(base).deposit{value: amountIn}();
+
+        // Buy
+        result.buyExpected = quote(router, amountIn, buyPath);
+        uint256 balanceBefore = token.balanceOf(address(this));
+        approve(base, router, amountIn);
+        try
+            IUniswapV2Router02(router)
+                .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+                    amountIn,
+                    0,
+                    buyPath,
+                    address(this),
+                    block.timestamp
+                )
+        {
+            result.buyReceived = token.balanceOf(address(this)) - balanceBefore;
+            result.bought = result.buyReceived > 0;
+        } catch {
+            return result;
+        }
+        if (!result.bought) return result;
+
+        // Wallet to wallet transfer of a tenth of the tokens
+        result.transferSent = result.buyReceived / 10;
+        uint256 recipientBefore = token.balanceOf(TRANSFER_RECIPIENT);
+        (bool transferred, bytes memory data) = address(token).call(
+            abi.encodeWithSelector(
+                IERC20.transfer.selector,
+                TRANSFER_RECIPIENT,
+                result.transferSent
+            )
+        );
+        if (transferred && (data.length == 0 || abi.decode(data, (bool)))) {
+            result.transferReceived =
+                token.balanceOf(TRANSFER_RECIPIENT) -
+                recipientBefore;
+            result.transferred = true;
+        }
+
+        // Sell everything left back to the base token
+        address[] memory sellPath = new address[](buyPath.length);
+        for (uint256 i = 0; i < buyPath.length; i++) {
+            sellPath[i] = buyPath[buyPath.length - 1 - i];
+        }
+        uint256 sellAmount = token.balanceOf(address(this));
+        result.sellExpected = quote(router, sellAmount, sellPath);
+        uint256 baseBefore = IERC20(base).balanceOf(address(this));
+        approve(address(token), router, sellAmount);
+        try
+            IUniswapV2Router02(router)
+                .swapExactTokensForTokensSupportingFeeOnTransferTokens(
+                    sellAmount,
+                    0,
+                    sellPath,
+                    address(this),
+                    block.timestamp
+                )
+        {
+            result.sellReceived =
+                IERC20(base).balanceOf(address(this)) -
+                baseBefore;
+            result.sold = result.sellReceived > 0;
+        } catch {}
+    }
+
+    function quote(
+        address router,
+        uint256 amountIn,
+        address[] memory path
+    ) private view returns (uint256) {
+        try IUniswapV2Router02(router).getAmountsOut(amountIn, path) returns (
+            uint256[] memory amounts
+        ) {
+            return amounts[amounts.length - 1];
+        } catch {
+            return 0;
+        }
+    }
+
+    // Tolerates tokens whose approve returns nothing
+    function approve(address token, address spender, uint256 amount) private {
+        (bool success, bytes memory data) = token.call(
+            abi.encodeWithSelector(IERC20.approve.selector, spender, amount)
+        );
+        require(
+            success && (data.length == 0 || abi.decode(data, (bool))),
+            "approve failed"
+        );
+    }
+}
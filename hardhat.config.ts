@@ -20,20 +20,25 @@ function getRecentBlockNumber() {
     return 48000000; // Fallback to a recent known block
   }
 }
-const forkBlockNumber = getRecentBlockNumber();
+// HARDHAT_FORK=false runs the in-process network as a plain local chain (chain ID 31337,
+// see chains/local.yaml.example) instead of a BSC mainnet fork
+const forkEnabled = process.env.HARDHAT_FORK !== "false";
 
 const config: HardhatUserConfig = {
   solidity: {
     compilers: [{version: "0.5.5"}, {version: "0.6.8"}, {version: "0.8.8"}],
   },
   networks: {
-    hardhat: {
-      forking: {
-        url: "https://bsc-dataseed.binance.org/",
-        blockNumber: forkBlockNumber,
-        enabled: true,
-      },
-    },
+    hardhat: forkEnabled
+      ? {
+          chainId: 56, // Same as the forked chain, so `localnode` can connect to `npx hardhat node`
+          forking: {
+            url: "https://bsc-dataseed.binance.org/",
+            blockNumber: getRecentBlockNumber(),
+            enabled: true,
+          },
+        }
+      : {chainId: 31337},
     testnet: {
       url: "https://data-seed-prebsc-1-s1.binance.org:8545/",
       chainId: 97,
@@ -50,6 +55,11 @@ const config: HardhatUserConfig = {
       url: "http://127.0.0.1:8545",
       chainId: 56,
     },
+    // `HARDHAT_FORK=false npx hardhat node` with mock contracts
+    mocknode: {
+      url: "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
   },
   mocha: {
     timeout: 300000,
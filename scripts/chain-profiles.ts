@@ -0,0 +1,265 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import {isAddress, Provider} from "ethers";
+import {DexInfo} from "./scan/types";
+
+// Everything the scripts need to know about a Uniswap V2 fork chain
+export interface ChainProfile {
+  chainId: number;
+  name: string;
+  nativeSymbol: string; // Gas token, e.g. BNB
+  baseToken: {symbol: string; address: string}; // Wrapped native token FlashSwap is deployed with
+  primaryDex: string; // Id of the DEX FlashSwap borrows and trades on
+  dexes: DexInfo[];
+  priorityTokens: {[symbol: string]: string};
+  stablecoins: string[]; // Anchor the USD prices
+  multicall3: string;
+  explorerUrl: string; // e.g. https://bscscan.com
+}
+
+// Extra profiles (new chains, a local mock chain), one YAML or JSON file per chain
+const PROFILES_DIRECTORY = path.join(__dirname, "../chains");
+
+// Multicall3 is deployed at the same address on most chains
+const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const BSC_MAINNET: ChainProfile = {
+  chainId: 56,
+  name: "BSC Mainnet",
+  nativeSymbol: "BNB",
+  baseToken: {
+    symbol: "WBNB",
+    address: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+  },
+  primaryDex: "pancakeswap-v2",
+  dexes: [
+    {
+      id: "pancakeswap-v2",
+      name: "PancakeSwap V2",
+      factory: "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73",
+      router: "0x10ED43C718714eb63d5aA57B78B54704E256024E",
+      feeBps: 25,
+      initCodeHash:
+        "0x00fb7f630766e6a796048ea87d01acd3068e8ff67d078148a3fa3f4a84f69bd5",
+    },
+    {
+      id: "biswap",
+      name: "BiSwap",
+      factory: "0x858E3312ed3A876947EA49d572A7C42DE08af7EE",
+      router: "0x3a6d8cA21D1CF76F653A67577FA0D27453350dD8",
+      feeBps: 10, // Default; BiSwap pairs can set their own swap fee
+      initCodeHash:
+        "0xfea293c909d87cd4153593f077b76bb7e94340200f4ee84211ae8e4f9bd7ffdf",
+    },
+    {
+      id: "apeswap",
+      name: "ApeSwap",
+      factory: "0x0841BD0B734E4F5853f0dD8d7Ea041c241fb0Da6",
+      router: "0xcF0feBd3f17CEf5b47b0cD257aCf6025c5BFf3b7",
+      feeBps: 20,
+      initCodeHash:
+        "0xf4ccce374816856d11f00e4069e7cada164065686fbef53c6167a63ec2fd8c5b",
+    },
+    {
+      id: "babyswap",
+      name: "BabySwap",
+      factory: "0x86407bEa2078ea5f5EB5A52B2caA963bC1F889Da",
+      router: "0x325E343f1dE602396E256B67eFd1F61C3A6B38Bd",
+      feeBps: 30,
+      initCodeHash:
+        "0x48c8bec5512d397a5d512fbb7d83d515e7b6d91e9838730bd1aa1b16575da7f5",
+    },
+  ],
+  priorityTokens: {
+    WBNB: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c",
+    BUSD: "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56",
+    USDT: "0x55d398326f99059fF775485246999027B3197955",
+    CAKE: "0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82",
+    ETH: "0x2170Ed0880ac9A755fd29B2688956BD959F933F8",
+    BTCB: "0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c",
+    USDC: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",
+    DAI: "0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3",
+    DOGE: "0xbA2aE424d960c26247Dd6c32edC70B295c744C43",
+  },
+  stablecoins: [
+    "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56", // BUSD
+    "0x55d398326f99059fF775485246999027B3197955", // USDT
+    "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", // USDC
+    "0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3", // DAI
+  ],
+  multicall3: MULTICALL3,
+  explorerUrl: "https://bscscan.com",
+};
+
+const BSC_TESTNET: ChainProfile = {
+  chainId: 97,
+  name: "BSC Testnet",
+  nativeSymbol: "BNB",
+  baseToken: {
+    symbol: "WBNB",
+    address: "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd",
+  },
+  primaryDex: "pancakeswap-v2",
+  dexes: [
+    {
+      id: "pancakeswap-v2",
+      name: "PancakeSwap V2",
+      factory: "0x6725F303b657a9451d8BA641348b6761A6CC7a17",
+      router: "0xD99D1c33F9fC3444f8101754aBC46c52416550D1",
+      feeBps: 25,
+      initCodeHash:
+        "0xd0d4c4cd0848c93cb4fd1f498d7013ee6bfb25783ea21593d5834f5d250ece66",
+    },
+  ],
+  priorityTokens: {
+    WBNB: "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd",
+    BUSD: "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7",
+    USDT: "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684",
+    CAKE: "0xFa60D973F7642B748046464e165A65B7323b0DEE",
+    USDC: "0x64544969ed7EBf5f083679233325356EbE738930",
+  },
+  stablecoins: [
+    "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7", // BUSD
+    "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684", // USDT
+    "0x64544969ed7EBf5f083679233325356EbE738930", // USDC
+  ],
+  multicall3: MULTICALL3,
+  explorerUrl: "https://testnet.bscscan.com",
+};
+
+let profiles: Map<number, ChainProfile> | null = null;
+
+// Problems of a profile read from a file, empty when it's usable
+function validateProfile(profile: ChainProfile): string[] {
+  const errors: string[] = [];
+  const checkAddress = (value: unknown, field: string) => {
+    if (typeof value !== "string" || !isAddress(value)) {
+      errors.push(`${field} is not an address`);
+    }
+  };
+
+  if (!Number.isInteger(profile.chainId)) errors.push("chainId is missing");
+  for (const field of ["name", "nativeSymbol", "explorerUrl"] as const) {
+    if (typeof profile[field] !== "string") errors.push(`${field} is missing`);
+  }
+  checkAddress(profile.baseToken?.address, "baseToken.address");
+  checkAddress(profile.multicall3, "multicall3");
+
+  if (!Array.isArray(profile.dexes) || profile.dexes.length === 0) {
+    errors.push("dexes is empty");
+  } else {
+    profile.dexes.forEach((dex, i) => {
+      checkAddress(dex.factory, `dexes[${i}].factory`);
+      checkAddress(dex.router, `dexes[${i}].router`);
+      if (!dex.id) errors.push(`dexes[${i}].id is missing`);
+      if (!Number.isInteger(dex.feeBps)) {
+        errors.push(`dexes[${i}].feeBps is missing`);
+      }
+      if (!/^0x[0-9a-fA-F]{64}$/.test(dex.initCodeHash ?? "")) {
+        errors.push(`dexes[${i}].initCodeHash is not a 32 byte hash`);
+      }
+    });
+    if (!profile.dexes.some((dex) => dex.id === profile.primaryDex)) {
+      errors.push(`primaryDex ${profile.primaryDex} is not one of the dexes`);
+    }
+  }
+
+  for (const [symbol, address] of Object.entries(
+    profile.priorityTokens ?? {}
+  )) {
+    checkAddress(address, `priorityTokens.${symbol}`);
+  }
+  (profile.stablecoins ?? []).forEach((address, i) =>
+    checkAddress(address, `stablecoins[${i}]`)
+  );
+  return errors;
+}
+
+function loadProfiles(): Map<number, ChainProfile> {
+  const loaded = new Map<number, ChainProfile>(
+    [BSC_MAINNET, BSC_TESTNET].map((profile) => [profile.chainId, profile])
+  );
+  if (!fs.existsSync(PROFILES_DIRECTORY)) return loaded;
+
+  for (const file of fs.readdirSync(PROFILES_DIRECTORY).sort()) {
+    if (!/\.(ya?ml|json)$/.test(file)) continue;
+    const filePath = path.join(PROFILES_DIRECTORY, file);
+    const profile = {
+      multicall3: MULTICALL3,
+      priorityTokens: {},
+      stablecoins: [],
+      ...(yaml.load(
+        fs.readFileSync(filePath, "utf8")
+      ) as Partial<ChainProfile>),
+    } as ChainProfile;
+
+    const errors = validateProfile(profile);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid chain profile chains/${file}:\n${errors
+          .map((error) => `  - ${error}`)
+          .join("\n")}`
+      );
+    }
+    // A file for a built-in chain replaces it
+    loaded.set(profile.chainId, profile);
+  }
+  return loaded;
+}
+
+/**
+ * Every known chain profile: the built-in BSC ones and the files under chains/
+ */
+export function getChainProfiles(): ChainProfile[] {
+  profiles ??= loadProfiles();
+  return Array.from(profiles.values());
+}
+
+/**
+ * Profile of a chain
+ * @throws When no profile is known for the chain id
+ */
+export function getChainProfile(chainId: number | bigint): ChainProfile {
+  const profile = getChainProfiles().find(
+    (profile) => profile.chainId === Number(chainId)
+  );
+  if (!profile) {
+    throw new Error(
+      `No chain profile for chain ID ${chainId}; add one under chains/ (see the README)`
+    );
+  }
+  return profile;
+}
+
+// Profile of the chain a provider is connected to
+export async function resolveChainProfile(
+  provider: Provider
+): Promise<ChainProfile> {
+  const {chainId} = await provider.getNetwork();
+  return getChainProfile(chainId);
+}
+
+export function getPrimaryDexInfo(profile: ChainProfile): DexInfo {
+  return profile.dexes.find((dex) => dex.id === profile.primaryDex)!;
+}
+
+// Address of a token of the profile by symbol, base token included
+export function getTokenAddress(profile: ChainProfile, symbol: string): string {
+  const address =
+    symbol === profile.baseToken.symbol
+      ? profile.baseToken.address
+      : profile.priorityTokens[symbol];
+  if (!address) {
+    throw new Error(`${profile.name} has no ${symbol} token in its profile`);
+  }
+  return address;
+}
+
+export function getExplorerLink(
+  profile: ChainProfile,
+  kind: "address" | "tx",
+  value: string
+): string {
+  return `${profile.explorerUrl}/${kind}/${value}`;
+}
@@ -1,13 +1,16 @@
 // scripts/check-pool-liquidity.ts
 import {ethers} from "hardhat";
+import {
+  getPrimaryDexInfo,
+  getTokenAddress,
+  resolveChainProfile,
+} from "./chain-profiles";
 
 async function main() {
-  const FACTORY = "0x6725F303b657a9451d8BA641348b6761A6CC7a17";
-  const BUSD = "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7";
-  const WBNB = "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd";
-  const CAKE = "0xFa60D973F7642B748046464e165A65B7323b0DEE";
-  const USDT = "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684";
-  const USDC = "0x64544969ed7EBf5f083679233325356EbE738930";
+  const profile = await resolveChainProfile(ethers.provider);
+  const FACTORY = getPrimaryDexInfo(profile).factory;
+  const BUSD = getTokenAddress(profile, "BUSD");
+  const USDC = getTokenAddress(profile, "USDC");
 
   // Factory ABI (just the getPair function)
   const factoryAbi = [
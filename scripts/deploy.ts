@@ -1,6 +1,11 @@
 import {ethers, run} from "hardhat";
 import fs from "fs";
 import path from "path";
+import {
+  getChainProfile,
+  getExplorerLink,
+  getPrimaryDexInfo,
+} from "./chain-profiles";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
@@ -27,34 +32,13 @@ async function main() {
   console.log(`Network: ${name} (Chain ID: ${chainId})`);
 
   // Set addresses based on network
-  let factoryAddress, routerAddress, baseTokenAddress;
+  const profile = getChainProfile(chainId);
+  const primaryDex = getPrimaryDexInfo(profile);
+  const factoryAddress = primaryDex.factory;
+  const routerAddress = primaryDex.router;
+  const baseTokenAddress = profile.baseToken.address;
   let verifyContract = false;
-
-  if (chainId === 56n) {
-    // Fix: Compare with BigInt (56n)
-    // BSC Mainnet
-    factoryAddress = "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73";
-    routerAddress = "0x10ED43C718714eb63d5aA57B78B54704E256024E";
-    baseTokenAddress = "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c";
-    //verifyContract = true;
-    console.log("Using BSC Mainnet addresses");
-  } else if (chainId === 97n) {
-    // Fix: Compare with BigInt (97n)
-    // BSC Testnet
-    factoryAddress = "0x6725F303b657a9451d8BA641348b6761A6CC7a17";
-    routerAddress = "0xD99D1c33F9fC3444f8101754aBC46c52416550D1";
-    baseTokenAddress = "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd";
-    //verifyContract = true;
-    console.log("Using BSC Testnet addresses");
-  } else {
-    console.log(
-      `Network ${chainId} is not officially supported, but will attempt deployment.`
-    );
-    console.log("You'll need to manually set the correct addresses later.");
-    factoryAddress = "0x0000000000000000000000000000000000000000";
-    routerAddress = "0x0000000000000000000000000000000000000000";
-    baseTokenAddress = "0x0000000000000000000000000000000000000000";
-  }
+  console.log(`Using ${profile.name} addresses (${primaryDex.name})`);
 
   console.log("----------------------------------------------------");
   console.log("Deployment Configuration:");
@@ -183,11 +167,7 @@ async function main() {
     console.log("----------------------------------------------------");
     console.log("Next steps:");
     console.log("1. Check your contract on the block explorer");
-    console.log(
-      `   https://${
-        chainId === 97n ? "testnet." : ""
-      }bscscan.com/address/${contractAddress}`
-    );
+    console.log(`   ${getExplorerLink(profile, "address", contractAddress)}`);
     console.log("2. Start using your FlashSwap contract");
     console.log("----------------------------------------------------");
   } catch (error) {
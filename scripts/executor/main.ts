@@ -0,0 +1,92 @@
+import {ethers} from "hardhat";
+import fs from "fs";
+import path from "path";
+import {Contract} from "ethers";
+import {Worker} from "bullmq";
+import {loadSettings} from "../scan/settings";
+import {
+  getExplorerLink,
+  getPrimaryDexInfo,
+  resolveChainProfile,
+} from "../chain-profiles";
+import {startExecutorWorker} from "./worker";
+
+// Address of the latest FlashSwap deployed by scripts/deploy.ts on a chain
+function getLatestDeploymentAddress(chainId: number): string {
+  const deploymentFile = path.join(
+    __dirname,
+    "../../deployments",
+    `flashswap-${chainId}.json`
+  );
+  if (!fs.existsSync(deploymentFile)) return "";
+  const deployments = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+  const latest = Array.isArray(deployments)
+    ? deployments[deployments.length - 1]
+    : deployments;
+  return latest?.contractAddress ?? "";
+}
+
+async function main() {
+  // Same settings as the scanner: queue, Redis and FlashSwap address
+  const {settings} = loadSettings(process.argv.slice(2), process.env);
+  const profile = await resolveChainProfile(ethers.provider);
+  const [signer] = await ethers.getSigners();
+
+  const flashSwapAddress =
+    settings.FLASHSWAP_ADDRESS || getLatestDeploymentAddress(profile.chainId);
+  if (!flashSwapAddress) {
+    throw new Error(
+      `No FlashSwap deployment on ${profile.name}; deploy one or set FLASHSWAP_ADDRESS`
+    );
+  }
+
+  // Owner-only getter: fails fast when the signer can't execute
+  const flashSwap = new Contract(
+    flashSwapAddress,
+    ["function getTestMode() external view returns (bool)"],
+    signer
+  );
+  try {
+    await flashSwap.getTestMode();
+  } catch {
+    throw new Error(
+      `${signer.address} is not the owner of FlashSwap ${flashSwapAddress}`
+    );
+  }
+
+  console.log(`Executing flash jobs on ${profile.name}`);
+  console.log(
+    `FlashSwap: ${getExplorerLink(profile, "address", flashSwapAddress)}`
+  );
+  console.log(`Owner: ${signer.address}`);
+  console.log(
+    `Queue: ${settings.QUEUE_NAME} on ${settings.REDIS_HOST}:${settings.REDIS_PORT}`
+  );
+
+  const worker = startExecutorWorker({
+    flashSwapAddress,
+    signer,
+    queueName: settings.QUEUE_NAME,
+    connection: {host: settings.REDIS_HOST, port: settings.REDIS_PORT},
+    confirmations: settings.EXECUTOR_CONFIRMATIONS,
+    routerAddress: getPrimaryDexInfo(profile).router,
+  });
+  process.once("SIGINT", () => shutdown(worker));
+  process.once("SIGTERM", () => shutdown(worker));
+}
+
+// Let the running job finish before exiting
+async function shutdown(worker: Worker) {
+  console.log("Stopping the executor...");
+  await worker.close();
+  process.exit(0);
+}
+
+main()
+  .then(() => {
+    console.log("Executor running. Press Ctrl+C to exit.");
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,207 @@
+import {Contract, Interface, isError, Signer, TransactionReceipt} from "ethers";
+import {ConnectionOptions, Job, UnrecoverableError, Worker} from "bullmq";
+import {StartArbitrageArgs} from "../scan/types";
+import {FLASH_JOB_NAME, FlashJob, validateFlashJob} from "../flash-job";
+
+// Subset of the FlashSwap ABI the executor calls and decodes
+const FLASHSWAP_ABI = [
+  "function start(address _token0, uint256 _borrow_amt, address _token1, address _token2, uint256 _deadlineMinutes, uint256[] _slippageValues, uint256[] _minAmountsOut)",
+  "function getDeadlineMinutes() external view returns (uint256)",
+  "event ArbitrageExecuted(address indexed tokenBorrowed, uint256 amountBorrowed, uint256 amountReturned, uint256 profit, bool success)",
+];
+const flashSwapInterface = new Interface(FLASHSWAP_ABI);
+const ROUTER_ABI = [
+  "function getAmountsOut(uint amountIn, address[] memory path) external view returns (uint[] memory amounts)",
+];
+
+export interface ExecutorOptions {
+  flashSwapAddress: string;
+  signer: Signer; // Owner of the FlashSwap contract
+  queueName: string;
+  connection: ConnectionOptions;
+  confirmations: number; // Blocks to wait for before reporting a result
+  routerAddress?: string; // Router of the FlashSwap DEX; minAmountsOut of jobs are checked when set
+}
+
+// ArbitrageExecuted of FlashSwap; amounts are raw integers as strings (job data is JSON)
+export interface ArbitrageExecutedEvent {
+  tokenBorrowed: string;
+  amountBorrowed: string;
+  amountReturned: string;
+  profit: string;
+  success: boolean; // The trade beat the repayment by FlashSwap's profit margin
+}
+
+// Return value of a flash job
+export interface ArbitrageJobResult extends ArbitrageExecutedEvent {
+  txHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  effectiveGasPrice: string; // wei
+}
+
+// ArbitrageExecuted of a FlashSwap transaction, null when the receipt has none
+export function decodeArbitrageExecuted(
+  receipt: TransactionReceipt,
+  flashSwapAddress: string
+): ArbitrageExecutedEvent | null {
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== flashSwapAddress.toLowerCase()) continue;
+    const parsed = flashSwapInterface.parseLog({
+      topics: [...log.topics],
+      data: log.data,
+    });
+    if (parsed?.name !== "ArbitrageExecuted") continue;
+    return {
+      tokenBorrowed: parsed.args.tokenBorrowed,
+      amountBorrowed: parsed.args.amountBorrowed.toString(),
+      amountReturned: parsed.args.amountReturned.toString(),
+      profit: parsed.args.profit.toString(),
+      success: parsed.args.success,
+    };
+  }
+  return null;
+}
+
+/**
+ * Quote a job's triangle at the latest block and compare each hop with its minimum output,
+ * so jobs FlashSwap.start would revert on aren't sent
+ * @throws UnrecoverableError when the reserves drifted below a minimum since detection
+ */
+export async function checkMinAmountsOut(router: Contract, args: FlashJob) {
+  if (!args.minAmountsOut) return;
+  const amounts: bigint[] = await router.getAmountsOut(
+    BigInt(args.borrowAmount),
+    [args.token0, args.token1, args.token2, args.token0]
+  );
+  args.minAmountsOut.forEach((minAmount, i) => {
+    if (amounts[i + 1] < BigInt(minAmount)) {
+      throw new UnrecoverableError(
+        `Hop ${i + 1} returns ${amounts[i + 1]}, below its minimum ${minAmount}`
+      );
+    }
+  });
+}
+
+/**
+ * Call FlashSwap.start with the tokens, amount, deadline, slippages and minimum outputs
+ * of a job and wait for the receipt.
+ * @throws UnrecoverableError when the transaction reverts, so the job isn't retried
+ */
+export async function executeArbitrage(
+  flashSwap: Contract,
+  args: StartArbitrageArgs,
+  confirmations = 1
+): Promise<ArbitrageJobResult> {
+  const flashSwapAddress = await flashSwap.getAddress();
+  let receipt: TransactionReceipt | null;
+  try {
+    const tx = await flashSwap.start(
+      args.token0,
+      BigInt(args.borrowAmount),
+      args.token1,
+      args.token2,
+      args.deadLineMin,
+      args.slippages,
+      args.minAmountsOut ?? []
+    );
+    console.log(`Executor: transaction sent ${tx.hash}`);
+    receipt = await tx.wait(confirmations);
+  } catch (error) {
+    if (isError(error, "CALL_EXCEPTION")) {
+      throw new UnrecoverableError(
+        `FlashSwap.start reverted: ${error.reason ?? error.shortMessage}`
+      );
+    }
+    throw error;
+  }
+  if (!receipt) throw new Error("Transaction receipt not found");
+
+  const event = decodeArbitrageExecuted(receipt, flashSwapAddress);
+  if (!event) {
+    throw new UnrecoverableError(
+      `No ArbitrageExecuted event in transaction ${receipt.hash}`
+    );
+  }
+  return {
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.gasPrice.toString(),
+    ...event,
+  };
+}
+
+/**
+ * Start a worker executing the flash jobs of the queue one at a time (the FlashSwap
+ * owner sends them, so they share a nonce sequence).
+ * Jobs still waiting after their deadline or expiry block are dropped; results are the
+ * job return values.
+ */
+export function startExecutorWorker(options: ExecutorOptions): Worker {
+  const flashSwap = new Contract(
+    options.flashSwapAddress,
+    FLASHSWAP_ABI,
+    options.signer
+  );
+  const router = options.routerAddress
+    ? new Contract(options.routerAddress, ROUTER_ABI, options.signer)
+    : null;
+
+  const worker = new Worker<FlashJob, ArbitrageJobResult>(
+    options.queueName,
+    async (job: Job<FlashJob>) => {
+      if (job.name !== FLASH_JOB_NAME) {
+        throw new UnrecoverableError(`Unknown job name: ${job.name}`);
+      }
+      // Producers of another version or with a bug; retrying won't fix the data
+      let data: FlashJob;
+      try {
+        data = validateFlashJob(job.data);
+      } catch (error) {
+        throw new UnrecoverableError((error as Error).message);
+      }
+
+      // 0 leaves the contract's deadline, the last one a job set (5 minutes initially)
+      const deadLineMin =
+        data.deadLineMin > 0
+          ? data.deadLineMin
+          : Number(await flashSwap.getDeadlineMinutes());
+      const expiresAt = job.timestamp + deadLineMin * 60 * 1000;
+      if (Date.now() > expiresAt) {
+        throw new UnrecoverableError(
+          `Job expired ${Math.round((Date.now() - expiresAt) / 1000)}s ago`
+        );
+      }
+      // Reserves have moved too far since the opportunity was found
+      if (data.expiryBlock !== undefined) {
+        const blockNumber = await options.signer.provider!.getBlockNumber();
+        if (blockNumber > data.expiryBlock) {
+          throw new UnrecoverableError(
+            `Job expired at block ${data.expiryBlock} (now ${blockNumber})`
+          );
+        }
+      }
+      if (router) await checkMinAmountsOut(router, data);
+      return executeArbitrage(flashSwap, data, options.confirmations);
+    },
+    {connection: options.connection, concurrency: 1}
+  );
+
+  worker.on("completed", (job, result) => {
+    console.log(
+      `Executor: job ${job.id} ${
+        result.success ? "profitable" : "unprofitable"
+      }, profit ${result.profit} of ${result.tokenBorrowed} (tx ${
+        result.txHash
+      })`
+    );
+  });
+  worker.on("failed", (job, error) => {
+    console.error(`Executor: job ${job?.id} failed: ${error.message}`);
+  });
+  worker.on("error", (error) => {
+    console.error(`Executor worker error: ${error}`);
+  });
+  return worker;
+}
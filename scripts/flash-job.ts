@@ -0,0 +1,187 @@
+import {getAddress, isAddress} from "ethers";
+import {ArbitrageSimulation} from "./scan/types";
+
+// Name of the jobs the scanner adds to the queue
+export const FLASH_JOB_NAME = "flash";
+// Bumped on every incompatible change of FlashJob; executors reject other versions
+export const FLASH_JOB_VERSION = 1;
+
+// FlashSwap.start only accepts slippages in [990, 999], three or none
+const MIN_SLIPPAGE = 990;
+const MAX_SLIPPAGE = 999;
+const HOP_COUNT = 3;
+
+const SIMULATION_STATUSES: ArbitrageSimulation["status"][] = [
+  "passed",
+  "reverted",
+  "unprofitable",
+  "failed",
+  "skipped",
+];
+
+export interface FlashJobMetadata {
+  cycleId: string; // Cycle the opportunity was found on, see getCycleId
+  detectionBlock: number; // Newest reserve snapshot of the cycle's pools
+  expectedProfit: string; // Raw amount of token0, before gas
+  createdAt: number; // ms timestamp
+}
+
+/**
+ * Data of a flash job. It travels as JSON, so addresses are checksummed strings and
+ * raw amounts are decimal integer strings.
+ */
+export interface FlashJob {
+  version: typeof FLASH_JOB_VERSION;
+  token0: string; // Borrowed token
+  token1: string;
+  token2: string;
+  borrowAmount: string;
+  deadLineMin: number; // 0 uses the contract's default
+  slippages: number[]; // Per mille per hop, [990, 999]
+  minAmountsOut?: string[]; // Raw minimum output of each hop, enforced by FlashSwap.start
+  expiryBlock?: number; // Executors discard the job after this block
+  simulation?: ArbitrageSimulation; // Attached by the pre-queue simulation
+  metadata: FlashJobMetadata;
+}
+
+// Fields of a job before encoding: any address case, bigint amounts
+export interface FlashJobFields
+  extends Omit<
+    FlashJob,
+    "version" | "borrowAmount" | "minAmountsOut" | "metadata"
+  > {
+  borrowAmount: bigint;
+  minAmountsOut?: bigint[];
+  metadata: Omit<FlashJobMetadata, "expectedProfit"> & {
+    expectedProfit: bigint;
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+const isRawAmount = (value: unknown): value is string =>
+  typeof value === "string" && /^\d+$/.test(value);
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+/**
+ * Problems of a job's data, empty when it is a valid FlashJob
+ */
+export function getFlashJobProblems(data: unknown): string[] {
+  if (!isRecord(data)) return ["not an object"];
+  const job = data;
+  if (job.version !== FLASH_JOB_VERSION) {
+    return [
+      `version ${job.version ?? "missing"}, expected ${FLASH_JOB_VERSION}`,
+    ];
+  }
+
+  const problems: string[] = [];
+  for (const field of ["token0", "token1", "token2"]) {
+    const value = job[field];
+    if (typeof value !== "string" || !isAddress(value)) {
+      problems.push(`${field} is not an address`);
+    } else if (getAddress(value) !== value) {
+      problems.push(`${field} is not checksummed`);
+    }
+  }
+  const {borrowAmount, slippages, minAmountsOut, simulation} = job;
+  if (!isRawAmount(borrowAmount) || BigInt(borrowAmount) === 0n) {
+    problems.push("borrowAmount is not a positive integer string");
+  }
+  if (!isNonNegativeInteger(job.deadLineMin)) {
+    problems.push("deadLineMin is not a non-negative integer");
+  }
+  if (
+    !Array.isArray(slippages) ||
+    (slippages.length !== 0 && slippages.length !== HOP_COUNT) ||
+    !slippages.every(
+      (slippage: unknown) =>
+        typeof slippage === "number" &&
+        Number.isInteger(slippage) &&
+        slippage >= MIN_SLIPPAGE &&
+        slippage <= MAX_SLIPPAGE
+    )
+  ) {
+    problems.push(
+      `slippages is neither empty nor ${HOP_COUNT} integers in [${MIN_SLIPPAGE}, ${MAX_SLIPPAGE}]`
+    );
+  }
+  if (
+    minAmountsOut !== undefined &&
+    (!Array.isArray(minAmountsOut) ||
+      minAmountsOut.length !== HOP_COUNT ||
+      !minAmountsOut.every(isRawAmount))
+  ) {
+    problems.push(`minAmountsOut is not ${HOP_COUNT} integer strings`);
+  }
+  if (job.expiryBlock !== undefined && !isNonNegativeInteger(job.expiryBlock)) {
+    problems.push("expiryBlock is not a block number");
+  }
+  if (
+    simulation !== undefined &&
+    !(
+      isRecord(simulation) &&
+      SIMULATION_STATUSES.some((status) => status === simulation.status)
+    )
+  ) {
+    problems.push("simulation has no valid status");
+  }
+
+  const metadata = job.metadata;
+  if (!isRecord(metadata)) {
+    problems.push("metadata is missing");
+  } else {
+    if (typeof metadata.cycleId !== "string" || !metadata.cycleId) {
+      problems.push("metadata.cycleId is missing");
+    }
+    if (!isNonNegativeInteger(metadata.detectionBlock)) {
+      problems.push("metadata.detectionBlock is not a block number");
+    }
+    if (!isRawAmount(metadata.expectedProfit)) {
+      problems.push("metadata.expectedProfit is not an integer string");
+    }
+    if (!isNonNegativeInteger(metadata.createdAt)) {
+      problems.push("metadata.createdAt is not a timestamp");
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check that a job's data is a FlashJob
+ * @throws Error listing every problem
+ */
+export function validateFlashJob(data: unknown): FlashJob {
+  const problems = getFlashJobProblems(data);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid flash job:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+  }
+  return data as FlashJob;
+}
+
+/**
+ * Encode and validate the data of a job: checksummed addresses, amounts as strings
+ * @throws Error listing every problem
+ */
+export function createFlashJob(fields: FlashJobFields): FlashJob {
+  const checksum = (address: string) =>
+    isAddress(address) ? getAddress(address) : address;
+  return validateFlashJob({
+    ...fields,
+    version: FLASH_JOB_VERSION,
+    token0: checksum(fields.token0),
+    token1: checksum(fields.token1),
+    token2: checksum(fields.token2),
+    borrowAmount: fields.borrowAmount.toString(),
+    minAmountsOut: fields.minAmountsOut?.map((amount) => amount.toString()),
+    metadata: {
+      ...fields.metadata,
+      expectedProfit: fields.metadata.expectedProfit.toString(),
+    },
+  });
+}
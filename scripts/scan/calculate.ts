@@ -1,31 +1,47 @@
-import {ethers} from "hardhat";
 import {Contract} from "ethers";
-import {ArbitrageOpportunity, PoolData} from "./types";
+import {
+  ArbitrageCycle,
+  ArbitrageOpportunity,
+  ArbitragePathStep,
+  DexInfo,
+  PoolData,
+} from "./types";
 import * as config from "./config";
 import {saveLocalEstimatesForAnalysis} from "./utils-file";
 import {debugLog} from "./utils-log";
-import {sendArbitrage} from "./send";
-
-// Remove the factory import and use PancakeSwap ABI directly:
-const ROUTER_ABI = [
-  "function getAmountsOut(uint amountIn, address[] memory path) external view returns (uint[] memory amounts)",
-];
-let router: Contract | null = null;
-
-async function initializeRouter(): Promise<Contract> {
-  if (router) return router;
+import {getOpportunityProblems, sendArbitrage} from "./send";
+import {getSnapshotBlockSpread, isNegativeCycle} from "./cycles";
+import {getIndexedCycles} from "./cycle-index";
+import {getTokenPrice, updateTokenPrices} from "./price-oracle";
+import {findOptimalAmount} from "./optimizer";
+import {recordPoolProfit} from "./pool-selection";
+import {getDex, PRIMARY_DEX_ID} from "./dex-registry";
+import {applyTokenTaxes, getTokenSafety} from "./token-safety";
+import {convertBNBToToken, estimateArbitrageGas} from "./gas-model";
+import {
+  fromRawAmount,
+  getAmountsOut,
+  getFlashLoanRepayAmount,
+  getHopReserves,
+  toRawAmount,
+} from "./utils-amm";
+
+const routers = new Map<string, Contract>();
+
+async function initializeRouter(dex: DexInfo): Promise<Contract> {
+  const existing = routers.get(dex.id);
+  if (existing) return existing;
 
   try {
-    // Use Hardhat's provider directly - works on any network Hardhat is configured for
-    const provider = ethers.provider;
-    const routerAddress = "0x10ED43C718714eb63d5aA57B78B54704E256024E"; // PancakeSwap router on BSC
-
-    router = new Contract(routerAddress, ROUTER_ABI, provider);
+    // Scanner provider, with failover between the configured RPC endpoints
+    const provider = config.provider;
+    const router = new Contract(dex.router, config.ROUTER_ABI, provider);
 
     // Verify connection
     await provider.getBlockNumber();
-    console.log("Connected to blockchain via Hardhat provider");
+    console.log(`Connected to the ${dex.name} router via Hardhat provider`);
 
+    routers.set(dex.id, router);
     return router;
   } catch (error) {
     console.error("Router initialization failed:", error);
@@ -33,23 +49,37 @@ async function initializeRouter(): Promise<Contract> {
   }
 }
 
+// Quote a path with the routers of its pools; consecutive hops on one DEX share a call
 async function getActualTradeOutput(
   amount: number,
-  path: string[]
+  path: string[],
+  pools: PoolData[]
 ): Promise<number> {
   try {
-    // Get a router instance
-    const routerInstance = await initializeRouter();
+    // Convert amount to raw units of the start token
+    let amountIn = toRawAmount(
+      amount,
+      config.state.tokenCache[path[0]].decimals
+    );
 
-    // Convert amount to wei (assuming 18 decimals)
-    const amountIn = ethers.parseUnits(amount.toString(), 18);
+    for (let start = 0; start < pools.length; ) {
+      let end = start + 1;
+      while (end < pools.length && pools[end].dex === pools[start].dex) end++;
 
-    // Get amounts out from router
-    const amountsOut = await routerInstance.getAmountsOut(amountIn, path);
+      // Get amounts out from the router of this DEX
+      const routerInstance = await initializeRouter(getDex(pools[start].dex));
+      const amountsOut = await routerInstance.getAmountsOut(
+        amountIn,
+        path.slice(start, end + 1)
+      );
+      amountIn = amountsOut[amountsOut.length - 1];
+      start = end;
+    }
 
     // Parse the result
-    const result = Number(
-      ethers.formatUnits(amountsOut[amountsOut.length - 1], 18)
+    const result = fromRawAmount(
+      amountIn,
+      config.state.tokenCache[path[path.length - 1]].decimals
     );
 
     return result;
@@ -57,52 +87,34 @@ async function getActualTradeOutput(
     const error = err as Error;
     console.error("Error simulating trade:", error);
 
-    // Default fallback - assume 0.3% fee but no price impact
-    return amount * 0.997;
+    // Default fallback - the pool fees but no price impact
+    return pools.reduce(
+      (output, pool) => output * (1 - pool.feeBps / 10000),
+      amount
+    );
   }
 }
 
 // Local Trade Calculation
+// Exact router integer math on the raw reserves, so it matches getAmountsOut
 function calculateLocalTradeOutput(
   amount: number,
   path: string[],
-  reserves: {[poolAddress: string]: {reserve0: string; reserve1: string}},
-  findPoolForPair: (tokenA: string, tokenB: string) => string,
-  isToken0: (token: string, poolAddress: string) => boolean
+  pools: PoolData[]
 ): number {
-  let currentAmount = amount;
-
-  // For each hop in the path (except the last token)
-  for (let i = 0; i < path.length - 1; i++) {
-    const tokenIn = path[i];
-    const tokenOut = path[i + 1];
-
-    // Find the pool for this pair
-    const poolAddress = findPoolForPair(tokenIn, tokenOut);
-    if (!poolAddress) return 0;
-
-    const poolReserves = reserves[poolAddress];
-    if (!poolReserves) return 0;
-
-    // Determine which token is token0 and which is token1
-    const isToken0In = isToken0(tokenIn, poolAddress);
-
-    if (isToken0In) {
-      // Token0 in, Token1 out
-      const reserveIn = Number(poolReserves.reserve0);
-      const reserveOut = Number(poolReserves.reserve1);
-      currentAmount =
-        (reserveOut * currentAmount * 0.997) /
-        (reserveIn + currentAmount * 0.997);
-    } else {
-      // Token1 in, Token0 out
-      const reserveIn = Number(poolReserves.reserve1);
-      const reserveOut = Number(poolReserves.reserve0);
-      currentAmount =
-        (reserveOut * currentAmount * 0.997) /
-        (reserveIn + currentAmount * 0.997);
-    }
-  }
+  const startToken = config.state.tokenCache[path[0]];
+  const endToken = config.state.tokenCache[path[path.length - 1]];
+  if (!startToken || !endToken || pools.length !== path.length - 1) return 0;
+
+  // Orient each pool's reserves in the trade direction
+  const hops = pools.map((pool, i) =>
+    applyTokenTaxes(getHopReserves(pool, path[i]), path[i], path[i + 1])
+  );
+  const amounts = getAmountsOut(toRawAmount(amount, startToken.decimals), hops);
+  const currentAmount = fromRawAmount(
+    amounts[amounts.length - 1],
+    endToken.decimals
+  );
 
   debugLog(
     "\n==== \
@@ -110,153 +122,62 @@ function calculateLocalTradeOutput(
     2,
     `Amount in: ${amount}, Amount out: ${currentAmount}, \npath: ${path.join(
       " -> "
-    )}, \nreserves: ${JSON.stringify(reserves)}
+    )}, \nhop amounts: ${amounts.join(" -> ")}
     \nLocal trade calculation completed\n----\n`
   );
   return currentAmount;
 }
 
 // Find arbitrage opportunities using in-memory data
-export async function findArbitrageOpportunities() {
+// When changedPools is given, only cycles through those pools are evaluated
+// The signal cancels the search between cycles
+export async function findArbitrageOpportunities(
+  changedPools?: Set<string>,
+  signal?: AbortSignal
+) {
   // Start timing
   const startTime = Date.now();
 
   // We'll store found opportunities here
   const opportunities: ArbitrageOpportunity[] = [];
 
-  // Use all priority tokens as entry points instead of just stablecoins
-  const priorityTokenAddresses = Object.values(
-    config.PRIORITY_TOKENS_MUTABLE
-  ).map((address) => address.toLowerCase());
-
+  // All priority tokens are entry points of the indexed cycles
   console.log(
-    `Searching for arbitrage with ${priorityTokenAddresses.length} priority tokens as entry points`
+    `Searching for arbitrage with ${
+      Object.keys(config.PRIORITY_TOKENS_MUTABLE).length
+    } priority tokens as entry points`
   );
 
-  // Loop through all priority tokens
-  for (const startToken of priorityTokenAddresses) {
-    // Get all pools with this token
-    const startTokenPools =
-      config.state.tokenPools.get(startToken) || new Set();
-
-    if (startTokenPools.size === 0) {
-      console.log(
-        `No pools found for ${
-          config.state.tokenCache[startToken]?.symbol || startToken
-        }`
-      );
-      continue;
-    }
-
-    debugLog(
-      `Checking ${startTokenPools.size} pools for ${
-        config.state.tokenCache[startToken]?.symbol || startToken
-      }`,
-      2
-    );
-
-    // For each pool with the start token
-    for (const startPoolAddr of startTokenPools) {
-      const startPool = config.state.poolsMap.get(startPoolAddr);
-      if (!startPool) continue;
-
-      // Skip low liquidity pools
-      if (
-        startPool.liquidityUSD !== config.UNKNOW_LIQUIDITY_USD &&
-        Number(startPool.liquidityUSD) < config.MIN_LIQUIDITY_USD
-      ) {
-        continue;
-      }
-
-      // Get the other token in the pool
-      const midToken =
-        startPool.token0.address.toLowerCase() === startToken.toLowerCase()
-          ? startPool.token1.address.toLowerCase()
-          : startPool.token0.address.toLowerCase();
-
-      // Get all pools with this middle token
-      const midTokenPools = config.state.tokenPools.get(midToken) || new Set();
-
-      // For each pool with the middle token
-      for (const midPoolAddr of midTokenPools) {
-        // Skip the original start token pool
-        if (midPoolAddr === startPoolAddr) continue;
+  // Refresh USD prices and pool liquidity from the current reserves
+  updateTokenPrices();
 
-        const midPool = config.state.poolsMap.get(midPoolAddr);
-        if (!midPool) continue;
-
-        // Skip low liquidity pools
-        if (
-          midPool.liquidityUSD !== config.UNKNOW_LIQUIDITY_USD &&
-          Number(midPool.liquidityUSD) < config.MIN_LIQUIDITY_USD
-        ) {
-          continue;
-        }
-
-        // Get the other token in the middle pool
-        const destToken =
-          midPool.token0.address.toLowerCase() === midToken.toLowerCase()
-            ? midPool.token1.address.toLowerCase()
-            : midPool.token0.address.toLowerCase();
-
-        // Skip if it's the original start token
-        if (destToken === startToken) continue;
-
-        // Check if there's a pool between dest token and start token
-        const destPools = config.state.tokenPools.get(destToken) || new Set();
-
-        for (const destPoolAddr of destPools) {
-          // Skip already used pools
-          if (destPoolAddr === startPoolAddr || destPoolAddr === midPoolAddr)
-            continue;
-
-          const destPool = config.state.poolsMap.get(destPoolAddr);
-          if (!destPool) continue;
-
-          // Skip low liquidity pools
-          if (
-            destPool.liquidityUSD !== config.UNKNOW_LIQUIDITY_USD &&
-            Number(destPool.liquidityUSD) < config.MIN_LIQUIDITY_USD
-          ) {
-            continue;
-          }
-
-          // Check if this pool connects back to the start token
-          const otherToken =
-            destPool.token0.address.toLowerCase() === destToken.toLowerCase()
-              ? destPool.token1.address.toLowerCase()
-              : destPool.token0.address.toLowerCase();
-
-          if (otherToken === startToken) {
-            // We found a triangular path!
-            // Calculate potential profit
-            const opportunity = await calculateTriangularArbitrage(
-              startToken,
-              midToken,
-              destToken,
-              startPool,
-              midPool,
-              destPool
-            );
+  // Indexed cycles (through the changed pools only, if given) whose marginal rates multiply above 1
+  const indexedCycles = getIndexedCycles(changedPools);
+  const cycles = indexedCycles.filter(isNegativeCycle);
+  debugLog(
+    `Found ${cycles.length} candidate cycles out of ${indexedCycles.length}`,
+    2
+  );
 
-            if (
-              opportunity &&
-              opportunity.profitPercent >
-                (config.INPUT_ARGS.percent ?? config.MIN_PROFIT_THRESHOLD)
-            ) {
-              validateOpportunityAndSend(opportunity);
-              opportunities.push(opportunity);
-              // Update last profit found time
-              config.state.lastProfitFound = Date.now();
-            }
-          }
-        }
-      }
+  for (const cycle of cycles) {
+    signal?.throwIfAborted();
+    // Calculate potential profit
+    const opportunity = await calculateCycleArbitrage(cycle);
+
+    if (
+      opportunity &&
+      opportunity.profitPercent > config.MIN_PROFIT_THRESHOLD
+    ) {
+      validateOpportunityAndSend(opportunity);
+      opportunities.push(opportunity);
+      // Update last profit found time
+      config.state.lastProfitFound = Date.now();
+      recordPoolProfit(cycle.poolAddresses);
     }
   }
 
-  // Sort opportunities by profit
-  opportunities.sort((a, b) => b.netProfit - a.netProfit);
+  // Sort opportunities by USD profit, since start tokens differ
+  opportunities.sort((a, b) => (b.netProfitUSD ?? 0) - (a.netProfitUSD ?? 0));
 
   // Log timing
   const endTime = Date.now();
@@ -265,26 +186,57 @@ export async function findArbitrageOpportunities() {
   return opportunities;
 }
 
-// Calculate arbitrage profit for a triangular path
-export async function calculateTriangularArbitrage(
-  startToken: string,
-  midToken: string,
-  destToken: string,
-  pool1: PoolData,
-  pool2: PoolData,
-  pool3: PoolData
+// Calculate arbitrage profit for a cycle of any length
+export async function calculateCycleArbitrage(
+  cycle: ArbitrageCycle
 ): Promise<ArbitrageOpportunity | null> {
   try {
+    const {startToken, tokens: tradePath} = cycle;
     debugLog(
       "\n========================================== \
-      \nmethod calculateTriangularArbitrage enter:\n",
+      \nmethod calculateCycleArbitrage enter:\n",
       2,
-      `Start token: ${startToken}, Mid token: ${midToken}, Dest token: ${destToken}`
+      `Trade path: ${tradePath.join(" -> ")}`
+    );
+
+    const pools: PoolData[] = [];
+    for (const poolAddress of cycle.poolAddresses) {
+      const pool = config.state.poolsMap.get(poolAddress);
+      if (!pool) return null;
+      pools.push(pool);
+    }
+
+    // Reserves read blocks apart may describe prices that never coexisted
+    const blockSpread = getSnapshotBlockSpread(pools);
+    if (blockSpread > config.MAX_SNAPSHOT_BLOCK_SPREAD) {
+      debugLog(
+        `Skipping ${tradePath.join(
+          " -> "
+        )}: reserve snapshots are ${blockSpread} blocks apart`,
+        2
+      );
+      return null;
+    }
+
+    // Profit-maximizing borrow amount and the profit curve around it
+    const startDecimals = config.state.tokenCache[startToken].decimals;
+    const optimum = findOptimalAmount(
+      pools.map((pool, i) =>
+        applyTokenTaxes(
+          getHopReserves(pool, tradePath[i]),
+          tradePath[i],
+          tradePath[i + 1]
+        )
+      )
+    );
+    if (!optimum) {
+      debugLog(`No profitable borrow amount for ${tradePath.join(" -> ")}`, 2);
+      return null;
+    }
+    const optimalAmount = fromRawAmount(optimum.amountIn, startDecimals);
+    const testAmounts = optimum.curve.map((point) =>
+      fromRawAmount(point.amountIn, startDecimals)
     );
-    // Determine exact path and rates
-    const isPool1Token0Start = pool1.token0.address === startToken;
-    const isPool2Token0Mid = pool2.token0.address === midToken;
-    const isPool3Token0Dest = pool3.token0.address === destToken;
 
     // Initialize test results array
     const testResults = [];
@@ -295,74 +247,24 @@ export async function calculateTriangularArbitrage(
     let hasAnyProfitableAmount = false; // Flag to track if any amount is profitable
     let bestGasCost = 0;
     let localEstimatedProfit = false;
+    // FlashSwap.start only executes 3 hops; other cycles are reported from the
+    // local estimate, without router quotes or gas estimation
+    const isExecutable = pools.length === 3;
 
-    // Create reserves object for local calculation
-    const reserves: {
-      [poolAddress: string]: {reserve0: string; reserve1: string};
-    } = {
-      [pool1.address]: {
-        reserve0: pool1.token0.reserve,
-        reserve1: pool1.token1.reserve,
-      },
-      [pool2.address]: {
-        reserve0: pool2.token0.reserve,
-        reserve1: pool2.token1.reserve,
-      },
-      [pool3.address]: {
-        reserve0: pool3.token0.reserve,
-        reserve1: pool3.token1.reserve,
-      },
-    };
-
-    // Helper function to find pool for a pair
-    const findPoolForPair = (tokenA: string, tokenB: string): string => {
-      if (
-        (tokenA === startToken && tokenB === midToken) ||
-        (tokenA === midToken && tokenB === startToken)
-      ) {
-        return pool1.address;
-      } else if (
-        (tokenA === midToken && tokenB === destToken) ||
-        (tokenA === destToken && tokenB === midToken)
-      ) {
-        return pool2.address;
-      } else if (
-        (tokenA === destToken && tokenB === startToken) ||
-        (tokenA === startToken && tokenB === destToken)
-      ) {
-        return pool3.address;
-      }
-      return "";
-    };
-
-    // Helper function to determine if a token is token0 in a pool
-    const isToken0 = (token: string, poolAddress: string): boolean => {
-      if (poolAddress === pool1.address) {
-        return token === pool1.token0.address;
-      } else if (poolAddress === pool2.address) {
-        return token === pool2.token0.address;
-      } else if (poolAddress === pool3.address) {
-        return token === pool3.token0.address;
-      }
-      return false;
-    };
-
-    const tradePath = [startToken, midToken, destToken, startToken];
-
-    // Test each amount
-    for (const amount of config.TEST_AMOUNTS) {
+    // Test each amount of the profit curve
+    for (const amount of testAmounts) {
       try {
         // HYBRID APPROACH: First check with local calculation if it's worth pursuing
         const localEstimate = calculateLocalTradeOutput(
           amount,
           tradePath,
-          reserves,
-          findPoolForPair,
-          isToken0
+          pools
         );
 
-        const flashLoanFee = amount * 0.003;
-        const amountToRepay = amount + flashLoanFee;
+        const amountToRepay = fromRawAmount(
+          getFlashLoanRepayAmount(toRawAmount(amount, startDecimals)),
+          startDecimals
+        );
         const estimatedProfit = localEstimate - amountToRepay;
         const estimatedProfitPercent = estimatedProfit / amount;
 
@@ -381,92 +283,58 @@ export async function calculateTriangularArbitrage(
           );
         }
 
-        // Only do on-chain simulation if local calculation shows potentially significant profit
-        // estimatedProfitPercent already the fees included:
-        // - swap fees: 0.3% * 3 = 1.2%
-        // - flash loan fee: 0.3%
-        // - total: 1.5%
-        // So we need the MIN_PROFIT_THRESHOLD can cover the fees:
-        // - gas fees + slippage
-        // 1. For computational efficiency only: 0.5-0.8% could be sufficient
-        // 2. For slippage protection: 1.0-1.5% is reasonable
-        // 3. For higher execution success rate: 1.5-2.0% provides more safety
-        if (estimatedProfitPercent > config.MIN_PROFIT_THRESHOLD) {
+        // Only do on-chain simulation if local calculation shows potentially significant profit.
+        // estimatedProfitPercent already includes each pool's swap fee (feeBps) and the
+        // flash loan repayment, so MIN_PROFIT_THRESHOLD only has to cover gas and slippage.
+        // Only the optimal amount is verified with the router
+        if (
+          isExecutable &&
+          amount === optimalAmount &&
+          estimatedProfitPercent > config.MIN_PROFIT_THRESHOLD
+        ) {
           localEstimatedProfit = true;
-          const endAmount = await getActualTradeOutput(amount, tradePath);
+          const endAmount = await getActualTradeOutput(
+            amount,
+            tradePath,
+            pools
+          );
 
           // Calculate flash loan fee and profit
           const profit = endAmount - amountToRepay;
           const profitPercent = profit / amount;
 
-          // Calculate gas cost
-          // Calculate gas cost
-          const estimatedGasUsed = 300000; // Flash loan arbitrage typically uses ~300k gas
-          const gasCostBNB = estimatedGasUsed * config.GAS_PRICE * 1e-9; // Convert to BNB
-
-          // Convert gas cost to startToken
-          let gasCostInStartToken = 0;
-
-          // If the starting token is BNB/WBNB, use the gas cost directly
-          if (
-            startToken.toLowerCase() ===
-            config.PRIORITY_TOKENS_MUTABLE.WBNB.toLowerCase()
-          ) {
-            gasCostInStartToken = gasCostBNB;
-          } else {
-            // Find WBNB-startToken pool to get price conversion rate
-            const bnbPools =
-              config.state.tokenPools.get(
-                config.PRIORITY_TOKENS_MUTABLE.WBNB.toLowerCase()
-              ) || new Set();
-
-            // Look for a pool that contains both WBNB and our starting token
-            for (const bnbPoolAddr of bnbPools) {
-              const bnbPool = config.state.poolsMap.get(bnbPoolAddr);
-              if (!bnbPool) continue;
-
-              // Check if this pool contains our starting token
-              if (
-                bnbPool.token0.address.toLowerCase() ===
-                  startToken.toLowerCase() ||
-                bnbPool.token1.address.toLowerCase() ===
-                  startToken.toLowerCase()
-              ) {
-                // Determine BNB to startToken conversion rate
-                if (
-                  bnbPool.token0.address.toLowerCase() ===
-                  config.PRIORITY_TOKENS_MUTABLE.WBNB.toLowerCase()
-                ) {
-                  // BNB is token0, startToken is token1
-                  // Use reserve ratio: token1Reserve / token0Reserve gives us startToken per BNB
-                  const conversionRate =
-                    Number(bnbPool.token1.reserve) /
-                    Number(bnbPool.token0.reserve);
-                  gasCostInStartToken = gasCostBNB * conversionRate;
-                } else {
-                  // BNB is token1, startToken is token0
-                  // Use reserve ratio: token0Reserve / token1Reserve gives us startToken per BNB
-                  const conversionRate =
-                    Number(bnbPool.token0.reserve) /
-                    Number(bnbPool.token1.reserve);
-                  gasCostInStartToken = gasCostBNB * conversionRate;
-                }
-                break; // Found a pool, we can stop searching
-              }
-            }
-
-            // If we couldn't find a direct BNB-startToken pool, use a default estimate
-            if (gasCostInStartToken === 0) {
-              // Assume BNB is worth ~$300 and most tokens are roughly $1 each (for stablecoins)
-              // This is a very rough fallback estimate when we can't find a direct rate
-              gasCostInStartToken = gasCostBNB * 300;
-
-              // Log that we're using an estimate
-              console.log(
-                `Warning: Could not find BNB-${startToken} pool for gas cost calculation. Using estimate.`
-              );
-            }
+          // Gas cost at the current gas price, converted through the pool-graph prices
+          const gasEstimate = await estimateArbitrageGas(
+            tradePath,
+            toRawAmount(amount, startDecimals)
+          );
+          const gasCostInStartToken = convertBNBToToken(
+            gasEstimate.costBNB,
+            startToken
+          );
+          if (gasCostInStartToken === null) {
+            // Without a price the net profit is unknown, so the trade isn't taken
+            console.log(
+              `Warning: No USD price for ${config.state.tokenCache[startToken].symbol}, can't convert the gas cost`
+            );
+            testResults.push({
+              amount,
+              profit,
+              profitPercent,
+              netProfit: profit,
+              endAmount,
+              error: "Gas cost unknown (no price for the start token)",
+            });
+            continue;
           }
+          debugLog(
+            `Gas: ${gasEstimate.gasUsed} (${gasEstimate.source}) at ${
+              Number(gasEstimate.gasPrice) / 1e9
+            } gwei = ${gasEstimate.costBNB} BNB = ${gasCostInStartToken} ${
+              config.state.tokenCache[startToken].symbol
+            }`,
+            2
+          );
 
           // Calculate net profit after gas costs
           const netProfit = profit - gasCostInStartToken;
@@ -515,7 +383,10 @@ export async function calculateTriangularArbitrage(
           });
         }
       } catch (err: unknown) {
-        // [Error handling remains the same]
+        debugLog(
+          `Error evaluating amount ${amount} on cycle ${cycle.id}: ${err}`,
+          1
+        );
       }
     }
 
@@ -527,57 +398,45 @@ Test results: ${JSON.stringify(testResults, null, 2)}\n
 --------------------------------------------------------`
     );
 
+    if (!isExecutable) {
+      const optimalResult = testResults.find(
+        (result) => result.amount === optimalAmount
+      );
+      if (
+        optimalResult &&
+        optimalResult.profitPercent > config.MIN_PROFIT_THRESHOLD
+      ) {
+        debugLog(
+          `Detection only (${pools.length} hops): ${tradePath
+            .map((token) => config.state.tokenCache[token].symbol)
+            .join(" -> ")}, estimated ${
+            optimalResult.profitPercent
+          } on ${optimalAmount}`
+        );
+      }
+      return null;
+    }
+
     if (hasAnyProfitableAmount) {
+      const startTokenPrice = getTokenPrice(startToken);
+
       // Create and return the opportunity object with test results
       return {
+        cycleId: cycle.id,
+        blockNumber: Math.max(...pools.map((pool) => pool.blockNumber)),
         startToken,
-        path: [
-          {
-            poolAddress: pool1.address,
-            tokenIn: startToken,
-            tokenOut: midToken,
-            tokenInSymbol: isPool1Token0Start
-              ? pool1.token0.symbol
-              : pool1.token1.symbol,
-            tokenOutSymbol: isPool1Token0Start
-              ? pool1.token1.symbol
-              : pool1.token0.symbol,
-            tokenInDecimals: config.state.tokenCache[startToken].decimals,
-            tokenOutDecimals: config.state.tokenCache[midToken].decimals,
-          },
-          {
-            poolAddress: pool2.address,
-            tokenIn: midToken,
-            tokenOut: destToken,
-            tokenInSymbol: isPool2Token0Mid
-              ? pool2.token0.symbol
-              : pool2.token1.symbol,
-            tokenOutSymbol: isPool2Token0Mid
-              ? pool2.token1.symbol
-              : pool2.token0.symbol,
-            tokenInDecimals: config.state.tokenCache[midToken].decimals,
-            tokenOutDecimals: config.state.tokenCache[destToken].decimals,
-          },
-          {
-            poolAddress: pool3.address,
-            tokenIn: destToken,
-            tokenOut: startToken,
-            tokenInSymbol: isPool3Token0Dest
-              ? pool3.token0.symbol
-              : pool3.token1.symbol,
-            tokenOutSymbol: isPool3Token0Dest
-              ? pool3.token1.symbol
-              : pool3.token0.symbol,
-            tokenInDecimals: config.state.tokenCache[destToken].decimals,
-            tokenOutDecimals: config.state.tokenCache[startToken].decimals,
-          },
-        ],
+        path: buildPathSteps(tradePath, pools),
         expectedProfit: bestProfit,
         profitPercent: bestProfitPercent,
         estimatedGasCost: bestGasCost,
         netProfit: bestNetProfit,
+        expectedProfitUSD:
+          startTokenPrice && bestProfit * startTokenPrice.priceUSD,
+        netProfitUSD:
+          startTokenPrice && bestNetProfit * startTokenPrice.priceUSD,
+        priceConfidence: startTokenPrice?.confidence,
         timestamp: new Date().toISOString(),
-        testAmounts: config.TEST_AMOUNTS,
+        testAmounts: testAmounts,
         testResults: testResults,
         bestAmount: bestAmount,
       };
@@ -588,15 +447,7 @@ Test results: ${JSON.stringify(testResults, null, 2)}\n
     if (localEstimatedProfit && !hasAnyProfitableAmount) {
       // This case is interesting for analysis - local calculation showed promise
       // but on-chain verification didn't find profit
-      saveLocalEstimatesForAnalysis(
-        startToken,
-        midToken,
-        destToken,
-        testResults,
-        pool1,
-        pool2,
-        pool3
-      );
+      saveLocalEstimatesForAnalysis(tradePath, testResults, pools);
       console.log(
         `Saved local estimate analysis: Local calc was profitable but router calc wasn't`
       );
@@ -610,33 +461,75 @@ Test results: ${JSON.stringify(testResults, null, 2)}\n
   }
 }
 
+// Build the opportunity path steps for each hop of a trade path
+function buildPathSteps(
+  tradePath: string[],
+  pools: PoolData[]
+): ArbitragePathStep[] {
+  return pools.map((pool, i) => {
+    const tokenIn = tradePath[i];
+    const tokenOut = tradePath[i + 1];
+    const isToken0In = pool.token0.address === tokenIn;
+    return {
+      poolAddress: pool.address,
+      dex: pool.dex,
+      feeBps: pool.feeBps,
+      tokenIn,
+      tokenOut,
+      tokenInSymbol: isToken0In ? pool.token0.symbol : pool.token1.symbol,
+      tokenOutSymbol: isToken0In ? pool.token1.symbol : pool.token0.symbol,
+      tokenInDecimals: config.state.tokenCache[tokenIn].decimals,
+      tokenOutDecimals: config.state.tokenCache[tokenOut].decimals,
+    };
+  });
+}
+
 function validateOpportunityAndSend(opportunity: ArbitrageOpportunity): void {
-  // Validate the opportunity object
-  if (
-    !opportunity ||
-    !opportunity.startToken ||
-    !opportunity.bestAmount ||
-    !opportunity.path ||
-    !opportunity.expectedProfit ||
-    !opportunity.profitPercent ||
-    !opportunity.netProfit ||
-    !opportunity.testAmounts ||
-    !opportunity.testResults ||
-    opportunity.bestAmount < config.TX_MIN_BEST_AMOUNT
-  ) {
-    console.error("Invalid opportunity object:", opportunity);
+  // Same checks as sendArbitrage, so nothing is sent that it would reject
+  const problems = getOpportunityProblems(opportunity);
+  if (problems.length > 0) {
+    debugLog(
+      `Opportunity ${opportunity.cycleId} not sent: ${problems.join(", ")}`
+    );
+    return;
+  }
+
+  // FlashSwap borrows and swaps on the primary DEX only
+  if (opportunity.path.some((step) => step.dex !== PRIMARY_DEX_ID)) {
+    debugLog(
+      `Opportunity path trades on ${opportunity.path
+        .map((step) => step.dex)
+        .join(
+          " -> "
+        )}, FlashSwap only executes on ${PRIMARY_DEX_ID}, skipping...`
+    );
+    return;
+  }
+
+  // FlashSwap swaps with the plain router functions, which revert on transfer taxes
+  const unsafeStep = opportunity.path.find((step) => {
+    const status = getTokenSafety(step.tokenOut)?.status;
+    return status !== undefined && status !== "safe";
+  });
+  if (unsafeStep) {
+    debugLog(
+      `Opportunity path contains ${unsafeStep.tokenOutSymbol} (${
+        getTokenSafety(unsafeStep.tokenOut)?.status
+      }), skipping...`
+    );
     return;
   }
 
-  // The token path can't include the chain base token
+  // The token path can't include the chain base token (pool tokens are lowercase)
+  const wbnb = config.BASE_TOKEN.toLowerCase();
   const isBaseTokenInPath = opportunity.path.some(
     (step) =>
-      step.tokenIn === config.PRIORITY_TOKENS_MUTABLE.WBNB ||
-      step.tokenOut === config.PRIORITY_TOKENS_MUTABLE.WBNB
+      step.tokenIn.toLowerCase() === wbnb ||
+      step.tokenOut.toLowerCase() === wbnb
   );
   if (isBaseTokenInPath) {
     console.error(
-      "Opportunity path contains the base token (WBNB), skipping..."
+      `Opportunity path contains the base token (${config.CHAIN.baseToken.symbol}), skipping...`
     );
     return;
   }
@@ -1,40 +1,172 @@
-import {ethers} from "hardhat";
+import {ethers, network} from "hardhat";
 import {Queue} from "bullmq";
-import {InputsArgs, TokenInfo} from "./types";
+import {RpcProviderManager} from "./provider-manager";
+import {ChainProfile, getChainProfile, getPrimaryDexInfo} from "../chain-profiles";
+import {loadSettings, ResolvedSettings} from "./settings";
+import {ArbitrageCycle, TokenInfo, TokenPrice, TokenSafety} from "./types";
 
-export const DEBUG = true;
-export const DEBUG_LEVEL = 1; // 0: no debug, 1: basic debug, 2: detailed debug
-export const DEBUG_TO_FILE = true;
-export const DEBUG_DISABLE_PRIORITY = false;
-export const DEBUG_DISABLE_RANDOM_POOLS = false;
-export const DEBUG_DELETE_LOG_FILE = false;
+// Arguments of the hardhat CLI (e.g. `hardhat test`) aren't scanner flags; scripts it runs
+// get their own process
+const isHardhatCli = /hardhat[\\/]internal[\\/]cli/.test(require.main?.filename ?? "");
+
+// Settings layered from defaults, a YAML file, env vars and CLI flags (see settings.ts)
+function resolveSettings(): ResolvedSettings {
+  try {
+    return loadSettings(isHardhatCli ? [] : process.argv.slice(2), process.env);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+export const RESOLVED_SETTINGS = resolveSettings();
+const SETTINGS = RESOLVED_SETTINGS.settings;
+
+// DEXes, tokens and contract addresses of the connected chain
+function resolveChain(): ChainProfile {
+  if (!network.config.chainId) {
+    throw new Error(`Set a chainId for network ${network.name} in hardhat.config.ts`);
+  }
+  return getChainProfile(network.config.chainId);
+}
+export const CHAIN = resolveChain();
+export const BASE_TOKEN = CHAIN.baseToken.address; // Wrapped native token, borrowed by FlashSwap and used to price gas
+
+export const DEBUG = SETTINGS.DEBUG;
+export const DEBUG_LEVEL = SETTINGS.DEBUG_LEVEL; // 0: no debug, 1: basic debug, 2: detailed debug
+export const DEBUG_TO_FILE = SETTINGS.DEBUG_TO_FILE;
+export const DEBUG_DISABLE_PRIORITY = SETTINGS.DEBUG_DISABLE_PRIORITY;
+export const DEBUG_DISABLE_RANDOM_POOLS = SETTINGS.DEBUG_DISABLE_RANDOM_POOLS;
+export const DEBUG_DELETE_LOG_FILE = SETTINGS.DEBUG_DELETE_LOG_FILE;
 
 // Constants
-export const TEST_AMOUNTS = [1, 100, 1000, 10000];
-export const TX_MIN_BEST_AMOUNT = 250;
-export const PANCAKE_FACTORY = "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73";
-export const GAS_PRICE = 6; // Gwei
-export const MAX_PROFIT_HISTORY_ITEMS = 100;
+export const PROFIT_CURVE_FACTORS = SETTINGS.PROFIT_CURVE_FACTORS; // Multiples of the optimal amount
+export const OPTIMIZER_MAX_ITERATIONS = SETTINGS.OPTIMIZER_MAX_ITERATIONS;
+export const TX_MIN_BEST_AMOUNT = SETTINGS.TX_MIN_BEST_AMOUNT;
+export const OPPORTUNITY_TTL_BLOCKS = SETTINGS.OPPORTUNITY_TTL_BLOCKS; // Jobs expire this many blocks after their reserve snapshot
+export const OPPORTUNITY_REPLACE_IMPROVEMENT = SETTINGS.OPPORTUNITY_REPLACE_IMPROVEMENT; // Profit gain (fraction) a repeated cycle needs to replace its queued job
+export const GAS_PRICE = SETTINGS.GAS_PRICE; // Gwei, used until the provider returns fee data
+export const MAX_PROFIT_HISTORY_ITEMS = SETTINGS.MAX_PROFIT_HISTORY_ITEMS;
+
+// Sizing of the borrow amount: the exact-math optimum under a risk cap
+export const SIZING_MAX_RESERVE_FRACTION = SETTINGS.SIZING_MAX_RESERVE_FRACTION; // Of the smallest input reserve of the path
+export const SIZING_MAX_BORROW_USD = SETTINGS.SIZING_MAX_BORROW_USD;
+export const SIZING_BACKOFF_FACTORS = SETTINGS.SIZING_BACKOFF_FACTORS; // Fractions of the optimum tried when the simulation rejects it
+export const SIZING_MAX_SIMULATIONS = SETTINGS.SIZING_MAX_SIMULATIONS; // Sizes simulated per opportunity
+
+// Slippage: each hop tolerates the reserve drift its pool's Sync volatility predicts
+export const SLIPPAGE_INCLUSION_BLOCKS = SETTINGS.SLIPPAGE_INCLUSION_BLOCKS; // Blocks from detection to inclusion
+export const SLIPPAGE_DRIFT_SIGMAS = SETTINGS.SLIPPAGE_DRIFT_SIGMAS; // Standard deviations of drift tolerated
+export const SLIPPAGE_DEFAULT_DRIFT = SETTINGS.SLIPPAGE_DEFAULT_DRIFT; // Used until a pool has SLIPPAGE_MIN_SAMPLES Syncs
+export const SLIPPAGE_MIN_SAMPLES = SETTINGS.SLIPPAGE_MIN_SAMPLES;
+
+// DEXes to load pools from (ids of the DEX registry), every DEX of the chain by default
+export const ENABLED_DEXES =
+  SETTINGS.ENABLED_DEXES.length > 0
+    ? SETTINGS.ENABLED_DEXES
+    : CHAIN.dexes.map((dex) => dex.id);
+
+// Swap fees come from the DEX registry, then from router quotes when probing is enabled
+export const FEE_PROBE_ENABLED = SETTINGS.FEE_PROBE_ENABLED;
+export const FEE_PROBE_FRACTION = SETTINGS.FEE_PROBE_FRACTION; // Probe with reserve0 / FEE_PROBE_FRACTION
+
+// Token safety (honeypot / transfer tax) round trips
+export const TOKEN_SAFETY_ENABLED = SETTINGS.TOKEN_SAFETY_ENABLED;
+export const TOKEN_SAFETY_MODE = SETTINGS.TOKEN_SAFETY_MODE; // "stateOverride" or "hardhat"; by network if empty
+export const TOKEN_SAFETY_TTL = SETTINGS.TOKEN_SAFETY_TTL; // Results are re-checked after a day
+export const TOKEN_PROBE_AMOUNT_BNB = SETTINGS.TOKEN_PROBE_AMOUNT_BNB; // BNB spent on each probe buy
+export const TOKEN_PROBE_CONCURRENCY = SETTINGS.TOKEN_PROBE_CONCURRENCY; // Parallel eth_calls
+export const TOKEN_TAX_TOLERANCE_BPS = SETTINGS.TOKEN_TAX_TOLERANCE_BPS; // Rounding allowed before a token counts as taxed
+export const TOKEN_PROBE_ADDRESS = "0x00000000000000000000000000000000000070be"; // Unused address the probe code is placed at
+
+// Gas model
+export const DEFAULT_GAS_USED = SETTINGS.DEFAULT_GAS_USED; // Used when neither estimateGas nor receipts are available
+export const GAS_PRICE_TTL = SETTINGS.GAS_PRICE_TTL; // Cache of the provider fee data (ms)
+export const GAS_CALIBRATION_INTERVAL = SETTINGS.GAS_CALIBRATION_INTERVAL; // Receipt calibration refresh (ms)
+export const GAS_HISTORY_BLOCKS = SETTINGS.GAS_HISTORY_BLOCKS; // How far back to look for FlashSwap executions
+export const GAS_HISTORY_BLOCK_RANGE = SETTINGS.GAS_HISTORY_BLOCK_RANGE; // Blocks per eth_getLogs request
+export const GAS_HISTORY_RECEIPTS = SETTINGS.GAS_HISTORY_RECEIPTS; // Receipts used for the median
+export const FLASHSWAP_ADDRESS = SETTINGS.FLASHSWAP_ADDRESS; // Defaults to the latest deployment
+export const FLASHSWAP_OWNER = SETTINGS.FLASHSWAP_OWNER; // Contract owner, needed for estimateGas and the simulation
+
+// Simulate FlashSwap.start from FLASHSWAP_OWNER before queueing a job; jobs that would revert are dropped
+export const SIMULATION_ENABLED = SETTINGS.SIMULATION_ENABLED;
+
+// RPC endpoints besides the Hardhat network's url (comma separated), with failover
+export const RPC_URLS = SETTINGS.RPC_URLS;
+export const RPC_RATE_LIMIT = SETTINGS.RPC_RATE_LIMIT; // Requests per second per endpoint (public BSC seed nodes throttle around 10)
+export const RPC_TIMEOUT = SETTINGS.RPC_TIMEOUT; // ms per request
+export const RPC_MAX_ATTEMPTS = SETTINGS.RPC_MAX_ATTEMPTS; // Endpoints tried per request
+export const RPC_BACKOFF_BASE = SETTINGS.RPC_BACKOFF_BASE; // First backoff of a failing endpoint (ms)
+export const RPC_BACKOFF_MAX = SETTINGS.RPC_BACKOFF_MAX;
+export const RPC_BATCH_MAX_COUNT = SETTINGS.RPC_BATCH_MAX_COUNT; // JSON-RPC requests per HTTP request
+export const INITIAL_LOAD_MAX_ATTEMPTS = SETTINGS.INITIAL_LOAD_MAX_ATTEMPTS;
+
+// Persistent store of tokens, pair addresses and pools under data/store, for warm restarts
+export const STORE_ENABLED = SETTINGS.STORE_ENABLED;
+export const STORE_FLUSH_INTERVAL = SETTINGS.STORE_FLUSH_INTERVAL; // Pending records are appended at most this often (ms)
+export const STORE_COMPACT_MIN_LINES = SETTINGS.STORE_COMPACT_MIN_LINES; // Files are compacted on load past this size
+
+// Factory indexer: backfills every pair of the enabled DEXes (keeping those with a priority token), then follows PairCreated
+export const INDEXER_ENABLED = SETTINGS.INDEXER_ENABLED;
+export const INDEXER_BACKFILL_BATCH = SETTINGS.INDEXER_BACKFILL_BATCH; // Pair indices per backfill run (3 calls each)
+export const INDEXER_BACKFILL_INTERVAL = SETTINGS.INDEXER_BACKFILL_INTERVAL; // Between backfill runs, a low priority scheduler job (ms)
+export const INDEXER_BACKFILL_LOG_RANGES = SETTINGS.INDEXER_BACKFILL_LOG_RANGES; // INDEXER_MAX_BLOCK_RANGE ranges of PairCreated logs per backfill run
+export const INDEXER_POLL_INTERVAL = SETTINGS.INDEXER_POLL_INTERVAL; // PairCreated polling (ms)
+export const INDEXER_MAX_BLOCK_RANGE = SETTINGS.INDEXER_MAX_BLOCK_RANGE; // Blocks per eth_getLogs request
+
+// Cycle search parameters
+export const MIN_CYCLE_HOPS = SETTINGS.MIN_CYCLE_HOPS;
+export const MAX_CYCLE_HOPS = SETTINGS.MAX_CYCLE_HOPS; // Longer cycles grow the search space quickly
+export const MAX_SNAPSHOT_BLOCK_SPREAD = SETTINGS.MAX_SNAPSHOT_BLOCK_SPREAD; // Max blocks between the reserve snapshots of a cycle's pools
+
+// Scheduler (ms)
+export const SCHEDULER_JOB_TIMEOUT = SETTINGS.SCHEDULER_JOB_TIMEOUT; // Runs are cancelled past this
+export const SCHEDULER_AGING = SETTINGS.SCHEDULER_AGING; // Waiting this long raises a due job by one priority level
+export const SCHEDULER_METRICS_INTERVAL = SETTINGS.SCHEDULER_METRICS_INTERVAL;
+export const SHUTDOWN_TIMEOUT = SETTINGS.SHUTDOWN_TIMEOUT; // Exit anyway if the running job doesn't settle
 
 // Timing parameters (ms)
-export const BATCH_SHORT_DELAY = 1000 * 10;
-export const FULL_REFRESH_INTERVAL = 1000 * 60 * 5;
-export const PRIORITY_REFRESH_INTERVAL = 1000 * 30;
-export const RESET_INTERVAL = 1000 * 60 * 15;
-
-// Random pool selection parameters
-export const POOLS_TO_SAMPLE = 100; // Number of random pools to sample
-export const POOLS_NEWLY_ADDED = 50;
-export const RANDOM_START = 0; // Minimum pool index to consider
-export let RANDOM_END = 10000; // Maximum pool index to consider (adjustable)
-export const BATCH_SIZE = 20;
-export const PRIORITY_BATCH_SIZE = 5;
+export const FULL_REFRESH_INTERVAL = SETTINGS.FULL_REFRESH_INTERVAL;
+export const PRIORITY_REFRESH_INTERVAL = SETTINGS.PRIORITY_REFRESH_INTERVAL;
+export const RESET_INTERVAL = SETTINGS.RESET_INTERVAL;
+
+// Sync event following (replaces the priority polling when enabled)
+export const SYNC_EVENTS_ENABLED = SETTINGS.SYNC_EVENTS_ENABLED;
+export const SYNC_WS_URL = SETTINGS.SYNC_WS_URL; // e.g. ws://127.0.0.1:8545 for a local Hardhat node
+export const SYNC_POLL_INTERVAL = SETTINGS.SYNC_POLL_INTERVAL; // Used when no websocket URL is set
+export const SYNC_MAX_BLOCK_RANGE = SETTINGS.SYNC_MAX_BLOCK_RANGE; // Blocks per eth_getLogs request
+export const SYNC_ADDRESS_CHUNK = SETTINGS.SYNC_ADDRESS_CHUNK; // Pool addresses per eth_getLogs request
+
+// Pool selection: pairs of the indexed universe ranked by liquidity, activity and
+// connectivity to the priority tokens, replaced gradually
+export const POOL_SELECTION_BUDGET = SETTINGS.POOL_SELECTION_BUDGET; // Selected pools, besides the priority pairs
+export const POOL_SELECTION_INTERVAL = SETTINGS.POOL_SELECTION_INTERVAL; // Selection rounds (ms)
+export const POOL_REPLACE_FRACTION = SETTINGS.POOL_REPLACE_FRACTION; // Share of the budget replaced per round at most
+export const POOL_REPLACE_MARGIN = SETTINGS.POOL_REPLACE_MARGIN; // Score a candidate must beat a selected pool by
+export const POOL_SCAN_BATCH = SETTINGS.POOL_SCAN_BATCH; // Universe pairs whose reserves are read per round
+export const POOL_CANDIDATE_LIMIT = SETTINGS.POOL_CANDIDATE_LIMIT; // Best scanned pairs kept for the ranking
+export const POOL_SCORE_WEIGHTS = SETTINGS.POOL_SCORE_WEIGHTS;
+export const POOL_ACTIVITY_WINDOW = SETTINGS.POOL_ACTIVITY_WINDOW; // Seconds since the last reserve update that still score recency
+export const POOL_ACTIVITY_FULL_SYNCS = SETTINGS.POOL_ACTIVITY_FULL_SYNCS; // Decayed Sync count scoring full activity
+export const POOL_CONNECTIVITY_FULL = SETTINGS.POOL_CONNECTIVITY_FULL; // Other liquid pools of a token scoring full connectivity
+export const POOL_PROFIT_BONUS = SETTINGS.POOL_PROFIT_BONUS; // Pools of an opportunity found within RESET_INTERVAL
+
+// Random pool selection parameters (used until the factory indexer has pairs)
+export const POOLS_TO_SAMPLE = SETTINGS.POOLS_TO_SAMPLE; // Number of random pools to sample
+export const POOLS_NEWLY_ADDED = SETTINGS.POOLS_NEWLY_ADDED;
+export const RANDOM_START = SETTINGS.RANDOM_START; // Minimum pool index to consider
+export let RANDOM_END = SETTINGS.RANDOM_END; // Maximum pool index to consider (adjustable)
+
+export const MULTICALL3_ADDRESS = CHAIN.multicall3;
+export const MULTICALL_CHUNK_SIZE = SETTINGS.MULTICALL_CHUNK_SIZE; // Calls per aggregate3 request (4 calls per pool)
 
 // Profit thresholds
-export const MIN_PROFIT_THRESHOLD = 0.01;
-export const MIN_LIQUIDITY_USD = 50000;
+export const MIN_PROFIT_THRESHOLD = SETTINGS.MIN_PROFIT_THRESHOLD;
+export const MIN_LIQUIDITY_USD = SETTINGS.MIN_LIQUIDITY_USD;
 
-export const INPUT_ARGS: InputsArgs = {};
+// USD pricing from the pool graph
+export const PRICE_MIN_DEPTH_USD = SETTINGS.PRICE_MIN_DEPTH_USD; // Pools shallower than this on the priced side aren't used for pricing
+export const PRICE_FULL_CONFIDENCE_DEPTH_USD = SETTINGS.PRICE_FULL_CONFIDENCE_DEPTH_USD; // Priced-side depth that gives a hop full confidence
 
 export const UNKNOW_TOKEN_SYMBOL = "UNKNOW_SYMBOL";
 export const UNKNOW_TOKEN_NAME = "UNKNOW_NAME";
@@ -45,6 +177,7 @@ export const FACTORY_ABI = [
   "function allPairsLength() external view returns (uint256)",
   "function allPairs(uint256) external view returns (address)",
   "function getPair(address, address) external view returns (address)",
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint256 allPairsLength)",
 ];
 
 export const PAIR_ABI = [
@@ -54,56 +187,72 @@ export const PAIR_ABI = [
   "function totalSupply() external view returns (uint256)",
 ];
 
+export const ROUTER_ABI = [
+  "function getAmountsOut(uint amountIn, address[] memory path) external view returns (uint[] memory amounts)",
+];
+
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
 export const ERC20_ABI = [
   "function name() external view returns (string)",
   "function symbol() external view returns (string)",
   "function decimals() external view returns (uint8)",
 ];
 
-// Priority tokens to focus on
-export const PRIORITY_TOKENS_MUTABLE = {
-  WBNB: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c", // we can't use WBNB as a token in the pool, since we need to borrow amount from it
-  BUSD: "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56",
-  USDT: "0x55d398326f99059fF775485246999027B3197955",
-  CAKE: "0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82",
-  ETH: "0x2170Ed0880ac9A755fd29B2688956BD959F933F8",
-  BTCB: "0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c",
-
-  // Additional high-liquidity tokens
-  USDC: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",    // USD Coin
-  DAI: "0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3",     // Dai Stablecoin
-  //DOT: "0x7083609fCE4d1d8Dc0C979AAb8c869Ea2C873402",   // Binance-Peg Polkadot
-  //ADA: "0x3EE2200Efb3400fAbB9AacF31297cBdD1d435D47",   // Binance-Peg Cardano
-  DOGE: "0xbA2aE424d960c26247Dd6c32edC70B295c744C43",    // Binance-Peg Dogecoin
-  //XRP: "0x1D2F0da169ceB9fC7B3144628dB156f3F6c60dBE",   // Binance-Peg XRP
-  //MATIC: "0xCC42724C6683B7E57334c4E856f4c9965ED682bD", // Binance-Peg Polygon
-  //LINK: "0xF8A0BF9cF54Bb92F17374d9e9A321E6a111a51bD",  // Binance-Peg ChainLink
-
-  //BABY: "0x53E562b9B7E5E94b81f10e96Ee70Ad06df3D2657",  // BabySwap Token
-  //BSW: "0x965F527D9159dCe6288a2219DB51fc6Eef120dD1",   // Biswap Token
+// Priority tokens to focus on, the chain profile's unless set; the base token is always one
+export const PRIORITY_TOKENS_MUTABLE: {[symbol: string]: string} = {
+  [CHAIN.baseToken.symbol]: BASE_TOKEN,
+  ...(Object.keys(SETTINGS.PRIORITY_TOKENS).length > 0
+    ? SETTINGS.PRIORITY_TOKENS
+    : CHAIN.priorityTokens),
 };
 
 // Stablecoins for liquidity calculation
-export const STABLECOINS = [
-  PRIORITY_TOKENS_MUTABLE.BUSD.toLowerCase(),
-  PRIORITY_TOKENS_MUTABLE.USDT.toLowerCase(),
-  PRIORITY_TOKENS_MUTABLE.USDC.toLowerCase(),
-  PRIORITY_TOKENS_MUTABLE.DAI.toLowerCase(),
-];
+export const STABLECOINS = (
+  SETTINGS.STABLECOINS.length > 0 ? SETTINGS.STABLECOINS : CHAIN.stablecoins
+).map((address) => address.toLowerCase());
 
 export const STABLECOIN_SET = new Set(STABLECOINS);
-// Provider setup
-export const provider = ethers.provider;
+// Provider setup: the in-process Hardhat network is used as is, remote networks go
+// through the provider manager
+function createProvider() {
+  if (!("url" in network.config)) return ethers.provider;
+  return new RpcProviderManager({
+    urls: [network.config.url, ...RPC_URLS],
+    chainId: CHAIN.chainId,
+    rateLimit: RPC_RATE_LIMIT,
+    timeout: RPC_TIMEOUT,
+    maxAttempts: RPC_MAX_ATTEMPTS,
+    backoffBase: RPC_BACKOFF_BASE,
+    backoffMax: RPC_BACKOFF_MAX,
+    batchMaxCount: RPC_BATCH_MAX_COUNT,
+  });
+}
+export const provider = createProvider();
+
+// The profile comes from the network's configured chainId; stop if the node serves another chain
+export async function checkConnectedChain() {
+  const {chainId} = await provider.getNetwork();
+  if (Number(chainId) !== CHAIN.chainId) {
+    throw new Error(`Network ${network.name} is configured for chain ${CHAIN.chainId} (${CHAIN.name}) but the node serves chain ${chainId}`);
+  }
+}
 export const factory = new ethers.Contract(
-  PANCAKE_FACTORY,
+  getPrimaryDexInfo(CHAIN).factory,
   FACTORY_ABI,
   provider
 );
 
-export const arbitrageQueue = new Queue("flash-queue", {
+// Arbitrage jobs, consumed by the executor worker (scripts/executor)
+export const QUEUE_NAME = SETTINGS.QUEUE_NAME;
+export const REDIS_HOST = SETTINGS.REDIS_HOST;
+export const REDIS_PORT = SETTINGS.REDIS_PORT;
+export const arbitrageQueue = new Queue(QUEUE_NAME, {
   connection: {
-    host: "localhost",
-    port: 6379,
+    host: REDIS_HOST,
+    port: REDIS_PORT,
   },
 });
 
@@ -123,6 +272,16 @@ export const state = {
 
   // Track which tokens are in which pools for quick lookup
   tokenPools: new Map<string, Set<string>>(),
+
+  // Cycle index: all known cycles and the cycles each pool participates in
+  cycles: new Map<string, ArbitrageCycle>(),
+  poolCycles: new Map<string, Set<string>>(),
+
+  // USD prices derived from the pool graph
+  tokenPrices: new Map<string, TokenPrice>(),
+
+  // Token safety results, cached on disk
+  tokenSafety: new Map<string, TokenSafety>(),
 };
 
 // Update functions for mutable state
@@ -0,0 +1,116 @@
+import * as config from "./config";
+import {ArbitrageCycle} from "./types";
+import {enumerateCycles, enumerateCyclesThrough} from "./cycles";
+import {debugLog} from "./utils-log";
+
+// Pools added since the last index update; their cycles are indexed lazily
+const pendingPools = new Set<string>();
+// Start tokens the index was built for; null until the first full build
+let indexedStartTokens: string | null = null;
+
+// Start tokens of every indexed cycle
+function getStartTokens(): string[] {
+  return Object.values(config.PRIORITY_TOKENS_MUTABLE).map((address) =>
+    address.toLowerCase()
+  );
+}
+
+// Mark a newly added pool so its cycles are indexed before the next lookup
+export function addPoolToCycleIndex(poolAddress: string) {
+  pendingPools.add(poolAddress);
+}
+
+// Remove a pool and every cycle through it from the index
+export function removePoolFromCycleIndex(poolAddress: string) {
+  pendingPools.delete(poolAddress);
+
+  const cycleIds = config.state.poolCycles.get(poolAddress);
+  if (!cycleIds) return;
+
+  for (const cycleId of cycleIds) {
+    const cycle = config.state.cycles.get(cycleId);
+    if (!cycle) continue;
+    for (const otherPool of cycle.poolAddresses) {
+      const otherCycleIds = config.state.poolCycles.get(otherPool);
+      if (otherPool === poolAddress || !otherCycleIds) continue;
+      otherCycleIds.delete(cycleId);
+      if (otherCycleIds.size === 0) config.state.poolCycles.delete(otherPool);
+    }
+    config.state.cycles.delete(cycleId);
+  }
+  config.state.poolCycles.delete(poolAddress);
+}
+
+export function clearCycleIndex() {
+  pendingPools.clear();
+  indexedStartTokens = null;
+  config.state.cycles.clear();
+  config.state.poolCycles.clear();
+}
+
+/**
+ * Index the cycles through the pending pools, walking only their neighbourhood.
+ * The whole graph is walked again when the start tokens (PRIORITY_TOKENS_MUTABLE)
+ * changed since the last build.
+ */
+export function updateCycleIndex() {
+  const startTokens = getStartTokens();
+  const startTokensKey = [...startTokens].sort().join(",");
+  const rebuild = startTokensKey !== indexedStartTokens;
+  if (!rebuild && pendingPools.size === 0) return;
+
+  const startTime = Date.now();
+  let newCycles: ArbitrageCycle[];
+  if (rebuild) {
+    config.state.cycles.clear();
+    config.state.poolCycles.clear();
+    newCycles = enumerateCycles(startTokens, config.MAX_CYCLE_HOPS);
+    indexedStartTokens = startTokensKey;
+  } else {
+    newCycles = enumerateCyclesThrough(
+      startTokens,
+      pendingPools,
+      config.MAX_CYCLE_HOPS
+    );
+  }
+  pendingPools.clear();
+
+  for (const cycle of newCycles) {
+    if (config.state.cycles.has(cycle.id)) continue;
+    config.state.cycles.set(cycle.id, cycle);
+    for (const poolAddress of cycle.poolAddresses) {
+      if (!config.state.poolCycles.has(poolAddress)) {
+        config.state.poolCycles.set(poolAddress, new Set());
+      }
+      config.state.poolCycles.get(poolAddress)!.add(cycle.id);
+    }
+  }
+
+  debugLog(
+    `Cycle index ${rebuild ? "rebuilt" : "updated"} in ${
+      Date.now() - startTime
+    } ms: ${config.state.cycles.size} cycles over ${
+      config.state.poolCycles.size
+    } pools`
+  );
+}
+
+/**
+ * Get the indexed cycles, brings the index up to date first
+ * @param poolAddresses When given, only cycles through these pools are returned
+ */
+export function getIndexedCycles(
+  poolAddresses?: Set<string>
+): ArbitrageCycle[] {
+  updateCycleIndex();
+
+  if (!poolAddresses) return Array.from(config.state.cycles.values());
+
+  const cycleIds = new Set<string>();
+  for (const poolAddress of poolAddresses) {
+    config.state.poolCycles.get(poolAddress)?.forEach((id) => cycleIds.add(id));
+  }
+  return Array.from(cycleIds)
+    .map((id) => config.state.cycles.get(id))
+    .filter((cycle): cycle is ArbitrageCycle => !!cycle);
+}
@@ -0,0 +1,272 @@
+import * as config from "./config";
+import {ArbitrageCycle, PoolData} from "./types";
+import {debugLog} from "./utils-log";
+import {getHopTaxFactor, isTokenUnsellable} from "./token-safety";
+
+// Get the token on the other side of a pool
+export function getOtherToken(pool: PoolData, token: string): string {
+  return pool.token0.address === token
+    ? pool.token1.address
+    : pool.token0.address;
+}
+
+// Low liquidity pools, and pools whose tokens can't be priced in USD, are not worth routing through
+export function isPoolLiquid(pool: PoolData): boolean {
+  return (
+    pool.liquidityUSD !== config.UNKNOW_LIQUIDITY_USD &&
+    Number(pool.liquidityUSD) >= config.MIN_LIQUIDITY_USD
+  );
+}
+
+/**
+ * Edge weight of a hop in the token graph: -log(marginal rate after the pool's swap fee).
+ * A cycle whose weights sum below zero returns more than it started with
+ * (before price impact and the flash loan fee).
+ */
+export function getHopWeight(pool: PoolData, tokenIn: string): number {
+  const isToken0In = pool.token0.address === tokenIn;
+  const tokenOut = isToken0In ? pool.token1.address : pool.token0.address;
+  const reserveIn = Number(
+    isToken0In ? pool.token0.reserve : pool.token1.reserve
+  );
+  const reserveOut = Number(
+    isToken0In ? pool.token1.reserve : pool.token0.reserve
+  );
+  if (!(reserveIn > 0) || !(reserveOut > 0)) return Infinity;
+
+  return -Math.log(
+    (reserveOut / reserveIn) *
+      (1 - pool.feeBps / 10000) *
+      getHopTaxFactor(tokenIn, tokenOut)
+  );
+}
+
+// Sum of the hop weights along a cycle, using the current in-memory reserves
+export function getCycleWeight(cycle: ArbitrageCycle): number {
+  let weight = 0;
+  for (let i = 0; i < cycle.poolAddresses.length; i++) {
+    const pool = config.state.poolsMap.get(cycle.poolAddresses[i]);
+    if (!pool) return Infinity;
+    weight += getHopWeight(pool, cycle.tokens[i]);
+  }
+  return weight;
+}
+
+// Blocks between the oldest and the newest reserve snapshot of a set of pools
+export function getSnapshotBlockSpread(pools: PoolData[]): number {
+  const blockNumbers = pools.map((pool) => pool.blockNumber);
+  return Math.max(...blockNumbers) - Math.min(...blockNumbers);
+}
+
+// Cycle id: start token followed by the pools in trade order (so each direction is distinct)
+export function getCycleId(
+  startToken: string,
+  poolAddresses: string[]
+): string {
+  return [startToken, ...poolAddresses].join("-");
+}
+
+// A cycle is worth evaluating when all its pools are liquid, all its tokens can be sold
+// and its weights (taxes included) sum below zero
+export function isNegativeCycle(cycle: ArbitrageCycle): boolean {
+  if (cycle.tokens.some(isTokenUnsellable)) return false;
+  for (const poolAddress of cycle.poolAddresses) {
+    const pool = config.state.poolsMap.get(poolAddress);
+    if (!pool || !isPoolLiquid(pool)) return false;
+  }
+  return getCycleWeight(cycle) < 0;
+}
+
+/**
+ * Enumerate all cycles of MIN_CYCLE_HOPS to maxHops pools that start and end at one of
+ * the start tokens. Each pool and each intermediate token is used at most once per cycle.
+ * Only the graph structure is used, so the result stays valid while reserves change.
+ */
+export function enumerateCycles(
+  startTokens: string[],
+  maxHops: number = config.MAX_CYCLE_HOPS
+): ArbitrageCycle[] {
+  const cycles: ArbitrageCycle[] = [];
+  let visitedPaths = 0;
+
+  for (const startToken of startTokens) {
+    const tokens: string[] = [startToken];
+    const poolAddresses: string[] = [];
+    const visitedTokens = new Set<string>([startToken]);
+
+    // Depth-first walk over the token graph, bounded by maxHops
+    const walk = (currentToken: string) => {
+      const pools = config.state.tokenPools.get(currentToken);
+      if (!pools) return;
+
+      for (const poolAddress of pools) {
+        if (poolAddresses.includes(poolAddress)) continue;
+
+        const pool: PoolData | undefined =
+          config.state.poolsMap.get(poolAddress);
+        if (!pool) continue;
+
+        const nextToken = getOtherToken(pool, currentToken);
+        visitedPaths++;
+
+        if (nextToken === startToken) {
+          const cyclePools = [...poolAddresses, poolAddress];
+          if (cyclePools.length >= config.MIN_CYCLE_HOPS) {
+            cycles.push({
+              id: getCycleId(startToken, cyclePools),
+              startToken,
+              tokens: [...tokens, startToken],
+              poolAddresses: cyclePools,
+            });
+          }
+          continue;
+        }
+
+        if (visitedTokens.has(nextToken) || poolAddresses.length + 1 >= maxHops)
+          continue;
+
+        tokens.push(nextToken);
+        poolAddresses.push(poolAddress);
+        visitedTokens.add(nextToken);
+        walk(nextToken);
+        visitedTokens.delete(nextToken);
+        poolAddresses.pop();
+        tokens.pop();
+      }
+    };
+
+    walk(startToken);
+  }
+
+  debugLog(
+    `Cycle enumeration visited ${visitedPaths} paths (max ${maxHops} hops), found ${cycles.length} cycles`,
+    2
+  );
+
+  return cycles;
+}
+
+// Simple path from a token to a start token: tokens from the first to the start token,
+// and the pool of each hop
+interface CycleArm {
+  tokens: string[];
+  poolAddresses: string[];
+}
+
+// Every simple path of at most maxHops pools from a token to a start token, not using
+// the excluded pool. A token that is a start token itself is a path of no hops.
+function findCycleArms(
+  fromToken: string,
+  startTokens: Set<string>,
+  maxHops: number,
+  excludedPool: string
+): CycleArm[] {
+  const arms: CycleArm[] = [];
+  const tokens: string[] = [fromToken];
+  const poolAddresses: string[] = [];
+
+  const walk = (currentToken: string) => {
+    if (startTokens.has(currentToken)) {
+      arms.push({tokens: [...tokens], poolAddresses: [...poolAddresses]});
+    }
+    if (poolAddresses.length >= maxHops) return;
+
+    for (const poolAddress of config.state.tokenPools.get(currentToken) ?? []) {
+      if (poolAddress === excludedPool || poolAddresses.includes(poolAddress))
+        continue;
+      const pool = config.state.poolsMap.get(poolAddress);
+      if (!pool) continue;
+      const nextToken = getOtherToken(pool, currentToken);
+      if (tokens.includes(nextToken)) continue;
+
+      tokens.push(nextToken);
+      poolAddresses.push(poolAddress);
+      walk(nextToken);
+      poolAddresses.pop();
+      tokens.pop();
+    }
+  };
+
+  walk(fromToken);
+  return arms;
+}
+
+/**
+ * Enumerate the cycles (as enumerateCycles) through at least one of the given pools.
+ * Only the neighbourhood of each pool is walked: a cycle through a pool is a path from
+ * a start token to one side of the pool, the pool, and a path from its other side back
+ * to the start token. A cycle through several of the pools is returned once.
+ */
+export function enumerateCyclesThrough(
+  startTokens: string[],
+  poolAddresses: Iterable<string>,
+  maxHops: number = config.MAX_CYCLE_HOPS
+): ArbitrageCycle[] {
+  const startTokenSet = new Set(startTokens);
+  const cycles = new Map<string, ArbitrageCycle>();
+
+  for (const poolAddress of poolAddresses) {
+    const pool = config.state.poolsMap.get(poolAddress);
+    if (!pool) continue;
+
+    // Paths from each side of the pool, grouped by the start token they reach
+    const armsBySide = [pool.token0.address, pool.token1.address].map(
+      (token) => {
+        const arms = new Map<string, CycleArm[]>();
+        for (const arm of findCycleArms(
+          token,
+          startTokenSet,
+          maxHops - 1,
+          poolAddress
+        )) {
+          const startToken = arm.tokens[arm.tokens.length - 1];
+          if (!arms.has(startToken)) arms.set(startToken, []);
+          arms.get(startToken)!.push(arm);
+        }
+        return arms;
+      }
+    );
+
+    // Both directions through the pool
+    for (const [inSide, outSide] of [
+      [0, 1],
+      [1, 0],
+    ]) {
+      for (const [startToken, inArms] of armsBySide[inSide]) {
+        for (const inArm of inArms) {
+          for (const outArm of armsBySide[outSide].get(startToken) ?? []) {
+            const hops =
+              inArm.poolAddresses.length + 1 + outArm.poolAddresses.length;
+            if (hops < config.MIN_CYCLE_HOPS || hops > maxHops) continue;
+            // The arms share the start token only
+            const inTokens = new Set(inArm.tokens.slice(0, -1));
+            if (outArm.tokens.slice(0, -1).some((t) => inTokens.has(t))) {
+              continue;
+            }
+            if (
+              outArm.poolAddresses.some((p) => inArm.poolAddresses.includes(p))
+            ) {
+              continue;
+            }
+
+            const cyclePools = [
+              ...[...inArm.poolAddresses].reverse(),
+              poolAddress,
+              ...outArm.poolAddresses,
+            ];
+            const id = getCycleId(startToken, cyclePools);
+            if (cycles.has(id)) continue;
+            cycles.set(id, {
+              id,
+              startToken,
+              tokens: [...[...inArm.tokens].reverse(), ...outArm.tokens],
+              poolAddresses: cyclePools,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return Array.from(cycles.values());
+}
@@ -0,0 +1,57 @@
+import {ethers} from "hardhat";
+import * as config from "./config";
+import {DexInfo} from "./types";
+
+// Uniswap V2 forks of the connected chain, from its chain profile
+export const DEXES: DexInfo[] = config.CHAIN.dexes;
+
+// The DEX FlashSwap borrows and trades on; its factory is the one sampled by index
+export const PRIMARY_DEX_ID = config.CHAIN.primaryDex;
+
+export function getDex(id: string): DexInfo {
+  const dex = DEXES.find((dex) => dex.id === id);
+  if (!dex) throw new Error(`Unknown DEX: ${id}`);
+  return dex;
+}
+
+export function getPrimaryDex(): DexInfo {
+  return getDex(PRIMARY_DEX_ID);
+}
+
+// DEXes the scanner loads pools from
+export function getEnabledDexes(): DexInfo[] {
+  return DEXES.filter((dex) => config.ENABLED_DEXES.includes(dex.id));
+}
+
+// CREATE2 address of a pair, as computed by the DEX's factory
+export function computePairAddress(
+  dex: DexInfo,
+  tokenA: string,
+  tokenB: string
+): string {
+  const [token0, token1] =
+    tokenA.toLowerCase() < tokenB.toLowerCase()
+      ? [tokenA, tokenB]
+      : [tokenB, tokenA];
+  const salt = ethers.solidityPackedKeccak256(
+    ["address", "address"],
+    [token0, token1]
+  );
+  return ethers
+    .getCreate2Address(dex.factory, salt, dex.initCodeHash)
+    .toLowerCase();
+}
+
+// Find the enabled DEX that deployed a pair, from its address and tokens
+export function identifyPairDex(
+  pairAddress: string,
+  token0: string,
+  token1: string
+): DexInfo | null {
+  return (
+    getEnabledDexes().find(
+      (dex) =>
+        computePairAddress(dex, token0, token1) === pairAddress.toLowerCase()
+    ) ?? null
+  );
+}
@@ -0,0 +1,373 @@
+import {Interface, Log} from "ethers";
+import * as config from "./config";
+import {DexInfo, PoolRef, StoredPair} from "./types";
+import {getEnabledDexes, PRIMARY_DEX_ID} from "./dex-registry";
+import {multicall} from "./utils-multicall";
+import {
+  getStoredBackfill,
+  getStoredPair,
+  getStoredPairs,
+  recordBackfill,
+  recordPair,
+} from "./pool-store";
+import {debugLog} from "./utils-log";
+
+// Called with the pairs created since the last poll
+export type NewPairsHandler = (pairs: PoolRef[]) => Promise<void> | void;
+
+const factoryInterface = new Interface(config.FACTORY_ABI);
+const pairInterface = new Interface(config.PAIR_ABI);
+const PAIR_CREATED_TOPIC = factoryInterface.getEvent("PairCreated")!.topicHash;
+
+// Backfill of a DEX: the pairs created before the indexer started, from allPairs, then
+// their creation blocks from the PairCreated logs up to the block the indexer started at
+interface Backfill {
+  dex: DexInfo;
+  next: number; // Next factory index to read
+  count: number; // allPairsLength when the indexer started
+  logBlock: number; // Next block to read PairCreated logs from
+  startBlock: number; // Block the indexer started at, later logs are followed by polling
+}
+
+// allPairsLength of each DEX, as far as the indexer has seen
+const pairCounts = new Map<string, number>();
+const backfills: Backfill[] = [];
+// Indexed pairs of the enabled DEXes with a priority token, in the order they were indexed
+let universe: StoredPair[] = [];
+let universeKey: string | null = null;
+let universeTokens = new Set<string>();
+let lastIndexedBlock = 0;
+let polling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let onNewPairs: NewPairsHandler | null = null;
+
+// Pair counts only grow; events may have raised a count past the one read at startup
+function setPairCount(dex: DexInfo, count: number) {
+  if (count <= (pairCounts.get(dex.id) ?? 0)) return;
+  pairCounts.set(dex.id, count);
+  if (dex.id === PRIMARY_DEX_ID) {
+    config.updateTotalPools(count);
+    config.updateRandomEnd(count - 1);
+  }
+}
+
+// Sorted priority tokens; the universe is kept for one set
+function getPriorityTokensKey(): string {
+  return Object.values(config.PRIORITY_TOKENS_MUTABLE)
+    .map((token) => token.toLowerCase())
+    .sort()
+    .join(",");
+}
+
+function isUniversePair(pair: StoredPair): boolean {
+  return (
+    universeTokens.has(pair.token0 ?? "") ||
+    universeTokens.has(pair.token1 ?? "")
+  );
+}
+
+// Add an indexed pair to the universe when it has a priority token
+function addToUniverse(pair: StoredPair) {
+  if (universeKey !== null && isUniversePair(pair)) universe.push(pair);
+}
+
+// Store the tokens of the next INDEXER_BACKFILL_BATCH pairs of a DEX, from allPairs
+async function backfillPairs(backfill: Backfill, signal: AbortSignal) {
+  const {dex} = backfill;
+  const start = backfill.next;
+  const end = Math.min(backfill.count, start + config.INDEXER_BACKFILL_BATCH);
+  const indices: number[] = [];
+  for (let index = start; index < end; index++) indices.push(index);
+
+  // Addresses first, then the tokens of each pair
+  const addresses = await multicall(
+    indices.map((index) => ({
+      target: dex.factory,
+      iface: factoryInterface,
+      method: "allPairs",
+      args: [index],
+    }))
+  );
+  // Every index below the count has a pair; the batch is retried on the next run
+  if (addresses.some((address) => !address)) {
+    throw new Error(`allPairs failed for ${dex.name} pairs ${start}-${end}`);
+  }
+  signal.throwIfAborted();
+  const found = indices.map((index, i) => ({
+    index,
+    address: (addresses[i]![0] as string).toLowerCase(),
+  }));
+  const tokens = await multicall(
+    found.flatMap((pair) =>
+      ["token0", "token1"].map((method) => ({
+        target: pair.address,
+        iface: pairInterface,
+        method,
+      }))
+    )
+  );
+  signal.throwIfAborted();
+
+  found.forEach((pair, i) => {
+    const [token0, token1] = tokens.slice(i * 2, i * 2 + 2);
+    if (!token0 || !token1) return;
+    const storedPair: StoredPair = {
+      dex: dex.id,
+      index: pair.index,
+      address: pair.address,
+      token0: (token0[0] as string).toLowerCase(),
+      token1: (token1[0] as string).toLowerCase(),
+      createdBlock: getStoredPair(dex.id, pair.index)?.createdBlock,
+    };
+    recordPair(storedPair);
+    addToUniverse(storedPair);
+  });
+
+  backfill.next = end;
+  debugLog(
+    `Indexer: ${dex.name} backfilled up to index ${end} of ${backfill.count}`,
+    2
+  );
+  if (end === backfill.count) {
+    console.log(
+      `Indexer: ${dex.name} pairs backfilled, reading their creation blocks`
+    );
+  }
+}
+
+// Set the creation block of the backfilled pairs from the PairCreated logs of the next
+// INDEXER_BACKFILL_LOG_RANGES block ranges; done once the last pair before the start is seen
+async function backfillCreatedBlocks(backfill: Backfill, signal: AbortSignal) {
+  const {dex} = backfill;
+  for (
+    let i = 0;
+    i < config.INDEXER_BACKFILL_LOG_RANGES &&
+    backfill.logBlock <= backfill.startBlock;
+    i++
+  ) {
+    const fromBlock = backfill.logBlock;
+    const toBlock = Math.min(
+      backfill.startBlock,
+      fromBlock + config.INDEXER_MAX_BLOCK_RANGE - 1
+    );
+    const logs = await config.provider.getLogs({
+      address: dex.factory,
+      topics: [PAIR_CREATED_TOPIC],
+      fromBlock,
+      toBlock,
+    });
+    signal.throwIfAborted();
+
+    let lastIndex = -1;
+    for (const log of logs) {
+      const parsed = factoryInterface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      if (!parsed) continue;
+      const index = Number(parsed.args.allPairsLength) - 1;
+      lastIndex = Math.max(lastIndex, index);
+      // The log has the tokens too, for pairs whose token calls failed
+      const stored = getStoredPair(dex.id, index);
+      if (stored?.token0 && stored.createdBlock !== undefined) continue;
+      const pair: StoredPair = {
+        dex: dex.id,
+        index,
+        address: (parsed.args.pair as string).toLowerCase(),
+        token0: (parsed.args.token0 as string).toLowerCase(),
+        token1: (parsed.args.token1 as string).toLowerCase(),
+        createdBlock: log.blockNumber,
+      };
+      recordPair(pair);
+      if (!stored?.token0) addToUniverse(pair);
+    }
+    backfill.logBlock =
+      lastIndex >= backfill.count - 1 ? backfill.startBlock + 1 : toBlock + 1;
+  }
+
+  debugLog(
+    `Indexer: ${dex.name} creation blocks read up to block ${
+      backfill.logBlock - 1
+    }`,
+    2
+  );
+  if (backfill.logBlock > backfill.startBlock) {
+    console.log(`Indexer: ${dex.name} backfill done`);
+  }
+}
+
+/**
+ * Backfill the next batch of pairs created before the indexer started, one DEX after
+ * the other: their tokens from allPairs (INDEXER_BACKFILL_BATCH indices per run), then
+ * their creation blocks from the PairCreated logs. Every pair is stored. Run as a low
+ * priority scheduler job, so scans keep the RPC budget; the progress is stored, so a
+ * restart resumes where it stopped.
+ */
+export async function backfillNextBatch(signal: AbortSignal) {
+  const backfill = backfills.find(
+    (backfill) =>
+      backfill.next < backfill.count || backfill.logBlock <= backfill.startBlock
+  );
+  if (!backfill) return;
+
+  if (backfill.next < backfill.count) {
+    await backfillPairs(backfill, signal);
+  } else {
+    await backfillCreatedBlocks(backfill, signal);
+  }
+  recordBackfill({
+    dex: backfill.dex.id,
+    next: backfill.next,
+    logBlock: backfill.logBlock,
+  });
+}
+
+// Store the pair of a PairCreated log, returns it when the factory is an enabled DEX
+function applyPairCreatedLog(log: Log, dexes: DexInfo[]): StoredPair | null {
+  const dex = dexes.find(
+    (dex) => dex.factory.toLowerCase() === log.address.toLowerCase()
+  );
+  const parsed = factoryInterface.parseLog({
+    topics: [...log.topics],
+    data: log.data,
+  });
+  if (!dex || !parsed) return null;
+
+  const pairCount = Number(parsed.args.allPairsLength);
+  const pair: StoredPair = {
+    dex: dex.id,
+    index: pairCount - 1,
+    address: (parsed.args.pair as string).toLowerCase(),
+    token0: (parsed.args.token0 as string).toLowerCase(),
+    token1: (parsed.args.token1 as string).toLowerCase(),
+    createdBlock: log.blockNumber,
+  };
+  recordPair(pair);
+  addToUniverse(pair);
+  setPairCount(dex, pairCount);
+  return pair;
+}
+
+// Fetch the PairCreated logs of every enabled factory from the last indexed block to the head
+async function pollPairCreated() {
+  if (polling) return;
+  polling = true;
+
+  try {
+    const dexes = getEnabledDexes();
+    const headBlock = await config.provider.getBlockNumber();
+
+    while (lastIndexedBlock < headBlock) {
+      const fromBlock = lastIndexedBlock + 1;
+      const toBlock = Math.min(
+        headBlock,
+        fromBlock + config.INDEXER_MAX_BLOCK_RANGE - 1
+      );
+      const logs = await config.provider.getLogs({
+        address: dexes.map((dex) => dex.factory),
+        topics: [PAIR_CREATED_TOPIC],
+        fromBlock,
+        toBlock,
+      });
+      lastIndexedBlock = toBlock;
+
+      const pairs = logs
+        .map((log) => applyPairCreatedLog(log, dexes))
+        .filter((pair): pair is StoredPair => pair !== null);
+      if (pairs.length > 0) {
+        console.log(
+          `Indexer: ${pairs.length} new pairs up to block ${toBlock}`
+        );
+        await onNewPairs?.(
+          pairs.map((pair) => ({
+            address: pair.address,
+            index: pair.index,
+            dex: pair.dex,
+          }))
+        );
+      }
+    }
+  } catch (error) {
+    // The range is retried on the next poll
+    console.error(`Error indexing PairCreated events: ${error}`);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Index every pair of the enabled DEXes: follow PairCreated from the current block, and
+ * set up the backfill of the pairs created before it (see backfillNextBatch).
+ * @param handler Called with the pairs created while the indexer runs
+ */
+export async function startFactoryIndexer(handler: NewPairsHandler) {
+  stopFactoryIndexer();
+  onNewPairs = handler;
+
+  // Pair counts are read at the block the event following starts from, so no pair is missed
+  const blockNumber = await config.provider.getBlockNumber();
+  const dexes = getEnabledDexes();
+  const results = await multicall(
+    dexes.map((dex) => ({
+      target: dex.factory,
+      iface: factoryInterface,
+      method: "allPairsLength",
+    })),
+    config.MULTICALL_CHUNK_SIZE,
+    blockNumber
+  );
+  lastIndexedBlock = blockNumber;
+  pollTimer = setInterval(pollPairCreated, config.INDEXER_POLL_INTERVAL);
+
+  backfills.length = 0;
+  for (const [i, dex] of dexes.entries()) {
+    if (!results[i]) {
+      console.error(`Indexer: could not read the pair count of ${dex.name}`);
+      continue;
+    }
+    const count = Number(results[i]![0]);
+    setPairCount(dex, count);
+    const stored = getStoredBackfill(dex.id);
+    backfills.push({
+      dex,
+      next: Math.min(stored?.next ?? 0, count),
+      count,
+      logBlock: stored?.logBlock ?? 0,
+      startBlock: blockNumber,
+    });
+  }
+
+  console.log(`Indexing factory pairs from block ${blockNumber}`);
+}
+
+export function stopFactoryIndexer() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  onNewPairs = null;
+}
+
+/**
+ * Indexed pairs of the enabled DEXes with a priority token, the universe of the pool
+ * selection. Built from the store on first use and when the priority tokens change,
+ * then kept up to date as pairs are indexed.
+ */
+export function getUniversePairs(): StoredPair[] {
+  const key = getPriorityTokensKey();
+  if (key !== universeKey) {
+    universeKey = key;
+    universeTokens = new Set(key.split(","));
+    universe = getEnabledDexes()
+      .flatMap((dex) => getStoredPairs(dex.id))
+      .filter(isUniversePair);
+  }
+  return universe;
+}
+
+// allPairsLength of a DEX as last seen by the indexer, undefined before it started
+export function getIndexedPairCount(
+  dexId: string = PRIMARY_DEX_ID
+): number | undefined {
+  return pairCounts.get(dexId);
+}
@@ -0,0 +1,209 @@
+import fs from "fs";
+import path from "path";
+import {Contract, Interface, Log} from "ethers";
+import * as config from "./config";
+import {getTokenPrice} from "./price-oracle";
+import {debugLog} from "./utils-log";
+
+// Subset of the FlashSwap ABI used for gas estimation and calibration
+const FLASHSWAP_ABI = [
+  "function start(address _token0, uint256 _borrow_amt, address _token1, address _token2, uint256 _deadlineMinutes, uint256[] _slippageValues, uint256[] _minAmountsOut)",
+  "event ArbitrageExecuted(address indexed tokenBorrowed, uint256 amountBorrowed, uint256 amountReturned, uint256 profit, bool success)",
+];
+const flashSwapInterface = new Interface(FLASHSWAP_ABI);
+const ARBITRAGE_EXECUTED_TOPIC =
+  flashSwapInterface.getEvent("ArbitrageExecuted")!.topicHash;
+
+export type GasUsedSource = "estimateGas" | "receipts" | "default";
+
+export interface GasEstimate {
+  gasUsed: bigint;
+  gasPrice: bigint; // wei
+  costBNB: number;
+  source: GasUsedSource;
+}
+
+let gasPrice = BigInt(config.GAS_PRICE) * 10n ** 9n;
+let gasPriceUpdated = 0;
+let calibratedGasUsed: bigint | null = null;
+let calibrationUpdated = 0;
+let flashSwap: Contract | null | undefined;
+
+/**
+ * Address of the FlashSwap contract: FLASHSWAP_ADDRESS, or the latest entry of
+ * deployments/flashswap-<chainId>.json written by scripts/deploy.ts
+ */
+export async function getFlashSwapContract(): Promise<Contract | null> {
+  if (flashSwap !== undefined) return flashSwap;
+
+  let address = config.FLASHSWAP_ADDRESS;
+  if (!address) {
+    const {chainId} = await config.provider.getNetwork();
+    const deploymentFile = path.join(
+      __dirname,
+      "../../deployments",
+      `flashswap-${Number(chainId)}.json`
+    );
+    if (fs.existsSync(deploymentFile)) {
+      const deployments = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+      const latest = Array.isArray(deployments)
+        ? deployments[deployments.length - 1]
+        : deployments;
+      address = latest?.contractAddress ?? "";
+    }
+  }
+
+  flashSwap = address
+    ? new Contract(address, FLASHSWAP_ABI, config.provider)
+    : null;
+  if (!flashSwap) {
+    console.log(
+      "FlashSwap address unknown, gas estimates use the default gas usage"
+    );
+  }
+  return flashSwap;
+}
+
+// Current gas price from the provider, cached for GAS_PRICE_TTL
+export async function refreshGasPrice(): Promise<bigint> {
+  if (Date.now() - gasPriceUpdated < config.GAS_PRICE_TTL) return gasPrice;
+
+  try {
+    const feeData = await config.provider.getFeeData();
+    const price = feeData.gasPrice ?? feeData.maxFeePerGas;
+    if (price && price > 0n) gasPrice = price;
+    gasPriceUpdated = Date.now();
+  } catch (error) {
+    console.error(
+      `Error reading fee data, keeping the last gas price: ${error}`
+    );
+  }
+  return gasPrice;
+}
+
+// Median gas used by recent FlashSwap transactions, read from their receipts
+export async function calibrateGasUsed(): Promise<bigint | null> {
+  if (Date.now() - calibrationUpdated < config.GAS_CALIBRATION_INTERVAL) {
+    return calibratedGasUsed;
+  }
+  calibrationUpdated = Date.now();
+
+  const contract = await getFlashSwapContract();
+  if (!contract) return calibratedGasUsed;
+
+  try {
+    const address = await contract.getAddress();
+    const latestBlock = await config.provider.getBlockNumber();
+    const earliestBlock = Math.max(0, latestBlock - config.GAS_HISTORY_BLOCKS);
+
+    // Walk back from the head until enough executions are found
+    const logs: Log[] = [];
+    for (
+      let toBlock = latestBlock;
+      toBlock > earliestBlock && logs.length < config.GAS_HISTORY_RECEIPTS;
+      toBlock -= config.GAS_HISTORY_BLOCK_RANGE
+    ) {
+      logs.push(
+        ...(await config.provider.getLogs({
+          address,
+          topics: [ARBITRAGE_EXECUTED_TOPIC],
+          fromBlock: Math.max(
+            earliestBlock,
+            toBlock - config.GAS_HISTORY_BLOCK_RANGE + 1
+          ),
+          toBlock,
+        }))
+      );
+    }
+
+    const txHashes = Array.from(
+      new Set(logs.map((log) => log.transactionHash))
+    );
+    const receipts = await Promise.all(
+      txHashes
+        .slice(0, config.GAS_HISTORY_RECEIPTS)
+        .map((hash) => config.provider.getTransactionReceipt(hash))
+    );
+    const gasUsed = receipts
+      .filter((receipt) => receipt !== null)
+      .map((receipt) => receipt!.gasUsed)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    if (gasUsed.length > 0) {
+      calibratedGasUsed = gasUsed[Math.floor(gasUsed.length / 2)];
+      console.log(
+        `Calibrated gas usage: ${calibratedGasUsed} (median of ${gasUsed.length} FlashSwap receipts)`
+      );
+    }
+  } catch (error) {
+    console.error(`Error calibrating gas usage from receipts: ${error}`);
+  }
+  return calibratedGasUsed;
+}
+
+/**
+ * Estimate the gas cost of executing a triangle with FlashSwap.start.
+ * Uses estimateGas from FLASHSWAP_OWNER when possible (it reverts unless the trade is
+ * profitable on-chain), then the receipt calibration, then DEFAULT_GAS_USED.
+ * @param tradePath Trade path of the cycle, starts and ends with the borrowed token
+ * @param borrowAmountRaw Raw borrow amount
+ */
+export async function estimateArbitrageGas(
+  tradePath: string[],
+  borrowAmountRaw: bigint
+): Promise<GasEstimate> {
+  const price = await refreshGasPrice();
+  let gasUsed = BigInt(config.DEFAULT_GAS_USED);
+  let source: GasUsedSource = "default";
+
+  const calibrated = await calibrateGasUsed();
+  if (calibrated) {
+    gasUsed = calibrated;
+    source = "receipts";
+  }
+
+  // The contract only executes triangles
+  const contract = await getFlashSwapContract();
+  if (contract && config.FLASHSWAP_OWNER && tradePath.length === 4) {
+    try {
+      gasUsed = await contract.start.estimateGas(
+        tradePath[0],
+        borrowAmountRaw,
+        tradePath[1],
+        tradePath[2],
+        0,
+        [],
+        [],
+        {from: config.FLASHSWAP_OWNER}
+      );
+      source = "estimateGas";
+    } catch (error) {
+      debugLog(`estimateGas failed, using ${source} gas usage: ${error}`, 2);
+    }
+  }
+
+  return {
+    gasUsed,
+    gasPrice: price,
+    costBNB: Number(gasUsed * price) / 1e18,
+    source,
+  };
+}
+
+/**
+ * Convert a BNB amount into a token through the pool-graph USD prices
+ * @returns the token amount, or null when the token (or WBNB) has no price
+ */
+export function convertBNBToToken(
+  amountBNB: number,
+  token: string
+): number | null {
+  const wbnb = config.BASE_TOKEN.toLowerCase();
+  if (token === wbnb) return amountBNB;
+
+  const bnbPrice = getTokenPrice(wbnb);
+  const tokenPrice = getTokenPrice(token);
+  if (!bnbPrice || !tokenPrice || !(tokenPrice.priceUSD > 0)) return null;
+
+  return (amountBNB * bnbPrice.priceUSD) / tokenPrice.priceUSD;
+}
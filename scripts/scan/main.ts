@@ -1,46 +1,35 @@
 import * as scannerOps from "./monitor";
-import {
-  INPUT_ARGS,
-  MIN_PROFIT_THRESHOLD,
-  POOLS_TO_SAMPLE,
-  FULL_REFRESH_INTERVAL,
-} from "./config";
+import {CHAIN, RESOLVED_SETTINGS, SHUTDOWN_TIMEOUT} from "./config";
+import {describeSettings} from "./settings";
 
 async function main() {
-  parseArgs();
+  console.log(`Starting the arbitrage scanner on ${CHAIN.name}...`);
+  console.log("Resolved configuration:");
+  for (const line of describeSettings(RESOLVED_SETTINGS)) {
+    console.log(`  ${line}`);
+  }
 
-  console.log("Starting PancakeSwap V2 Arbitrage Scanner...");
-  console.log(
-    `Using ${
-      (INPUT_ARGS.percent ?? MIN_PROFIT_THRESHOLD) * 100
-    }% as the minimum profit threshold`
-  );
-  console.log(
-    `Using ${
-      INPUT_ARGS.pools ?? POOLS_TO_SAMPLE
-    } as the number of pools to sample`
-  );
-  console.log(
-    `Using ${
-      INPUT_ARGS.full_refresh_interval ?? FULL_REFRESH_INTERVAL
-    } ms as the full refresh interval`
-  );
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
 
   // Start the monitoring
   await scannerOps.startMonitoring();
 }
 
-function parseArgs() {
-  if (process.env.percent) {
-    INPUT_ARGS.percent = Number.parseFloat(process.env.percent);
-  }
-  if (process.env.pools) {
-    INPUT_ARGS.pools = Number.parseInt(process.env.pools);
-  }
-  if (process.env.refresh_interval) {
-    INPUT_ARGS.full_refresh_interval = Number.parseInt(
-      process.env.refresh_interval
-    );
+// Let the running job settle and write the pending state before exiting
+async function shutdown(signal: string) {
+  const forceExit = setTimeout(() => {
+    console.error("Shutdown timed out, exiting");
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT);
+  forceExit.unref();
+
+  try {
+    await scannerOps.stopMonitoring(signal);
+    process.exit(0);
+  } catch (error) {
+    console.error("Error during shutdown:", error);
+    process.exit(1);
   }
 }
 
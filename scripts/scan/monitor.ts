@@ -2,11 +2,52 @@ import * as config from "./config";
 import * as poolUtils from "./utils-pool";
 import * as arbitrageUtils from "./calculate";
 import * as fileUtils from "./utils-file";
-import {ArbitrageOpportunity} from "./types";
+import {ArbitrageOpportunity, PoolData, PoolRef} from "./types";
 import {deleteDebugLogFile} from "./utils-log";
-
-let scanPaused = false;
-let fullScanRunning = false;
+import {startSyncListener, stopSyncListener} from "./sync-events";
+import {updateTokenPrices} from "./price-oracle";
+import {analyzeTokens} from "./token-safety";
+import {getBackoffDelay, RpcProviderManager} from "./provider-manager";
+import {flushPoolStore, restoreTokenCache} from "./pool-store";
+import {
+  backfillNextBatch,
+  startFactoryIndexer,
+  stopFactoryIndexer,
+} from "./factory-indexer";
+import {refreshPoolSelection} from "./pool-selection";
+import {checkSimulationSetup} from "./simulation";
+import {getPrimaryDex} from "./dex-registry";
+import {
+  logJobMetrics,
+  registerJob,
+  startScheduler,
+  stopScheduler,
+  triggerJob,
+} from "./scheduler";
+
+// Work handed to the scheduler by the Sync listener and the factory indexer
+const pendingChangedPools = new Set<string>();
+const pendingNewPairs: PoolRef[] = [];
+// Failed loads of each new pair; a pair is given up after NEW_PAIR_MAX_ATTEMPTS
+const newPairAttempts = new Map<string, number>();
+const NEW_PAIR_MAX_ATTEMPTS = 5;
+
+// Put back new pairs that weren't loaded, they're retried with the next new pairs
+function requeueNewPairs(pairs: PoolRef[]) {
+  for (const pair of pairs) {
+    const address = pair.address.toLowerCase();
+    const attempts = (newPairAttempts.get(address) ?? 0) + 1;
+    if (attempts >= NEW_PAIR_MAX_ATTEMPTS) {
+      newPairAttempts.delete(address);
+      console.log(
+        `Giving up on new pair ${pair.address} after ${attempts} attempts`
+      );
+      continue;
+    }
+    newPairAttempts.set(address, attempts);
+    pendingNewPairs.push(pair);
+  }
+}
 
 interface PriorityPair {
   symbol1: string;
@@ -15,8 +56,39 @@ interface PriorityPair {
   address2: string;
 }
 
-interface BatchPair extends PriorityPair {
-  pairAddress: string;
+// Snapshot the raw reserves of all pools in memory
+function getReserveSnapshot(): Map<string, string> {
+  const snapshot = new Map<string, string>();
+  for (const [address, pool] of config.state.poolsMap) {
+    snapshot.set(
+      address,
+      `${pool.token0.reserveRaw}:${pool.token1.reserveRaw}`
+    );
+  }
+  return snapshot;
+}
+
+// Pools whose reserves differ from the snapshot (including pools added since)
+function getChangedPools(snapshot: Map<string, string>): Set<string> {
+  const changedPools = new Set<string>();
+  for (const [address, pool] of config.state.poolsMap) {
+    if (
+      snapshot.get(address) !==
+      `${pool.token0.reserveRaw}:${pool.token1.reserveRaw}`
+    ) {
+      changedPools.add(address);
+    }
+  }
+  return changedPools;
+}
+
+// Health of the RPC endpoints, when the provider manager is in use
+function logProviderHealth() {
+  if (!(config.provider instanceof RpcProviderManager)) return;
+  console.log("RPC endpoints:");
+  for (const line of config.provider.describeEndpoints()) {
+    console.log(`  ${line}`);
+  }
 }
 
 // Load initial pool data for important pools
@@ -25,9 +97,15 @@ export async function loadInitialPoolData() {
   const startTime = Date.now();
 
   let success = false;
-  scanPaused = true;
 
-  while (!success) {
+  // Token metadata and pair addresses of previous runs; pools are restored as they are loaded
+  restoreTokenCache();
+
+  for (
+    let attempt = 0;
+    !success && attempt < config.INITIAL_LOAD_MAX_ATTEMPTS;
+    attempt++
+  ) {
     try {
       // Get total pool count first
       const totalPoolsBigInt = await config.factory.allPairsLength();
@@ -35,31 +113,23 @@ export async function loadInitialPoolData() {
       config.updateTotalPools(totalPoolsNumber);
       config.updateRandomEnd(totalPoolsNumber - 1);
       console.log(
-        `Found ${config.state.totalPools} total pairs on PancakeSwap V2`
+        `Found ${config.state.totalPools} total pairs on ${
+          getPrimaryDex().name
+        }`
       );
 
-      // Generate initial random pool indices
-      if (!config.DEBUG_DISABLE_RANDOM_POOLS) {
-        config.state.currentPoolIndices = poolUtils.generateRandomPoolIndices(
-          config.INPUT_ARGS.pools ?? config.POOLS_TO_SAMPLE,
-          config.RANDOM_START,
-          config.RANDOM_END
-        );
-      }
       // ---------------- PRIORITY POOLS LOADING -----------------
-      // Load pools for priority pairs in batches
+      // Load pools for priority pairs with multicall
       if (!config.DEBUG_DISABLE_PRIORITY) {
-        console.log("Loading priority token pairs in batches...");
+        console.log("Loading priority token pairs...");
 
-        // First collect all valid pairs
+        // Collect every unordered pair of priority tokens
         const priorityPairs: PriorityPair[] = [];
-        for (const [symbol1, address1] of Object.entries(
-          config.PRIORITY_TOKENS_MUTABLE
-        )) {
-          for (const [symbol2, address2] of Object.entries(
-            config.PRIORITY_TOKENS_MUTABLE
-          )) {
-            if (symbol1 === symbol2) continue;
+        const priorityTokens = Object.entries(config.PRIORITY_TOKENS_MUTABLE);
+        for (let i = 0; i < priorityTokens.length; i++) {
+          for (let j = i + 1; j < priorityTokens.length; j++) {
+            const [symbol1, address1] = priorityTokens[i];
+            const [symbol2, address2] = priorityTokens[j];
             priorityPairs.push({
               symbol1,
               symbol2,
@@ -69,111 +139,38 @@ export async function loadInitialPoolData() {
           }
         }
 
-        // Process pairs in batches
-        for (
-          let i = 0;
-          i < priorityPairs.length;
-          i += config.PRIORITY_BATCH_SIZE
-        ) {
-          const pairPromises = [];
-          const batchPairs: BatchPair[] = [];
-          const end = Math.min(
-            i + config.PRIORITY_BATCH_SIZE,
-            priorityPairs.length
-          );
-
-          // First get all pair addresses in parallel
-          for (let j = i; j < end; j++) {
-            const pair = priorityPairs[j];
-            pairPromises.push(
-              config.factory
-                .getPair(pair.address1, pair.address2)
-                .then((pairAddress) => {
-                  if (
-                    pairAddress !== "0x0000000000000000000000000000000000000000"
-                  ) {
-                    batchPairs.push({
-                      ...pair,
-                      pairAddress,
-                    });
-                  }
-                  return null;
-                })
-                .catch((error) => {
-                  console.log(
-                    `Error getting pair address for ${pair.symbol1}-${pair.symbol2}: ${error}`
-                  );
-                  return null;
-                })
-            );
-          }
+        // Get the pair addresses on every DEX in one multicall
+        const pairRefs = await poolUtils.getPairsOnAllDexes(
+          priorityPairs.map((pair) => [pair.address1, pair.address2])
+        );
 
-          // Wait for all pair lookups to complete
-          await Promise.all(pairPromises);
-
-          // Then load pool data for valid pairs in parallel
-          const loadPromises = batchPairs.map((pair) => {
-            return poolUtils
-              .loadPoolData(pair.pairAddress, -1)
-              .then(() => {
-                console.log(`Loaded ${pair.symbol1}-${pair.symbol2} pool`);
-                return null;
-              })
-              .catch((error) => {
-                console.log(
-                  `Error loading ${pair.symbol1}-${pair.symbol2} pool: ${error}`
-                );
-                return null;
-              });
-          });
-
-          // Wait for all pool loads to complete
-          await Promise.all(loadPromises);
-
-          // Add a small delay between batches to avoid rate limiting
-          if (i + config.PRIORITY_BATCH_SIZE < priorityPairs.length) {
-            await new Promise((resolve) => setTimeout(resolve, 500));
-          }
-        }
+        // Then load pool data for all valid pairs
+        const loadedPools = await poolUtils.loadPoolsData(pairRefs);
+        console.log(
+          `Loaded ${loadedPools.length} of ${pairRefs.length} priority pools across DEXes`
+        );
 
         console.log("Finished loading priority token pairs");
       }
 
-      // ---------------- RANDOM POOLS LOADING -------------------
-      // Load randomly selected pools in batches
+      // ---------------- SELECTED POOLS LOADING -----------------
+      // Pools ranked from the indexed universe, random indices until the indexer has pairs
       if (!config.DEBUG_DISABLE_RANDOM_POOLS) {
-        console.log(
-          `Loading ${config.state.currentPoolIndices.length} randomly selected pools...`
-        );
-        for (
-          let i = 0;
-          i < config.state.currentPoolIndices.length;
-          i += config.BATCH_SIZE
-        ) {
-          const batch = [];
-          const end = Math.min(
-            i + config.BATCH_SIZE,
-            config.state.currentPoolIndices.length
-          );
+        // Candidates are valued through the prices of the priority pools
+        updateTokenPrices();
+        const selected = await refreshPoolSelection();
 
-          console.log(`Loading batch ${i} to ${end - 1}...`);
-
-          for (let j = i; j < end; j++) {
-            batch.push(
-              poolUtils.loadPoolByIndex(config.state.currentPoolIndices[j])
-            );
-          }
+        if (selected === null) await poolUtils.loadRandomPools();
+      }
 
-          await Promise.all(batch);
+      // Derive USD prices and pool liquidity for the loaded pools
+      updateTokenPrices();
+      console.log(
+        `Priced ${config.state.tokenPrices.size} of ${config.state.tokenPools.size} tokens in USD`
+      );
 
-          // Short delay between batches
-          if (i + config.BATCH_SIZE < config.state.currentPoolIndices.length) {
-            await new Promise((resolve) =>
-              setTimeout(resolve, config.BATCH_SHORT_DELAY)
-            );
-          }
-        }
-      }
+      // Round trip new tokens to find honeypots and transfer taxes
+      await analyzeTokens(Array.from(config.state.tokenPools.keys()));
 
       // log stable token in pairs count
       for (const stableCoinAddress of config.STABLECOINS) {
@@ -212,20 +209,32 @@ export async function loadInitialPoolData() {
       }
 
       success = true;
-      scanPaused = false;
     } catch (error) {
-      // pause 5 seconds and retry
+      // The provider already failed over between endpoints, so every one of them is failing
+      const delay = getBackoffDelay(
+        attempt,
+        config.RPC_BACKOFF_BASE * 10,
+        config.RPC_BACKOFF_MAX
+      );
       console.error(
-        `Error loading initial pool data: ${error}. Retrying in 5 seconds...`
+        `Error loading initial pool data (attempt ${attempt + 1} of ${
+          config.INITIAL_LOAD_MAX_ATTEMPTS
+        }): ${error}. Retrying in ${delay / 1000} seconds...`
       );
+      logProviderHealth();
       // Reset the pool selection
       poolUtils.resetPoolSelection();
 
-      await new Promise((resolve) => setTimeout(resolve, 5000));
-    } finally {
-      scanPaused = false;
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
   }
+  if (!success) {
+    throw new Error(
+      `Initial pool data failed to load after ${config.INITIAL_LOAD_MAX_ATTEMPTS} attempts`
+    );
+  }
+
+  flushPoolStore();
 
   const elapsedMinutes = ((Date.now() - startTime) / 1000 / 60).toFixed(1);
   console.log(
@@ -237,108 +246,188 @@ export async function loadInitialPoolData() {
 export async function startMonitoring() {
   console.log("Starting real-time arbitrage monitoring...");
   deleteDebugLogFile();
+  await config.checkConnectedChain();
+  await checkSimulationSetup();
 
   // Initial scan
   await loadInitialPoolData();
 
-  // -------------- CHECK IF RESET --------
-  setInterval(async () => {
-    if (scanPaused || config.DEBUG) return; // Skip if paused or DEBUG mode is on
-    const timeSinceLastProfit = Date.now() - config.state.lastProfitFound;
-    if (timeSinceLastProfit > config.RESET_INTERVAL) {
-      console.log(
-        `No profitable opportunities found in ${
-          config.RESET_INTERVAL / 1000 / 60
-        } minutes. Resetting pool selection.`
-      );
-      poolUtils.resetPoolSelection();
-      await loadInitialPoolData();
-      console.log("poolset was reset!");
-    }
-  }, 1000 * 60); // Check every minute
-
-  // -------------- FULL SCAN -------------
-  setInterval(async () => {
-    if (scanPaused) return; // Skip if paused
-    fullScanRunning = true;
-    try {
-      console.log("\nPerforming periodic refresh of pool data...");
-
-      // Refresh all pools in memory (in batches)
-      const pools = Array.from(config.state.poolsMap.keys());
-
-      for (let i = 0; i < pools.length; i += config.BATCH_SIZE) {
-        const batch = [];
-        const end = Math.min(i + config.BATCH_SIZE, pools.length);
-
-        for (let j = i; j < end; j++) {
-          batch.push(poolUtils.loadPoolData(pools[j], -1));
+  // -------------- FACTORY INDEXER -------
+  // Backfills the pair universe a batch at a time, below every other job; new pairs are
+  // loaded as they are created
+  if (config.INDEXER_ENABLED) {
+    registerJob({
+      name: "indexer-backfill",
+      priority: -2,
+      interval: config.INDEXER_BACKFILL_INTERVAL,
+      run: backfillNextBatch,
+    });
+    registerJob({
+      name: "new-pairs",
+      priority: 2,
+      run: async () => {
+        const pairs = pendingNewPairs.splice(0);
+        let pools: PoolData[];
+        try {
+          pools = await poolUtils.loadPoolsData(pairs);
+        } catch (error) {
+          requeueNewPairs(pairs);
+          throw error;
         }
+        const loaded = new Set(pools.map((pool) => pool.address));
+        for (const address of loaded) newPairAttempts.delete(address);
+        requeueNewPairs(
+          pairs.filter((pair) => !loaded.has(pair.address.toLowerCase()))
+        );
+        console.log(`Loaded ${pools.length} of ${pairs.length} new pairs`);
+      },
+    });
+    await startFactoryIndexer((pairs) => {
+      pendingNewPairs.push(...pairs);
+      triggerJob("new-pairs");
+    });
+  }
 
-        await Promise.all(batch);
-
-        // Find opportunities after each batch refresh
-        const opportunities = await arbitrageUtils.findArbitrageOpportunities();
-
-        // Log profitable opportunities
-        if (opportunities.length > 0) {
-          displayAndSaveOpportunity(opportunities, 5); // Show up to 5 opportunities
-        } else {
-          console.log(
-            "No profitable arbitrage opportunities found in this scan. (Full)"
+  // -------------- SYNC EVENTS -----------
+  // Reserves are updated in place; only cycles through changed pools are re-evaluated
+  if (config.SYNC_EVENTS_ENABLED) {
+    registerJob({
+      name: "sync-scan",
+      priority: 3,
+      run: async (signal) => {
+        const changedPools = new Set(pendingChangedPools);
+        pendingChangedPools.clear();
+        let opportunities: ArbitrageOpportunity[];
+        try {
+          opportunities = await arbitrageUtils.findArbitrageOpportunities(
+            changedPools,
+            signal
           );
+        } catch (error) {
+          // Cancelled or failed: the pools are scanned with the next Syncs
+          for (const address of changedPools) pendingChangedPools.add(address);
+          throw error;
+        }
+        if (opportunities.length > 0) {
+          displayAndSaveOpportunity(opportunities, 5);
         }
+      },
+    });
+    await startSyncListener((changedPools, blockNumber) => {
+      console.log(
+        `\n${changedPools.size} pools changed up to block ${blockNumber}`
+      );
+      for (const address of changedPools) pendingChangedPools.add(address);
+      triggerJob("sync-scan");
+    });
+  }
 
-        // Short delay between batches
-        if (i + config.BATCH_SIZE < pools.length) {
-          await new Promise((resolve) =>
-            setTimeout(resolve, config.BATCH_SHORT_DELAY)
+  // -------------- POOL SELECTION --------
+  // Underperforming pools are replaced a few at a time by better ranked pairs. Without
+  // indexed pairs, the random sample is replaced once it stopped finding profit.
+  if (!config.DEBUG_DISABLE_RANDOM_POOLS) {
+    registerJob({
+      name: "pool-selection",
+      priority: 0,
+      interval: config.POOL_SELECTION_INTERVAL,
+      run: async (signal) => {
+        let added = await refreshPoolSelection();
+        if (added === null) {
+          const sinceProfit = Date.now() - config.state.lastProfitFound;
+          if (sinceProfit < config.RESET_INTERVAL) return;
+          console.log(
+            `No profitable opportunities found in ${
+              config.RESET_INTERVAL / 1000 / 60
+            } minutes, replacing the random pools`
+          );
+          added = (await poolUtils.loadRandomPools()).map(
+            (pool) => pool.address
           );
         }
-      }
-    } catch (error) {
-      console.error("Error during periodic refresh:", error);
-    } finally {
-      fullScanRunning = false;
-    }
-  }, config.INPUT_ARGS.full_refresh_interval ?? config.FULL_REFRESH_INTERVAL);
-
-  // -------------- PRIORITY SCAN ---------
-  setInterval(async () => {
-    if (scanPaused || fullScanRunning) return;
-    try {
-      if (config.DEBUG_DISABLE_PRIORITY) return;
-
-      console.log("\nRefreshing priority pools...");
-
-      // Get only priority pools (those with index -1)
-      const priorityPools = Array.from(config.state.poolsMap.entries())
-        .filter(([_, pool]) => pool.index === -1)
-        .map(([address, _]) => address);
-
-      console.log(`Found ${priorityPools.length} priority pools to refresh`);
-
-      // FORCE REFRESH ALL PRIORITY POOLS
-      // Process in batches to avoid rate limiting
-      for (
-        let i = 0;
-        i < priorityPools.length;
-        i += config.PRIORITY_BATCH_SIZE
-      ) {
-        const batch = [];
-        const end = Math.min(
-          i + config.PRIORITY_BATCH_SIZE,
-          priorityPools.length
+        if (added.length === 0) return;
+        signal.throwIfAborted();
+
+        await analyzeTokens(
+          added.flatMap((address) => {
+            const pool = config.state.poolsMap.get(address);
+            return [pool.token0.address, pool.token1.address];
+          })
         );
-
-        for (let j = i; j < end; j++) {
-          batch.push(poolUtils.loadPoolData(priorityPools[j], -1, true)); // force refresh
+        const opportunities = await arbitrageUtils.findArbitrageOpportunities(
+          new Set(added),
+          signal
+        );
+        if (opportunities.length > 0) {
+          displayAndSaveOpportunity(opportunities, 5);
         }
+      },
+    });
+  }
 
-        await Promise.all(batch);
+  // -------------- FULL SCAN -------------
+  registerJob({
+    name: "full-refresh",
+    priority: 1,
+    interval: config.FULL_REFRESH_INTERVAL,
+    run: async (signal) => {
+      console.log("\nPerforming periodic refresh of pool data...");
 
-        // Check for opportunities after each batch refreshing
-        const opportunities = await arbitrageUtils.findArbitrageOpportunities();
+      // Refresh all pools in memory
+      const pools = Array.from(config.state.poolsMap.values()).map((pool) => ({
+        address: pool.address,
+        index: pool.index,
+        dex: pool.dex,
+      }));
+      const snapshot = getReserveSnapshot();
+      await poolUtils.loadPoolsData(pools);
+      signal.throwIfAborted();
+
+      // Only cycles through pools whose reserves changed need a new evaluation
+      const changedPools = getChangedPools(snapshot);
+      console.log(`${changedPools.size} pools changed since the last refresh`);
+      const opportunities = await arbitrageUtils.findArbitrageOpportunities(
+        changedPools,
+        signal
+      );
+
+      // Log profitable opportunities
+      if (opportunities.length > 0) {
+        displayAndSaveOpportunity(opportunities, 5); // Show up to 5 opportunities
+      } else {
+        console.log(
+          "No profitable arbitrage opportunities found in this scan. (Full)"
+        );
+      }
+    },
+  });
+
+  // -------------- PRIORITY SCAN ---------
+  // Not needed when Sync events keep the reserves up to date
+  if (!config.SYNC_EVENTS_ENABLED && !config.DEBUG_DISABLE_PRIORITY) {
+    registerJob({
+      name: "priority-refresh",
+      priority: 2,
+      interval: config.PRIORITY_REFRESH_INTERVAL,
+      run: async (signal) => {
+        console.log("\nRefreshing priority pools...");
+
+        // Get only priority pools (those with index -1)
+        const priorityPools = Array.from(config.state.poolsMap.values())
+          .filter((pool) => pool.index === -1)
+          .map((pool) => ({address: pool.address, index: -1, dex: pool.dex}));
+
+        console.log(`Found ${priorityPools.length} priority pools to refresh`);
+
+        // FORCE REFRESH ALL PRIORITY POOLS
+        const snapshot = getReserveSnapshot();
+        await poolUtils.loadPoolsData(priorityPools, true);
+        signal.throwIfAborted();
+
+        // Check for opportunities through the changed pools after the refresh
+        const opportunities = await arbitrageUtils.findArbitrageOpportunities(
+          getChangedPools(snapshot),
+          signal
+        );
 
         if (opportunities.length > 0) {
           displayAndSaveOpportunity(opportunities, 5);
@@ -347,18 +436,36 @@ export async function startMonitoring() {
             "No profitable arbitrage opportunities found in this scan. (Priority)"
           );
         }
+      },
+    });
+  }
 
-        // Small delay between batches if needed
-        if (i + config.PRIORITY_BATCH_SIZE < priorityPools.length) {
-          await new Promise((resolve) =>
-            setTimeout(resolve, config.BATCH_SHORT_DELAY)
-          );
-        }
-      }
-    } catch (error) {
-      console.error("Error during priority refresh:", error);
-    }
-  }, config.PRIORITY_REFRESH_INTERVAL);
+  // -------------- METRICS ---------------
+  registerJob({
+    name: "metrics",
+    priority: -1,
+    interval: config.SCHEDULER_METRICS_INTERVAL,
+    run: async () => {
+      logJobMetrics();
+      logProviderHealth();
+    },
+  });
+
+  startScheduler();
+}
+
+/**
+ * Stop the scheduler (cancelling the running job), the event listeners and the
+ * arbitrage queue, and write the pending store records
+ */
+export async function stopMonitoring(reason: string) {
+  console.log(`Stopping the scanner: ${reason}`);
+  stopSyncListener();
+  stopFactoryIndexer();
+  await stopScheduler(reason);
+  logJobMetrics();
+  flushPoolStore();
+  await config.arbitrageQueue.close();
 }
 
 /**
@@ -381,11 +488,10 @@ export function displayAndSaveOpportunity(
 
   opportunities.slice(0, limit).forEach((opp, i) => {
     console.log(
-      `   #${i + 1}: ${opp.path[0].tokenInSymbol} → ${
-        opp.path[0].tokenOutSymbol
-      } → ${opp.path[1].tokenOutSymbol} → ${opp.path[2].tokenOutSymbol}: ${(
-        opp.profitPercent * 100
-      ).toFixed(4)}%`
+      `   #${i + 1}: ${[
+        opp.path[0].tokenInSymbol,
+        ...opp.path.map((step) => step.tokenOutSymbol),
+      ].join(" → ")}: ${(opp.profitPercent * 100).toFixed(4)}%`
     );
 
     // Check if enhanced test data is available
@@ -435,10 +541,18 @@ export function displayAndSaveOpportunity(
       }`
     );
     console.log(
-      `   Net Profit: ${opp.netProfit.toFixed(6)} ${opp.path[0].tokenInSymbol}`
+      `   Net Profit: ${opp.netProfit.toFixed(6)} ${opp.path[0].tokenInSymbol}${
+        opp.netProfitUSD !== undefined
+          ? ` (~$${opp.netProfitUSD.toFixed(2)}, price confidence ${(
+              (opp.priceConfidence ?? 0) * 100
+            ).toFixed(0)}%)`
+          : ""
+      }`
     );
     console.log(
-      `   Pool Addresses: ${opp.path.map((p) => p.poolAddress).join(" → ")}`
+      `   Pool Addresses: ${opp.path
+        .map((p) => `${p.poolAddress} (${p.dex}, ${p.feeBps} bps)`)
+        .join(" → ")}`
     );
 
     // Add a blank line between opportunities for better readability
@@ -0,0 +1,88 @@
+import * as config from "./config";
+import {ArbitrageOpportunity} from "./types";
+import {debugLog} from "./utils-log";
+
+// Jobs queued for a cycle, until their expiry block
+interface SentOpportunity {
+  jobIds: string[];
+  blockNumber: number;
+  expiryBlock: number;
+  expectedProfit: number; // In the start token, which is part of the cycle id
+}
+
+const sentOpportunities = new Map<string, SentOpportunity>();
+// Cycles between claimOpportunity and releaseOpportunity (sends aren't awaited by the scan)
+const claimedCycles = new Set<string>();
+
+// Last block a job for the opportunity may be executed in
+export function getExpiryBlock(opportunity: ArbitrageOpportunity): number {
+  return opportunity.blockNumber + config.OPPORTUNITY_TTL_BLOCKS;
+}
+
+// Forget the cycles whose jobs expired before a block
+function pruneExpired(blockNumber: number) {
+  for (const [cycleId, sent] of sentOpportunities) {
+    if (sent.expiryBlock < blockNumber) sentOpportunities.delete(cycleId);
+  }
+}
+
+/**
+ * Claim the cycle of an opportunity for sending.
+ * A cycle whose job hasn't expired is only sent again from newer reserves with a profit
+ * OPPORTUNITY_REPLACE_IMPROVEMENT above the queued one.
+ * @returns null when the opportunity may be sent, otherwise why it's a duplicate
+ */
+export function claimOpportunity(
+  opportunity: ArbitrageOpportunity
+): string | null {
+  pruneExpired(opportunity.blockNumber);
+  if (claimedCycles.has(opportunity.cycleId)) return "already being sent";
+
+  const sent = sentOpportunities.get(opportunity.cycleId);
+  if (sent) {
+    if (opportunity.blockNumber <= sent.blockNumber) {
+      return `already sent at block ${sent.blockNumber}`;
+    }
+    if (
+      opportunity.expectedProfit <=
+      sent.expectedProfit * (1 + config.OPPORTUNITY_REPLACE_IMPROVEMENT)
+    ) {
+      return `not better than the job sent at block ${sent.blockNumber}`;
+    }
+  }
+  claimedCycles.add(opportunity.cycleId);
+  return null;
+}
+
+// Release a claimed cycle whose opportunity was sent or dropped
+export function releaseOpportunity(opportunity: ArbitrageOpportunity) {
+  claimedCycles.delete(opportunity.cycleId);
+}
+
+/**
+ * Record the jobs queued for an opportunity. The jobs of the cycle it replaces are
+ * removed from the queue unless an executor already took them.
+ */
+export async function recordSentJobs(
+  opportunity: ArbitrageOpportunity,
+  jobIds: string[]
+) {
+  const replaced = sentOpportunities.get(opportunity.cycleId);
+  sentOpportunities.set(opportunity.cycleId, {
+    jobIds,
+    blockNumber: opportunity.blockNumber,
+    expiryBlock: getExpiryBlock(opportunity),
+    expectedProfit: opportunity.expectedProfit,
+  });
+  if (!replaced) return;
+
+  for (const jobId of replaced.jobIds) {
+    const removed = await config.arbitrageQueue.remove(jobId);
+    debugLog(
+      `Job ${jobId} of block ${replaced.blockNumber} ${
+        removed ? "replaced" : "already taken by an executor"
+      }`,
+      2
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import * as config from "./config";
+import {HopReserves, getAmountsOut, getFlashLoanRepayAmount} from "./utils-amm";
+
+export interface ProfitPoint {
+  amountIn: bigint; // raw borrow amount
+  amountOut: bigint; // raw amount returned by the last hop
+  profit: bigint; // amountOut minus the flash loan repayment (can be negative)
+}
+
+export interface CycleOptimum extends ProfitPoint {
+  curve: ProfitPoint[]; // profit around the optimum, sorted by amountIn
+}
+
+// Exact profit of borrowing amountIn and trading it through all hops
+export function getCycleProfit(
+  amountIn: bigint,
+  hops: HopReserves[]
+): ProfitPoint {
+  const amounts = getAmountsOut(amountIn, hops);
+  const amountOut = amounts[amounts.length - 1];
+  return {
+    amountIn,
+    amountOut,
+    profit: amountOut - getFlashLoanRepayAmount(amountIn),
+  };
+}
+
+/**
+ * Closed-form optimal input of a cycle.
+ * Each hop is out = P*x / (Q + S*x) with P = fee*reserveOut, Q = reserveIn, S = fee.
+ * Composing two hops keeps that shape: P = P1*P2, Q = Q1*Q2, S = Q2*S1 + S2*P1.
+ * Maximizing P*x / (Q + S*x) - k*x (k = flash loan repay factor) gives
+ * x = (sqrt(P*Q / k) - Q) / S.
+ * @returns the optimal raw input, or 0n if the cycle isn't profitable at any size
+ */
+export function getClosedFormOptimalAmount(hops: HopReserves[]): bigint {
+  let P = 1;
+  let Q = 1;
+  let S = 0;
+  for (const hop of hops) {
+    const fee = Number(hop.fee.numerator) / Number(hop.fee.denominator);
+    const P2 = fee * Number(hop.reserveOut);
+    const Q2 = Number(hop.reserveIn);
+    const S2 = fee;
+    if (!(P2 > 0) || !(Q2 > 0)) return 0n;
+    [P, Q, S] = [P * P2, Q * Q2, Q2 * S + S2 * P];
+
+    // The map is unchanged when P, Q and S are scaled together; keep Q at 1 to avoid overflow
+    [P, S, Q] = [P / Q, S / Q, 1];
+  }
+
+  const k = 1 + 3 / 997;
+  if (!(Q > 0) || !(S > 0) || P / Q <= k) return 0n;
+
+  const optimum = (Math.sqrt((P * Q) / k) - Q) / S;
+  if (!Number.isFinite(optimum) || optimum < 1) return 0n;
+
+  return BigInt(Math.floor(optimum));
+}
+
+/**
+ * Find the profit-maximizing borrow amount of a cycle.
+ * Starts from the closed-form optimum and refines it with a ternary search on the
+ * exact integer math, since the router rounds down on every hop.
+ */
+export function findOptimalAmount(hops: HopReserves[]): CycleOptimum | null {
+  const estimate = getClosedFormOptimalAmount(hops);
+  if (estimate === 0n) return null;
+
+  // Bounded search around the estimate; profit is concave in amountIn
+  let low = estimate / 2n;
+  let high = (estimate * 3n) / 2n + 1n;
+  for (let i = 0; i < config.OPTIMIZER_MAX_ITERATIONS && high - low > 2n; i++) {
+    const third = (high - low) / 3n;
+    const m1 = low + third;
+    const m2 = high - third;
+    if (getCycleProfit(m1, hops).profit < getCycleProfit(m2, hops).profit) {
+      low = m1;
+    } else {
+      high = m2;
+    }
+  }
+
+  const best = getCycleProfit((low + high) / 2n, hops);
+  if (best.profit <= 0n) return null;
+
+  // Profit curve around the optimum
+  const curve = config.PROFIT_CURVE_FACTORS.map((factor) =>
+    factor === 1
+      ? best
+      : getCycleProfit(
+          (best.amountIn * BigInt(Math.round(factor * 1000))) / 1000n,
+          hops
+        )
+  ).sort((a, b) => (a.amountIn < b.amountIn ? -1 : 1));
+
+  return {...best, curve};
+}
@@ -0,0 +1,307 @@
+import {ethers} from "hardhat";
+import {Interface} from "ethers";
+import * as config from "./config";
+import {PoolData, PoolRef, StoredPair} from "./types";
+import {getUniversePairs} from "./factory-indexer";
+import {getTokenPrice} from "./price-oracle";
+import {multicall} from "./utils-multicall";
+import {loadPoolsData, removePool} from "./utils-pool";
+import {debugLog} from "./utils-log";
+
+// A pair of the universe with a priority token, as last scanned
+interface PoolCandidate {
+  address: string;
+  index: number;
+  dex: string;
+  token0: string;
+  token1: string;
+  liquidityUSD: number;
+  blockTimestampLast: number;
+}
+
+// Inputs of the pool score, shared by candidates and loaded pools
+interface ScoredPool {
+  address: string;
+  token0: string;
+  token1: string;
+  liquidityUSD: number;
+  blockTimestampLast: number;
+}
+
+const pairInterface = new Interface(config.PAIR_ABI);
+
+const candidates = new Map<string, PoolCandidate>();
+const syncCounts = new Map<string, number>(); // Decayed Sync count of each loaded pool
+const lastProfitAt = new Map<string, number>(); // Last opportunity found through each pool
+const selectedPools = new Set<string>();
+let scanCursor = 0;
+
+function getPriorityTokens(): Set<string> {
+  return new Set(
+    Object.values(config.PRIORITY_TOKENS_MUTABLE).map((token) =>
+      token.toLowerCase()
+    )
+  );
+}
+
+/**
+ * Read the reserves of the next POOL_SCAN_BATCH pairs of the universe and value them
+ * through their priority token, so the whole universe is ranked over a few rounds
+ */
+async function scanCandidates(universe: StoredPair[]) {
+  if (universe.length === 0) return;
+  if (scanCursor >= universe.length) scanCursor = 0;
+  const batch = universe.slice(scanCursor, scanCursor + config.POOL_SCAN_BATCH);
+  scanCursor += batch.length;
+
+  const priorityTokens = getPriorityTokens();
+  const results = await multicall(
+    batch.map((pair) => ({
+      target: pair.address,
+      iface: pairInterface,
+      method: "getReserves",
+    }))
+  );
+
+  let scanned = 0;
+  batch.forEach((pair, i) => {
+    const reserves = results[i];
+    if (!reserves) return;
+
+    // Value the priority side; a V2 pool holds the same value on both sides
+    const isToken0Priced = priorityTokens.has(pair.token0!);
+    const pricedToken = isToken0Priced ? pair.token0! : pair.token1!;
+    const price = getTokenPrice(pricedToken);
+    const decimals = config.state.tokenCache[pricedToken]?.decimals;
+    if (!price || decimals === undefined) return;
+    const reserve = Number(
+      ethers.formatUnits(reserves[isToken0Priced ? 0 : 1], decimals)
+    );
+    const liquidityUSD = 2 * reserve * price.priceUSD;
+    scanned++;
+    // Pairs that were liquid on an earlier round aren't candidates anymore
+    if (liquidityUSD < config.MIN_LIQUIDITY_USD) {
+      candidates.delete(pair.address);
+      return;
+    }
+
+    candidates.set(pair.address, {
+      address: pair.address,
+      index: pair.index,
+      dex: pair.dex,
+      token0: pair.token0!,
+      token1: pair.token1!,
+      liquidityUSD,
+      blockTimestampLast: Number(reserves[2]),
+    });
+  });
+  debugLog(
+    `Pool selection: scanned ${scanned} of ${batch.length} pairs (${scanCursor} of ${universe.length})`,
+    2
+  );
+}
+
+// Keep the POOL_CANDIDATE_LIMIT best scored candidates, so a round ranks a bounded set
+// however large the universe is
+function trimCandidates(
+  tokenPoolCounts: Map<string, number>,
+  priorityTokens: Set<string>
+) {
+  if (candidates.size <= config.POOL_CANDIDATE_LIMIT) return;
+  const ranked = Array.from(candidates.values())
+    .map((candidate) => ({
+      address: candidate.address,
+      score: scorePool(candidate, tokenPoolCounts, priorityTokens),
+    }))
+    .sort((a, b) => b.score - a.score);
+  for (const {address} of ranked.slice(config.POOL_CANDIDATE_LIMIT)) {
+    candidates.delete(address);
+  }
+}
+
+// Liquid pools (loaded or scanned) of each token, the base of the connectivity score
+function getTokenPoolCounts(): Map<string, number> {
+  const counts = new Map<string, number>();
+  const count = (pool: ScoredPool) => {
+    if (pool.liquidityUSD < config.MIN_LIQUIDITY_USD) return;
+    for (const token of [pool.token0, pool.token1]) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+  };
+  for (const candidate of candidates.values()) {
+    if (!config.state.poolsMap.has(candidate.address)) count(candidate);
+  }
+  for (const pool of config.state.poolsMap.values()) count(toScoredPool(pool));
+  return counts;
+}
+
+function toScoredPool(pool: PoolData): ScoredPool {
+  return {
+    address: pool.address,
+    token0: pool.token0.address,
+    token1: pool.token1.address,
+    liquidityUSD: Number(pool.liquidityUSD) || 0,
+    blockTimestampLast: pool.blockTimestampLast,
+  };
+}
+
+/**
+ * Score of a pool between 0 and 1 (plus POOL_PROFIT_BONUS):
+ * - liquidity: 0 at MIN_LIQUIDITY_USD, 1 at a thousand times that (log scale)
+ * - activity: recency of the last reserve update, or the decayed Sync count when higher
+ * - connectivity: priority tokens in the pair, and other liquid pools of its tokens
+ *   (a token with a single pool closes no cycle)
+ */
+function scorePool(
+  pool: ScoredPool,
+  tokenPoolCounts: Map<string, number>,
+  priorityTokens: Set<string>
+): number {
+  const weights = config.POOL_SCORE_WEIGHTS;
+
+  const liquidity =
+    pool.liquidityUSD > config.MIN_LIQUIDITY_USD
+      ? Math.min(
+          1,
+          Math.log10(pool.liquidityUSD / config.MIN_LIQUIDITY_USD) / 3
+        )
+      : 0;
+
+  const secondsSinceUpdate = Date.now() / 1000 - pool.blockTimestampLast;
+  const recency = Math.max(
+    0,
+    1 - secondsSinceUpdate / config.POOL_ACTIVITY_WINDOW
+  );
+  const syncs = Math.min(
+    1,
+    (syncCounts.get(pool.address) ?? 0) / config.POOL_ACTIVITY_FULL_SYNCS
+  );
+  const activity = Math.max(recency, syncs);
+
+  const tokens = [pool.token0, pool.token1];
+  const priorityCount = tokens.filter((token) =>
+    priorityTokens.has(token)
+  ).length;
+  const otherPools = Math.min(
+    ...tokens.map((token) => (tokenPoolCounts.get(token) ?? 1) - 1)
+  );
+  const connectivity =
+    0.5 * (priorityCount / 2) +
+    0.5 *
+      (priorityCount === 2
+        ? 1
+        : Math.min(1, otherPools / config.POOL_CONNECTIVITY_FULL));
+
+  const profitBonus =
+    Date.now() - (lastProfitAt.get(pool.address) ?? 0) < config.RESET_INTERVAL
+      ? config.POOL_PROFIT_BONUS
+      : 0;
+
+  return (
+    weights.liquidity * liquidity +
+    weights.activity * activity +
+    weights.connectivity * connectivity +
+    profitBonus
+  );
+}
+
+// Count the Sync events of loaded pools, for the activity score
+export function recordPoolActivity(poolAddress: string) {
+  syncCounts.set(poolAddress, (syncCounts.get(poolAddress) ?? 0) + 1);
+}
+
+// Remember the pools of an opportunity, they are kept while they find profit
+export function recordPoolProfit(poolAddresses: string[]) {
+  for (const address of poolAddresses) lastProfitAt.set(address, Date.now());
+}
+
+/**
+ * One selection round: scan the next part of the universe, fill the budget with the best
+ * candidates and replace at most POOL_REPLACE_FRACTION of the selected pools with
+ * candidates that score POOL_REPLACE_MARGIN higher. Priority pools are never touched.
+ * @returns The addresses of the pools added, already loaded; null when the universe is empty
+ */
+export async function refreshPoolSelection(): Promise<string[] | null> {
+  const universe = getUniversePairs();
+  if (universe.length === 0) return null;
+  await scanCandidates(universe);
+
+  const budget = config.POOL_SELECTION_BUDGET;
+  const priorityTokens = getPriorityTokens();
+  const tokenPoolCounts = getTokenPoolCounts();
+  trimCandidates(tokenPoolCounts, priorityTokens);
+
+  // Selected pools that were removed elsewhere (e.g. a failed load) are forgotten
+  for (const address of selectedPools) {
+    if (!config.state.poolsMap.has(address)) selectedPools.delete(address);
+  }
+
+  const ranked = Array.from(candidates.values())
+    .filter(
+      (candidate) =>
+        !config.state.poolsMap.has(candidate.address) &&
+        candidate.liquidityUSD >= config.MIN_LIQUIDITY_USD
+    )
+    .map((candidate) => ({
+      candidate,
+      score: scorePool(candidate, tokenPoolCounts, priorityTokens),
+    }))
+    .sort((a, b) => b.score - a.score);
+  const selected = Array.from(selectedPools)
+    .map((address) => ({
+      address,
+      score: scorePool(
+        toScoredPool(config.state.poolsMap.get(address)),
+        tokenPoolCounts,
+        priorityTokens
+      ),
+    }))
+    .sort((a, b) => a.score - b.score);
+
+  const toAdd: PoolCandidate[] = [];
+  const toRemove: string[] = [];
+  let next = 0;
+  while (selected.length + toAdd.length < budget && next < ranked.length) {
+    toAdd.push(ranked[next++].candidate);
+  }
+  const maxReplacements = Math.ceil(budget * config.POOL_REPLACE_FRACTION);
+  for (
+    let i = 0;
+    i < selected.length &&
+    toRemove.length < maxReplacements &&
+    next < ranked.length;
+    i++
+  ) {
+    if (ranked[next].score <= selected[i].score + config.POOL_REPLACE_MARGIN) {
+      break;
+    }
+    toRemove.push(selected[i].address);
+    toAdd.push(ranked[next++].candidate);
+  }
+
+  for (const address of toRemove) {
+    selectedPools.delete(address);
+    removePool(address);
+  }
+  const refs: PoolRef[] = toAdd.map((candidate) => ({
+    address: candidate.address,
+    index: candidate.index,
+    dex: candidate.dex,
+  }));
+  const loaded = await loadPoolsData(refs);
+  for (const pool of loaded) selectedPools.add(pool.address);
+
+  // Counts decay so the activity score follows recent rounds
+  for (const [address, count] of syncCounts) {
+    if (config.state.poolsMap.has(address)) {
+      syncCounts.set(address, count / 2);
+    } else {
+      syncCounts.delete(address);
+    }
+  }
+
+  console.log(
+    `Pool selection: ${selectedPools.size} of ${budget} pools selected, ${loaded.length} added, ${toRemove.length} replaced (${candidates.size} of ${universe.length} pairs ranked)`
+  );
+  return loaded.map((pool) => pool.address);
+}
@@ -0,0 +1,259 @@
+import fs from "fs";
+import path from "path";
+import * as config from "./config";
+import {
+  PoolData,
+  StoredBackfill,
+  StoredPair,
+  StoredPool,
+  StoredToken,
+  TokenInfo,
+} from "./types";
+
+// Append-only JSON lines files; the last record of a key wins
+let storeDirectory = path.join(__dirname, "../../data/store");
+
+interface StoreTable<T> {
+  fileName: string; // In storeDirectory
+  records: Map<string, T>;
+  pending: Map<string, T>; // Written on the next flush
+}
+
+const tokens: StoreTable<StoredToken> = {
+  fileName: "tokens.jsonl",
+  records: new Map(),
+  pending: new Map(),
+};
+const pairs: StoreTable<StoredPair> = {
+  fileName: "pairs.jsonl",
+  records: new Map(),
+  pending: new Map(),
+};
+const pools: StoreTable<StoredPool> = {
+  fileName: "pools.jsonl",
+  records: new Map(),
+  pending: new Map(),
+};
+const backfills: StoreTable<StoredBackfill> = {
+  fileName: "backfills.jsonl",
+  records: new Map(),
+  pending: new Map(),
+};
+
+let storeLoaded = false;
+let exitHandlerAdded = false;
+let flushTimer: NodeJS.Timeout | null = null;
+
+const getTableFile = (table: StoreTable<unknown>) =>
+  path.join(storeDirectory, table.fileName);
+
+function getPairKey(dex: string, index: number): string {
+  return `${dex}:${index}`;
+}
+
+// Read a table, compacting the file when most of its lines are overwritten records
+function loadTable<T>(table: StoreTable<T>, getKey: (record: T) => string) {
+  const file = getTableFile(table);
+  if (!fs.existsSync(file)) return;
+
+  const content = fs.readFileSync(file, "utf8");
+  // End a line cut short by a crash, so the next append starts a line of its own
+  if (content && !content.endsWith("\n")) fs.appendFileSync(file, "\n");
+
+  const lines = content.split("\n");
+  let lineCount = 0;
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    lineCount++;
+    try {
+      const record: T = JSON.parse(line);
+      table.records.set(getKey(record), record);
+    } catch {
+      // Skip a truncated line; the records before it are still valid
+    }
+  }
+
+  if (
+    lineCount > config.STORE_COMPACT_MIN_LINES &&
+    lineCount > table.records.size * 2
+  ) {
+    const compacted = `${file}.tmp`;
+    fs.writeFileSync(
+      compacted,
+      Array.from(table.records.values())
+        .map((record) => `${JSON.stringify(record)}\n`)
+        .join("")
+    );
+    fs.renameSync(compacted, file);
+  }
+}
+
+function ensureStoreLoaded() {
+  if (storeLoaded || !config.STORE_ENABLED) return;
+  storeLoaded = true;
+
+  try {
+    loadTable(tokens, (token) => token.address);
+    loadTable(pairs, (pair) => getPairKey(pair.dex, pair.index));
+    loadTable(pools, (pool) => pool.address);
+    loadTable(backfills, (backfill) => backfill.dex);
+    console.log(
+      `Pool store: ${tokens.records.size} tokens, ${pairs.records.size} pair addresses, ${pools.records.size} pools`
+    );
+  } catch (error) {
+    console.error(`Error reading the pool store, starting empty: ${error}`);
+  }
+
+  // Pending records are written on exit too; appendFileSync works in exit handlers
+  if (!exitHandlerAdded) {
+    exitHandlerAdded = true;
+    process.on("exit", flushPoolStore);
+  }
+}
+
+function record<T>(table: StoreTable<T>, key: string, value: T) {
+  if (!config.STORE_ENABLED) return;
+  ensureStoreLoaded();
+  table.records.set(key, value);
+  table.pending.set(key, value);
+
+  if (!flushTimer) {
+    flushTimer = setTimeout(flushPoolStore, config.STORE_FLUSH_INTERVAL);
+    flushTimer.unref();
+  }
+}
+
+/**
+ * Append the pending records of every table to their files
+ */
+export function flushPoolStore() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  try {
+    for (const table of [
+      tokens,
+      pairs,
+      pools,
+      backfills,
+    ] as StoreTable<unknown>[]) {
+      if (table.pending.size === 0) continue;
+      fs.mkdirSync(storeDirectory, {recursive: true});
+      fs.appendFileSync(
+        getTableFile(table),
+        Array.from(table.pending.values())
+          .map((value) => `${JSON.stringify(value)}\n`)
+          .join("")
+      );
+      table.pending.clear();
+    }
+  } catch (error) {
+    console.error(`Error writing the pool store: ${error}`);
+  }
+}
+
+/**
+ * Write the pending records and move the store to another directory, which is read
+ * on the next access
+ */
+export function setPoolStoreDirectory(directory: string) {
+  flushPoolStore();
+  for (const table of [
+    tokens,
+    pairs,
+    pools,
+    backfills,
+  ] as StoreTable<unknown>[]) {
+    table.records.clear();
+  }
+  storeDirectory = directory;
+  storeLoaded = false;
+}
+
+/**
+ * Copy the stored token metadata into state.tokenCache
+ */
+export function restoreTokenCache() {
+  ensureStoreLoaded();
+  for (const token of tokens.records.values()) {
+    config.state.tokenCache[token.address] ??= {
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+    };
+  }
+}
+
+export function recordToken(address: string, info: TokenInfo) {
+  // Placeholders of failed calls are fetched again on the next start
+  if (info.symbol === config.UNKNOW_TOKEN_SYMBOL) return;
+  record(tokens, address, {address, ...info});
+}
+
+// Pair address at a factory index, undefined when it hasn't been fetched yet
+export function getStoredPairAddress(
+  dex: string,
+  index: number
+): string | undefined {
+  ensureStoreLoaded();
+  return pairs.records.get(getPairKey(dex, index))?.address;
+}
+
+export function recordPairAddress(dex: string, index: number, address: string) {
+  record(pairs, getPairKey(dex, index), {dex, index, address});
+}
+
+// Pair at a factory index, with its tokens once indexed
+export function getStoredPair(
+  dex: string,
+  index: number
+): StoredPair | undefined {
+  ensureStoreLoaded();
+  return pairs.records.get(getPairKey(dex, index));
+}
+
+export function recordPair(pair: StoredPair) {
+  record(pairs, getPairKey(pair.dex, pair.index), pair);
+}
+
+// Every stored pair of a DEX, in no particular order
+export function getStoredPairs(dex: string): StoredPair[] {
+  ensureStoreLoaded();
+  return Array.from(pairs.records.values()).filter((pair) => pair.dex === dex);
+}
+
+// Backfill progress of a DEX, undefined before its first backfill run
+export function getStoredBackfill(dex: string): StoredBackfill | undefined {
+  ensureStoreLoaded();
+  return backfills.records.get(dex);
+}
+
+export function recordBackfill(backfill: StoredBackfill) {
+  record(backfills, backfill.dex, backfill);
+}
+
+// Last known state of a pool, undefined when it has never been loaded
+export function getStoredPool(address: string): StoredPool | undefined {
+  ensureStoreLoaded();
+  return pools.records.get(address);
+}
+
+export function recordPool(pool: PoolData) {
+  record(pools, pool.address, {
+    address: pool.address,
+    index: pool.index,
+    dex: pool.dex,
+    token0: pool.token0.address,
+    token1: pool.token1.address,
+    feeBps: pool.feeBps,
+    feeSource: pool.feeSource,
+    reserve0Raw: pool.token0.reserveRaw,
+    reserve1Raw: pool.token1.reserveRaw,
+    totalSupply: pool.totalSupply,
+    blockNumber: pool.blockNumber,
+    blockTimestampLast: pool.blockTimestampLast,
+    updated: pool.updated,
+  });
+}
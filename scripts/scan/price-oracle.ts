@@ -0,0 +1,170 @@
+import * as config from "./config";
+import {PoolData, TokenPrice} from "./types";
+import {getOtherToken} from "./cycles";
+import {debugLog} from "./utils-log";
+
+interface PriceCandidate {
+  token: string;
+  price: TokenPrice;
+}
+
+// Binary max-heap on confidence, so the most trusted price of a token is settled first
+class CandidateHeap {
+  private items: PriceCandidate[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: PriceCandidate) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].price.confidence >= items[i].price.confidence) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): PriceCandidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let largest = i;
+        if (
+          left < items.length &&
+          items[left].price.confidence > items[largest].price.confidence
+        )
+          largest = left;
+        if (
+          right < items.length &&
+          items[right].price.confidence > items[largest].price.confidence
+        )
+          largest = right;
+        if (largest === i) break;
+        [items[largest], items[i]] = [items[i], items[largest]];
+        i = largest;
+      }
+    }
+    return top;
+  }
+}
+
+// Reserve of a token in a pool, as a float in token units
+function getReserve(pool: PoolData, token: string): number {
+  return Number(
+    pool.token0.address === token ? pool.token0.reserve : pool.token1.reserve
+  );
+}
+
+// Price of the other token of a pool, derived from a priced token and the reserve ratio
+function derivePrice(
+  pool: PoolData,
+  pricedToken: string,
+  pricedTokenPrice: TokenPrice
+): PriceCandidate | null {
+  const otherToken = getOtherToken(pool, pricedToken);
+  const pricedReserve = getReserve(pool, pricedToken);
+  const otherReserve = getReserve(pool, otherToken);
+  if (!(pricedReserve > 0) || !(otherReserve > 0)) return null;
+
+  // Depth of the pool on the priced side; shallow pools are too easy to move
+  const depthUSD = pricedReserve * pricedTokenPrice.priceUSD;
+  if (depthUSD < config.PRICE_MIN_DEPTH_USD) return null;
+
+  return {
+    token: otherToken,
+    price: {
+      priceUSD: (pricedTokenPrice.priceUSD * pricedReserve) / otherReserve,
+      confidence:
+        pricedTokenPrice.confidence *
+        Math.min(1, depthUSD / config.PRICE_FULL_CONFIDENCE_DEPTH_USD),
+      hops: pricedTokenPrice.hops + 1,
+      poolAddress: pool.address,
+    },
+  };
+}
+
+/**
+ * Derive a USD price for every token reachable from the stablecoins.
+ * Stablecoins are anchored at $1; every other token (WBNB first, as it sits in the deepest
+ * stable pools) is priced through the pool that gives it the highest confidence.
+ * A hop's confidence is its priced-side depth relative to PRICE_FULL_CONFIDENCE_DEPTH_USD,
+ * and confidences multiply along the path, so deep and short paths win.
+ */
+export function updateTokenPrices() {
+  const startTime = Date.now();
+  const prices = new Map<string, TokenPrice>();
+  const candidates = new CandidateHeap();
+
+  for (const stablecoin of config.STABLECOINS) {
+    candidates.push({
+      token: stablecoin,
+      price: {priceUSD: 1, confidence: 1, hops: 0, poolAddress: null},
+    });
+  }
+
+  while (candidates.size > 0) {
+    const {token, price} = candidates.pop()!;
+    if (prices.has(token)) continue;
+    prices.set(token, price);
+
+    for (const poolAddress of config.state.tokenPools.get(token) ?? []) {
+      const pool: PoolData | undefined = config.state.poolsMap.get(poolAddress);
+      if (!pool) continue;
+      const candidate = derivePrice(pool, token, price);
+      if (candidate && !prices.has(candidate.token)) candidates.push(candidate);
+    }
+  }
+
+  config.state.tokenPrices = prices;
+
+  // Pool liquidity depends on the new prices
+  for (const pool of config.state.poolsMap.values()) {
+    pool.liquidityUSD = getPoolLiquidityUSD(pool);
+  }
+
+  debugLog(
+    `Priced ${prices.size} of ${config.state.tokenPools.size} tokens in ${
+      Date.now() - startTime
+    } ms`,
+    2
+  );
+}
+
+// USD price of a token, undefined when it isn't connected to a stablecoin through deep pools
+export function getTokenPrice(token: string): TokenPrice | undefined {
+  if (config.STABLECOIN_SET.has(token)) {
+    return {priceUSD: 1, confidence: 1, hops: 0, poolAddress: null};
+  }
+  return config.state.tokenPrices.get(token);
+}
+
+// Convert a token amount to USD, null when the token has no price
+export function toUSD(token: string, amount: number): number | null {
+  const price = getTokenPrice(token);
+  return price ? amount * price.priceUSD : null;
+}
+
+/**
+ * Total liquidity of a pool in USD.
+ * Both sides are valued when both are priced; a single priced side is doubled
+ * (a V2 pool holds equal value on both sides).
+ */
+export function getPoolLiquidityUSD(pool: PoolData): string {
+  const value0 = toUSD(pool.token0.address, Number(pool.token0.reserve));
+  const value1 = toUSD(pool.token1.address, Number(pool.token1.reserve));
+
+  if (value0 !== null && value1 !== null) return (value0 + value1).toString();
+  if (value0 !== null) return (value0 * 2).toString();
+  if (value1 !== null) return (value1 * 2).toString();
+  return config.UNKNOW_LIQUIDITY_USD;
+}
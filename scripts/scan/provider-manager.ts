@@ -0,0 +1,218 @@
+import {
+  FetchRequest,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcProvider,
+  JsonRpcResult,
+  Network,
+} from "ethers";
+
+export interface RpcOptions {
+  urls: string[]; // Endpoints in order of preference
+  chainId: number;
+  rateLimit: number; // Requests per second per endpoint
+  timeout: number; // ms per request
+  maxAttempts: number; // Endpoints tried per request before giving up
+  backoffBase: number; // First backoff of a failing endpoint (ms), doubled per failure
+  backoffMax: number; // ms
+  batchMaxCount: number; // JSON-RPC requests per HTTP request
+}
+
+interface RpcEndpoint {
+  url: string;
+  provider: JsonRpcProvider;
+  score: number; // 0-1, moving average of successes
+  latency: number; // ms, moving average
+  failures: number; // Consecutive failures
+  backoffUntil: number; // ms timestamp
+  tokens: number; // Request budget left, refilled at rateLimit per second
+  refilledAt: number;
+  requests: number;
+  errors: number;
+}
+
+// Moving average weight of the latest request
+const HEALTH_ALPHA = 0.1;
+
+// JSON-RPC error codes and messages of nodes that throttle us
+const RATE_LIMIT_CODES = new Set([-32005, -32029, 429]);
+const RATE_LIMIT_PATTERN = /rate limit|limit exceeded|too many requests/i;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^attempt, capped at max, minus up to a quarter
+ * @param attempt 0 for the first retry
+ */
+export function getBackoffDelay(
+  attempt: number,
+  base: number,
+  max: number
+): number {
+  const delay = Math.min(max, base * 2 ** attempt);
+  return Math.round(delay * (0.75 + Math.random() * 0.25));
+}
+
+function isRateLimitError(error: JsonRpcError["error"]): boolean {
+  return (
+    RATE_LIMIT_CODES.has(error.code) ||
+    RATE_LIMIT_PATTERN.test(error.message ?? "")
+  );
+}
+
+/**
+ * JSON-RPC provider spread over several endpoints.
+ * Each request goes to the healthiest endpoint with request budget left. Endpoints that
+ * fail (transport errors, timeouts, HTTP errors, rate limit responses) are backed off
+ * exponentially and the request fails over to the next one.
+ * Errors of the call itself (e.g. reverts) are returned as they are.
+ */
+export class RpcProviderManager extends JsonRpcProvider {
+  private endpoints: RpcEndpoint[];
+  private options: RpcOptions;
+
+  constructor(options: RpcOptions) {
+    const network = Network.from(options.chainId);
+    super(options.urls[0], network, {
+      staticNetwork: network,
+      batchMaxCount: options.batchMaxCount,
+    });
+    this.options = options;
+    this.endpoints = options.urls.map((url) => {
+      // Throttled requests fail over instead of waiting in ethers' own retry loop
+      const request = new FetchRequest(url);
+      request.timeout = options.timeout;
+      request.setThrottleParams({maxAttempts: 1});
+      return {
+        url,
+        provider: new JsonRpcProvider(request, network, {
+          staticNetwork: network,
+        }),
+        score: 1,
+        latency: 0,
+        failures: 0,
+        backoffUntil: 0,
+        tokens: options.rateLimit,
+        refilledAt: Date.now(),
+        requests: 0,
+        errors: 0,
+      };
+    });
+  }
+
+  async _send(
+    payload: JsonRpcPayload | Array<JsonRpcPayload>
+  ): Promise<Array<JsonRpcResult>> {
+    const cost = Math.min(
+      Array.isArray(payload) ? payload.length : 1,
+      this.options.rateLimit
+    );
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < this.options.maxAttempts; attempt++) {
+      const endpoint = await this.acquireEndpoint(cost);
+      const startTime = Date.now();
+      try {
+        const results = await endpoint.provider._send(payload);
+        const limited = (results as Array<JsonRpcResult | JsonRpcError>).find(
+          (result): result is JsonRpcError =>
+            "error" in result && isRateLimitError(result.error)
+        );
+        if (limited) {
+          throw new Error(`rate limited: ${limited.error.message}`);
+        }
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        return results;
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  // Wait for an endpoint that isn't backed off and has budget for the request
+  private async acquireEndpoint(cost: number): Promise<RpcEndpoint> {
+    for (;;) {
+      const now = Date.now();
+      const available = this.endpoints.filter(
+        (endpoint) => endpoint.backoffUntil <= now
+      );
+      if (available.length === 0) {
+        await sleep(
+          Math.min(...this.endpoints.map((e) => e.backoffUntil)) - now
+        );
+        continue;
+      }
+
+      // Healthiest first, then fastest
+      available.sort((a, b) => b.score - a.score || a.latency - b.latency);
+      for (const endpoint of available) {
+        this.refill(endpoint, now);
+        if (endpoint.tokens >= cost) {
+          endpoint.tokens -= cost;
+          endpoint.requests++;
+          return endpoint;
+        }
+      }
+
+      // All budgets spent: wait until the healthiest endpoint can afford the request
+      const waitMs =
+        ((cost - available[0].tokens) / this.options.rateLimit) * 1000;
+      await sleep(Math.max(1, Math.ceil(waitMs)));
+    }
+  }
+
+  private refill(endpoint: RpcEndpoint, now: number) {
+    endpoint.tokens = Math.min(
+      this.options.rateLimit,
+      endpoint.tokens +
+        ((now - endpoint.refilledAt) / 1000) * this.options.rateLimit
+    );
+    endpoint.refilledAt = now;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latency: number) {
+    if (endpoint.failures > 0) {
+      console.log(`RPC endpoint ${endpoint.url} recovered`);
+    }
+    endpoint.failures = 0;
+    endpoint.score = endpoint.score * (1 - HEALTH_ALPHA) + HEALTH_ALPHA;
+    endpoint.latency =
+      endpoint.latency === 0
+        ? latency
+        : endpoint.latency * (1 - HEALTH_ALPHA) + latency * HEALTH_ALPHA;
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: unknown) {
+    endpoint.errors++;
+    endpoint.score *= 1 - HEALTH_ALPHA;
+    const delay = getBackoffDelay(
+      endpoint.failures,
+      this.options.backoffBase,
+      this.options.backoffMax
+    );
+    endpoint.failures++;
+    endpoint.backoffUntil = Date.now() + delay;
+    console.error(
+      `RPC endpoint ${endpoint.url} failed (${endpoint.failures} in a row), backing off ${delay} ms: ${error}`
+    );
+  }
+
+  // One line per endpoint: health score, latency, backoff and error counts
+  describeEndpoints(): string[] {
+    const now = Date.now();
+    return this.endpoints.map(
+      (endpoint) =>
+        `${endpoint.url}: score ${endpoint.score.toFixed(2)}, ${Math.round(
+          endpoint.latency
+        )} ms, ${endpoint.errors}/${endpoint.requests} errors${
+          endpoint.backoffUntil > now
+            ? `, backed off for ${endpoint.backoffUntil - now} ms`
+            : ""
+        }`
+    );
+  }
+}
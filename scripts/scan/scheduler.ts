@@ -0,0 +1,244 @@
+import * as config from "./config";
+import {debugLog} from "./utils-log";
+
+export interface JobOptions {
+  name: string;
+  priority: number; // Higher runs first when several jobs are due
+  interval?: number; // ms from the end of a run to the next; without it the job only runs when triggered
+  timeout?: number; // ms before a run is cancelled, SCHEDULER_JOB_TIMEOUT by default
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export interface JobMetrics {
+  runs: number;
+  failures: number;
+  cancelled: number;
+  coalesced: number; // Triggers merged into an already pending run
+  lastDuration: number; // ms
+  totalDuration: number; // ms
+  maxDuration: number; // ms
+  lastStartedAt: number; // ms timestamp, 0 before the first run
+  lastError?: string;
+}
+
+export type SchedulerStatus = "idle" | "running" | "stopping" | "stopped";
+
+interface Job {
+  options: JobOptions;
+  metrics: JobMetrics;
+  dueSince: number | null; // When the job became due, null when it isn't
+  nextRunAt: number | null; // Next interval run
+}
+
+interface RunningJob {
+  job: Job;
+  controller: AbortController;
+  promise: Promise<void>;
+}
+
+const jobs = new Map<string, Job>();
+let status: SchedulerStatus = "idle";
+let current: RunningJob | null = null;
+let wakeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Register a job. Jobs run one at a time, so no job overlaps itself or another one
+ * (e.g. a pool selection can't remove pools in the middle of a scan).
+ */
+export function registerJob(options: JobOptions) {
+  if (jobs.has(options.name)) {
+    throw new Error(`Job ${options.name} is already registered`);
+  }
+  jobs.set(options.name, {
+    options,
+    metrics: {
+      runs: 0,
+      failures: 0,
+      cancelled: 0,
+      coalesced: 0,
+      lastDuration: 0,
+      totalDuration: 0,
+      maxDuration: 0,
+      lastStartedAt: 0,
+    },
+    dueSince: null,
+    nextRunAt:
+      options.interval !== undefined ? Date.now() + options.interval : null,
+  });
+  schedule();
+}
+
+/**
+ * Ask for a run of a job as soon as it's its turn.
+ * Triggers while a run is pending are merged into it, so bursts don't pile up.
+ */
+export function triggerJob(name: string) {
+  const job = jobs.get(name);
+  if (!job) throw new Error(`Unknown job: ${name}`);
+
+  if (job.dueSince !== null) {
+    job.metrics.coalesced++;
+  } else {
+    job.dueSince = Date.now();
+  }
+  schedule();
+}
+
+// Priority of a due job, raised by one level per SCHEDULER_AGING ms of waiting so busy
+// high priority jobs can't starve the others
+function getEffectivePriority(job: Job, now: number): number {
+  return job.options.priority + (now - job.dueSince!) / config.SCHEDULER_AGING;
+}
+
+// Start the most urgent due job, or sleep until the next interval run
+function schedule() {
+  if (status !== "running" || current) return;
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+
+  const now = Date.now();
+  for (const job of jobs.values()) {
+    if (
+      job.dueSince === null &&
+      job.nextRunAt !== null &&
+      job.nextRunAt <= now
+    ) {
+      job.dueSince = job.nextRunAt;
+    }
+  }
+
+  const due = Array.from(jobs.values()).filter((job) => job.dueSince !== null);
+  if (due.length === 0) {
+    const nextRuns = Array.from(jobs.values())
+      .map((job) => job.nextRunAt)
+      .filter((nextRunAt): nextRunAt is number => nextRunAt !== null);
+    if (nextRuns.length > 0) {
+      wakeTimer = setTimeout(
+        schedule,
+        Math.max(0, Math.min(...nextRuns) - now)
+      );
+    }
+    return;
+  }
+
+  due.sort(
+    (a, b) => getEffectivePriority(b, now) - getEffectivePriority(a, now)
+  );
+  runJob(due[0]);
+}
+
+function runJob(job: Job) {
+  const {options, metrics} = job;
+  const controller = new AbortController();
+  const timeout = setTimeout(
+    () => controller.abort(new Error(`${options.name} timed out`)),
+    options.timeout ?? config.SCHEDULER_JOB_TIMEOUT
+  );
+  const startTime = Date.now();
+  job.dueSince = null;
+  job.nextRunAt = null;
+  metrics.lastStartedAt = startTime;
+  debugLog(`Job ${options.name} started`, 2);
+
+  // The slot is freed on abort even if the job ignores the signal (e.g. an RPC call in
+  // flight); whatever it does afterwards is no longer awaited
+  const run = options.run(controller.signal);
+  run.catch(() => {});
+  const aborted = new Promise<never>((_, reject) =>
+    controller.signal.addEventListener(
+      "abort",
+      () => reject(controller.signal.reason),
+      {once: true}
+    )
+  );
+
+  const promise = Promise.race([run, aborted])
+    .then(() => {
+      metrics.runs++;
+    })
+    .catch((error) => {
+      if (controller.signal.aborted) {
+        metrics.cancelled++;
+        console.log(
+          `Job ${options.name} cancelled: ${controller.signal.reason}`
+        );
+      } else {
+        metrics.failures++;
+        metrics.lastError = String(error);
+        console.error(`Job ${options.name} failed:`, error);
+      }
+    })
+    .finally(() => {
+      clearTimeout(timeout);
+      const duration = Date.now() - startTime;
+      metrics.lastDuration = duration;
+      metrics.totalDuration += duration;
+      metrics.maxDuration = Math.max(metrics.maxDuration, duration);
+      debugLog(`Job ${options.name} finished in ${duration} ms`, 2);
+
+      // The interval counts from the end of the run, so a slow job delays itself
+      if (options.interval !== undefined) {
+        job.nextRunAt = Date.now() + options.interval;
+      }
+      current = null;
+      setImmediate(schedule);
+    });
+
+  current = {job, controller, promise};
+}
+
+export function startScheduler() {
+  if (status === "running") return;
+  status = "running";
+  schedule();
+}
+
+/**
+ * Stop starting jobs and cancel the running one
+ * @returns once the running job has settled
+ */
+export async function stopScheduler(reason: string = "scheduler stopped") {
+  if (status !== "running") return;
+  status = "stopping";
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+
+  if (current) {
+    current.controller.abort(new Error(reason));
+    await current.promise;
+  }
+  status = "stopped";
+}
+
+export function getSchedulerStatus(): SchedulerStatus {
+  return status;
+}
+
+export function getJobMetrics(): {[name: string]: JobMetrics} {
+  return Object.fromEntries(
+    Array.from(jobs.entries()).map(([name, job]) => [name, {...job.metrics}])
+  );
+}
+
+// One line per job: runs, failures, cancellations, coalesced triggers and durations
+export function logJobMetrics() {
+  console.log("Scheduler jobs:");
+  for (const [name, metrics] of Object.entries(getJobMetrics())) {
+    const averageDuration =
+      metrics.runs + metrics.failures + metrics.cancelled > 0
+        ? metrics.totalDuration /
+          (metrics.runs + metrics.failures + metrics.cancelled)
+        : 0;
+    console.log(
+      `  ${name}: ${metrics.runs} runs, ${metrics.failures} failed, ${
+        metrics.cancelled
+      } cancelled, ${metrics.coalesced} coalesced, avg ${Math.round(
+        averageDuration
+      )} ms, max ${metrics.maxDuration} ms`
+    );
+  }
+}
@@ -1,17 +1,63 @@
+import {isAddress} from "ethers";
 import * as config from "./config";
-import {
-  ArbitrageOpportunity,
-  ArbitragePathStep,
-  StartArbitrageArgs,
-  TestResult,
-} from "./types";
-import {ethers} from "hardhat";
+import {ArbitrageOpportunity, ArbitrageSimulation} from "./types";
+import {createFlashJob, FLASH_JOB_NAME, FlashJob} from "../flash-job";
 import {debugLog} from "./utils-log";
+import {fromRawAmount} from "./utils-amm";
+import {isSimulationPassed, simulateArbitrage} from "./simulation";
+import {
+  claimOpportunity,
+  getExpiryBlock,
+  recordSentJobs,
+  releaseOpportunity,
+} from "./opportunity-dedup";
+import {getTradeSizes, TradeSize} from "./sizing";
 
-const JOB_NAME = "flash"; // Job name for BullMQ queue
+/**
+ * Problems that keep an opportunity from being sent, empty when there are none.
+ * A zero profit is a value like any other; only missing or non-finite numbers are problems.
+ */
+export function getOpportunityProblems(
+  opportunity: ArbitrageOpportunity
+): string[] {
+  const problems: string[] = [];
+  if (!opportunity.cycleId) problems.push("cycleId is missing");
+  if (!isAddress(opportunity.startToken)) {
+    problems.push("startToken is not an address");
+  }
+  // FlashSwap.start executes exactly three trades
+  if (!Array.isArray(opportunity.path) || opportunity.path.length !== 3) {
+    problems.push("path is not 3 hops");
+  }
+  for (const field of [
+    "expectedProfit",
+    "profitPercent",
+    "netProfit",
+    "bestAmount",
+  ] as const) {
+    if (!Number.isFinite(opportunity[field])) {
+      problems.push(`${field} is not a number`);
+    }
+  }
+  if (
+    !Array.isArray(opportunity.testAmounts) ||
+    !Array.isArray(opportunity.testResults)
+  ) {
+    problems.push("test amounts or results are missing");
+  }
+  // TX_MIN_BEST_AMOUNT is the smallest amount worth sending
+  if (opportunity.bestAmount < config.TX_MIN_BEST_AMOUNT) {
+    problems.push(
+      `bestAmount ${opportunity.bestAmount} is below TX_MIN_BEST_AMOUNT (${config.TX_MIN_BEST_AMOUNT})`
+    );
+  }
+  return problems;
+}
 
 /**
- * Send an arbitrage opportunity by adding it to the BullMQ queue
+ * Send an arbitrage opportunity by adding it to the BullMQ queue.
+ * The borrow amount comes from the sizing engine: the best sizes are simulated in turn
+ * and the first one FlashSwap.start doesn't revert on is queued.
  * @param opportunityData The arbitrage opportunity data
  * @returns The job ID if successful
  */
@@ -19,24 +65,23 @@ export async function sendArbitrage(
   opportunityData: ArbitrageOpportunity,
   isTesting = false
 ): Promise<string | undefined> {
+  let claimed = false;
   try {
-    if (isTesting && JOB_NAME === "flash") {
+    if (isTesting) {
       throw new Error("Testing mode is not allowed for flash jobs");
     }
-    // Validate opportunity data
-    if (
-      !opportunityData ||
-      !opportunityData.startToken ||
-      !opportunityData.bestAmount ||
-      opportunityData.bestAmount <= config.TX_MIN_BEST_AMOUNT
-    ) {
-      throw new Error("Invalid opportunity data");
+    const problems = getOpportunityProblems(opportunityData);
+    if (problems.length > 0) {
+      throw new Error(`Invalid opportunity data: ${problems.join(", ")}`);
     }
 
-    // Get tokens from the path
-    if (!opportunityData.path || opportunityData.path.length < 2) {
-      throw new Error("Invalid path data");
+    // Scans re-detect the same cycle until its reserves change
+    const duplicateReason = claimOpportunity(opportunityData);
+    if (duplicateReason) {
+      debugLog(`Skipping ${opportunityData.cycleId}: ${duplicateReason}`, 2);
+      return;
     }
+    claimed = true;
 
     // Extract tokens from path
     const borrowToken = opportunityData.startToken;
@@ -51,201 +96,100 @@ export async function sendArbitrage(
     const intermediateTokenSymbol = opportunityData.path[0].tokenOutSymbol;
     const finalTokenSymbol = opportunityData.path[1].tokenOutSymbol;
 
-    // Get liquidity data for slippage calculation
-    const poolLiquidities = opportunityData.path.map((step) => {
-      const pool = config.state.poolsMap.get(step.poolAddress);
-      return pool ? Number(pool.liquidityUSD) : 0;
-    });
-
-    // Calculate adaptive slippage
-    const slippages = calculateAdaptiveSlippageWithLiquidity(
-      opportunityData.bestAmount,
-      poolLiquidities
-    );
+    const sizes = getTradeSizes(opportunityData);
+    if (sizes.length === 0) {
+      debugLog(
+        `No borrow amount of ${opportunityData.cycleId} covers the gas cost within the risk cap`,
+        1
+      );
+      return;
+    }
 
-    // Convert amount to appropriate string format for blockchain
-    const borrowAmountStr = ethers
-      .parseUnits(opportunityData.bestAmount.toString(), borrowTokenDecimals)
-      .toString();
+    // Jobs FlashSwap.start would revert on only waste gas
+    let jobPayload: FlashJob | null = null;
+    let size: TradeSize | null = null;
+    for (const candidate of sizes.slice(0, config.SIZING_MAX_SIMULATIONS)) {
+      const amount = fromRawAmount(candidate.borrowAmount, borrowTokenDecimals);
+
+      // Create job payload, checked against the job schema
+      const payload = createFlashJob({
+        token0: borrowToken,
+        borrowAmount: candidate.borrowAmount,
+        token1: intermediateToken,
+        token2: finalToken,
+        deadLineMin: 2,
+        slippages: candidate.slippages,
+        minAmountsOut: candidate.minAmountsOut,
+        expiryBlock: getExpiryBlock(opportunityData),
+        metadata: {
+          cycleId: opportunityData.cycleId,
+          detectionBlock: opportunityData.blockNumber,
+          expectedProfit: candidate.profit,
+          createdAt: Date.now(),
+        },
+      });
 
-    // Create job payload
-    const jobPayload: StartArbitrageArgs = {
-      token0: borrowToken,
-      borrowAmount: borrowAmountStr,
-      token1: intermediateToken,
-      token2: finalToken,
-      deadLineMin: 2,
-      slippages: slippages,
-    };
+      const simulation = await simulateArbitrage(payload);
+      if (isSimulationPassed(simulation)) {
+        payload.simulation = simulation;
+        jobPayload = payload;
+        size = candidate;
+        break;
+      }
+      logDroppedJob(simulation, `${amount} ${borrowTokenSymbol}`);
+    }
+    if (!jobPayload || !size) return;
 
+    const amount = fromRawAmount(size.borrowAmount, borrowTokenDecimals);
+    const expectedProfit = fromRawAmount(size.profit, borrowTokenDecimals);
+    const profitPercent = expectedProfit / amount;
     debugLog(`Sending arbitrage execution job to queue:`, 1, {
       path: `${borrowTokenSymbol} -> ${intermediateTokenSymbol} -> ${finalTokenSymbol} -> ${borrowTokenSymbol}`,
-      amount: opportunityData.bestAmount,
-      expectedProfit: opportunityData.expectedProfit,
-      profitPercent: `${(opportunityData.profitPercent * 100).toFixed(2)}%`,
+      amount,
+      capped: size.capped,
+      expectedProfit,
+      netProfit: size.netProfit,
+      profitPercent: `${(profitPercent * 100).toFixed(2)}%`,
+      priceImpacts: size.hops.map(
+        (hop) => `${(hop.priceImpact * 100).toFixed(3)}%`
+      ),
+      drifts: size.hops.map((hop) => `${(hop.drift * 100).toFixed(3)}%`),
+      slippages: jobPayload.slippages,
     });
 
     // Add job to queue with priority based on profit
-    const job = await config.arbitrageQueue.add(JOB_NAME, jobPayload, {
-      priority: Math.ceil(-opportunityData.profitPercent * 10000),
+    const job = await config.arbitrageQueue.add(FLASH_JOB_NAME, jobPayload, {
+      priority: Math.ceil(-profitPercent * 10000),
       attempts: 1,
     });
 
     console.log(
-      `Arbitrage job queued with ID: ${job.id}, expected profit: ${
-        opportunityData.expectedProfit
-      } ${borrowTokenSymbol} (${(opportunityData.profitPercent * 100).toFixed(
-        2
-      )}%)`
+      `Arbitrage job queued with ID: ${
+        job.id
+      }, amount: ${amount} ${borrowTokenSymbol}, expected profit: ${expectedProfit} ${borrowTokenSymbol} (${(
+        profitPercent * 100
+      ).toFixed(2)}%)`
     );
 
-    // check if the test amounts profit is increasing
-    // if so, send another job with a large amount
-    // this is the key to make the big profit!!! bless me!!!
-    await sendAnotherArbitrage(
-      jobPayload,
-      opportunityData.path,
-      opportunityData.testResults,
-      borrowTokenDecimals,
-      isTesting
-    );
+    await recordSentJobs(opportunityData, job.id ? [job.id] : []);
     return job.id || "";
   } catch (error: unknown) {
     console.error(`Failed to queue arbitrage job:`, error);
+  } finally {
+    if (claimed) releaseOpportunity(opportunityData);
   }
 }
 
-async function sendAnotherArbitrage(
-  jobPayload: StartArbitrageArgs,
-  path: ArbitragePathStep[],
-  testResults: TestResult[],
-  borrowTokenDecimals: number = 18,
-  isTesting = false
-) {
-  try {
-    if (isTesting && JOB_NAME === "flash") {
-      throw new Error("Testing mode is not allowed for flash jobs");
-    }
-    if (testResults.length < 3) return;
-    let isContinue = true;
-    testResults.sort((a, b) => a.amount - b.amount);
-    for (let i = 1; i < testResults.length; i++) {
-      if (testResults[i].profitPercent < testResults[i - 1].profitPercent) {
-        isContinue = false;
-        break;
-      }
-    }
-    if (isContinue) {
-      console.log("\n🚀 Scaling opportunity found - submitting larger trade!");
-      debugLog("Scaling opportunity found - submitting larger trade!", 1);
-      const poolLiquidities = path.map((step) => {
-        const pool = config.state.poolsMap.get(step.poolAddress);
-        return pool
-          ? Number(
-              pool.liquidityUSD === config.UNKNOW_LIQUIDITY_USD
-                ? "0"
-                : pool.liquidityUSD
-            )
-          : 0;
-      });
-
-      // Calculate safe amount
-      const borrowAmountStr = isTesting
-        ? ethers.parseUnits("0.01", borrowTokenDecimals).toString()
-        : calculateSafeTradeAmount(poolLiquidities, borrowTokenDecimals);
-
-      // Set more conservative slippage for larger amounts
-      jobPayload.borrowAmount = borrowAmountStr;
-      jobPayload.slippages = isTesting ? [997, 997, 997] : [990, 990, 990]; // 1% slippage
-
-      // Queue the job
-      const job = await config.arbitrageQueue.add(JOB_NAME, jobPayload, {
-        priority: Math.ceil(-100 * 10000),
-        attempts: 1,
-      });
-
-      console.log(
-        `Large arbitrage job queued with ID: ${
-          job.id
-        }, amount: ${ethers.formatUnits(borrowAmountStr, borrowTokenDecimals)}`
-      );
-    } else {
-      debugLog(
-        `Not scaling: isContinue=${isContinue}, testResults.length=${testResults.length}`,
-        2
-      );
-    }
-  } catch (error) {
-    console.error(`Failed to queue arbitrage job:`, error);
-  }
-}
-
-function calculateSafeTradeAmount(
-  poolLiquidities: number[],
-  tokenDecimals: number
-): string {
-  // Filter out invalid liquidities and convert to numbers
-  const validLiquidities = poolLiquidities.filter((liq) => liq > 0);
-
-  if (validLiquidities.length === 0) {
-    return ethers.parseUnits("100000", tokenDecimals).toString();
-  }
-
-  // Find minimum liquidity across all pools in the path
-  const minLiquidity = Math.min(...validLiquidities);
-
-  // Calculate safe percentage based on pool size
-  let safePercentage;
-  if (minLiquidity > 1000000) {
-    // >$1M liquidity
-    safePercentage = 0.003; // 0.3%
-  } else if (minLiquidity > 100000) {
-    // >$100K liquidity
-    safePercentage = 0.008; // 0.8%
-  } else {
-    safePercentage = 0.015; // 1.5%
-  }
-
-  // Calculate safe amount with an absolute cap
-  const safeLiquidityAmount = minLiquidity * safePercentage;
-  const maxAmount = Math.min(safeLiquidityAmount, 100000);
-
-  // Round to a clean number for readability
-  const roundedAmount = Math.floor(maxAmount / 100) * 100;
-
-  // Return as string with proper decimals
-  return ethers.parseUnits(roundedAmount.toString(), tokenDecimals).toString();
-}
-
-/**
- * Calculate adaptive slippage values based on pool liquidity and amount
- */
-function calculateAdaptiveSlippageWithLiquidity(
-  amount: number,
-  poolLiquidities: number[]
-): number[] {
-  // Default slippage values (0.3% fees accounted for)
-  const defaultSlippage = 997; // 0.3% fee (1000 - 3)
-
-  // If we have liquidity information, adjust slippage based on trade size
-  if (poolLiquidities && poolLiquidities.length > 0) {
-    return poolLiquidities.map((liquidity) => {
-      // If no liquidity info, use default
-      if (!liquidity || liquidity <= 0) return defaultSlippage;
-
-      // Calculate the percentage of liquidity being used
-      const percentOfLiquidity = (amount / liquidity) * 100;
-
-      // Adjust slippage: higher percentage = lower slippage value (more conservative)
-      if (percentOfLiquidity > 5) return 990; // 1%
-      if (percentOfLiquidity > 2) return 992; // 0.8%
-      if (percentOfLiquidity > 1) return 995; // 0.5%
-      return defaultSlippage; // 0.3%
-    });
-  }
-
-  // If no liquidity info, use standard slippage values for each hop
-  return [defaultSlippage, defaultSlippage, defaultSlippage];
+function logDroppedJob(simulation: ArbitrageSimulation, label: string) {
+  console.log(
+    `Arbitrage job dropped (${label}): simulation ${
+      simulation.status
+    } at block ${simulation.blockNumber}${
+      simulation.revertReason
+        ? `, ${simulation.revertReason}`
+        : `, profit ${simulation.profit}`
+    }`
+  );
 }
 
 async function test_main() {
@@ -254,10 +198,14 @@ async function test_main() {
   // Create mock opportunities with realistic data that match your interface
   // the test data is on bsc_testnet
   const mockOpportunity: ArbitrageOpportunity = {
+    cycleId: "mock-cycle",
+    blockNumber: 0,
     startToken: "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7",
     path: [
       {
         poolAddress: "0x16b9a82891338f9bA80E2D6970FddA79D1eb0daE", // wrong pool address
+        dex: "pancakeswap-v2",
+        feeBps: 25,
         tokenIn: "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7",
         tokenOut: "0xFa60D973F7642B748046464e165A65B7323b0DEE",
         tokenInSymbol: "USDT",
@@ -267,6 +215,8 @@ async function test_main() {
       },
       {
         poolAddress: "0x58F876857a02D6762E0101bb5C46A8c1ED44Dc16", // wrong pool address
+        dex: "pancakeswap-v2",
+        feeBps: 25,
         tokenIn: "0xFa60D973F7642B748046464e165A65B7323b0DEE",
         tokenOut: "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684",
         tokenInSymbol: "WBNB",
@@ -276,6 +226,8 @@ async function test_main() {
       },
       {
         poolAddress: "0x7EFaEf62fDdCCa950418312c6C91Aef321375A00", // BUSD-USDT pool
+        dex: "pancakeswap-v2",
+        feeBps: 25,
         tokenIn: "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684",
         tokenOut: "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7",
         tokenInSymbol: "BUSD",
@@ -0,0 +1,516 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import {isAddress} from "ethers";
+
+// A setting parses a value from YAML (already typed) or from an env var / CLI flag (a string)
+interface Setting<T> {
+  default: T;
+  parse: (value: unknown) => T; // Throws a message describing the expected value
+}
+
+type SettingValue<S> = S extends Setting<infer T> ? T : never;
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+function checkNumber(value: number, rule: NumberRule): number {
+  if (!Number.isFinite(value)) throw "a number";
+  if (rule.integer && !Number.isInteger(value)) throw "an integer";
+  if (rule.min !== undefined && value < rule.min) throw `>= ${rule.min}`;
+  if (rule.max !== undefined && value > rule.max) throw `<= ${rule.max}`;
+  return value;
+}
+
+function toNumber(value: unknown, rule: NumberRule): number {
+  if (typeof value === "string" && value.trim()) {
+    return checkNumber(Number(value), rule);
+  }
+  if (typeof value !== "number") throw "a number";
+  return checkNumber(value, rule);
+}
+
+function toAddress(value: unknown): string {
+  if (typeof value !== "string" || !isAddress(value)) throw "an address";
+  return value;
+}
+
+function toList(value: unknown): unknown[] {
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item);
+  }
+  if (!Array.isArray(value)) throw "a list";
+  return value;
+}
+
+// Objects come as JSON from env vars and CLI flags
+function toRecord(value: unknown): {[key: string]: unknown} {
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw "a JSON object";
+    }
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw "an object";
+  }
+  return value as {[key: string]: unknown};
+}
+
+function bool(defaultValue: boolean): Setting<boolean> {
+  return {
+    default: defaultValue,
+    parse: (value) => {
+      if (typeof value === "boolean") return value;
+      if (typeof value === "string") {
+        if (/^(true|1|yes)$/i.test(value)) return true;
+        if (/^(false|0|no)$/i.test(value)) return false;
+      }
+      throw "true or false";
+    },
+  };
+}
+
+function num(defaultValue: number, rule: NumberRule = {}): Setting<number> {
+  return {default: defaultValue, parse: (value) => toNumber(value, rule)};
+}
+
+function int(defaultValue: number, rule: NumberRule = {min: 0}) {
+  return num(defaultValue, {...rule, integer: true});
+}
+
+// Durations and intervals, in ms
+function ms(defaultValue: number) {
+  return int(defaultValue, {min: 1});
+}
+
+function big(defaultValue: bigint, min = 1n): Setting<bigint> {
+  return {
+    default: defaultValue,
+    parse: (value) => {
+      if (
+        !(typeof value === "number" && Number.isInteger(value)) &&
+        !(typeof value === "string" && /^\d+$/.test(value.trim()))
+      ) {
+        throw "an integer";
+      }
+      const parsed = BigInt(value);
+      if (parsed < min) throw `>= ${min}`;
+      return parsed;
+    },
+  };
+}
+
+function str(defaultValue: string, values?: string[]): Setting<string> {
+  return {
+    default: defaultValue,
+    parse: (value) => {
+      if (typeof value !== "string") throw "a string";
+      if (values && !values.includes(value)) {
+        throw `one of ${values.map((v) => `"${v}"`).join(", ")}`;
+      }
+      return value;
+    },
+  };
+}
+
+// An address, or "" when unset
+function optionalAddress(): Setting<string> {
+  return {
+    default: "",
+    parse: (value) => (value === "" ? "" : toAddress(value)),
+  };
+}
+
+function strings(
+  defaultValue: string[],
+  item: (value: unknown) => string = (value) => {
+    if (typeof value !== "string") throw "a list of strings";
+    return value;
+  }
+): Setting<string[]> {
+  return {
+    default: defaultValue,
+    parse: (value) => toList(value).map(item),
+  };
+}
+
+function numbers(defaultValue: number[], rule: NumberRule): Setting<number[]> {
+  return {
+    default: defaultValue,
+    parse: (value) => {
+      const list = toList(value).map((item) => toNumber(item, rule));
+      if (list.length === 0) throw "a non-empty list of numbers";
+      return list;
+    },
+  };
+}
+
+// Numbers under a fixed set of keys, e.g. score weights
+function weights<K extends string>(defaultValue: {[key in K]: number}) {
+  return {
+    default: defaultValue,
+    parse: (value: unknown) => {
+      const record = toRecord(value);
+      const keys = Object.keys(defaultValue);
+      if (
+        Object.keys(record).length !== keys.length ||
+        !keys.every((key) => key in record)
+      ) {
+        throw `an object with the keys ${keys.join(", ")}`;
+      }
+      return Object.fromEntries(
+        keys.map((key) => [key, toNumber(record[key], {min: 0})])
+      ) as {[key in K]: number};
+    },
+  };
+}
+
+// Token addresses by symbol
+function tokens(defaultValue: {[symbol: string]: string}) {
+  return {
+    default: defaultValue,
+    parse: (value: unknown) => {
+      const record = toRecord(value);
+      return Object.fromEntries(
+        Object.entries(record).map(([symbol, address]) => [
+          symbol,
+          toAddress(address),
+        ])
+      ) as {[symbol: string]: string};
+    },
+  };
+}
+
+// Every setting of the scanner with its default; config.ts exports them under the same names
+export const SETTINGS_SCHEMA = {
+  DEBUG: bool(true),
+  DEBUG_LEVEL: int(1, {min: 0, max: 2}),
+  DEBUG_TO_FILE: bool(true),
+  DEBUG_DISABLE_PRIORITY: bool(false),
+  DEBUG_DISABLE_RANDOM_POOLS: bool(false),
+  DEBUG_DELETE_LOG_FILE: bool(false),
+
+  PROFIT_CURVE_FACTORS: numbers([0.25, 0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 2], {
+    min: 0,
+  }),
+  OPTIMIZER_MAX_ITERATIONS: int(200, {min: 1}),
+  TX_MIN_BEST_AMOUNT: num(250, {min: 0}),
+  OPPORTUNITY_TTL_BLOCKS: int(20, {min: 1}),
+  OPPORTUNITY_REPLACE_IMPROVEMENT: num(0.05, {min: 0}),
+  SIZING_MAX_RESERVE_FRACTION: num(0.02, {min: 0, max: 1}),
+  SIZING_MAX_BORROW_USD: num(100000, {min: 0}),
+  SIZING_BACKOFF_FACTORS: numbers([1, 0.75, 0.5, 0.25], {min: 0, max: 1}),
+  SIZING_MAX_SIMULATIONS: int(3, {min: 1}),
+  SLIPPAGE_INCLUSION_BLOCKS: int(2, {min: 1}),
+  SLIPPAGE_DRIFT_SIGMAS: num(2, {min: 0}),
+  SLIPPAGE_DEFAULT_DRIFT: num(0.003, {min: 0, max: 1}),
+  SLIPPAGE_MIN_SAMPLES: int(5),
+  GAS_PRICE: num(6, {min: 0}),
+  MAX_PROFIT_HISTORY_ITEMS: int(100),
+
+  // Empty lists and objects keep the ones of the chain profile
+  ENABLED_DEXES: strings([]),
+
+  FEE_PROBE_ENABLED: bool(true),
+  FEE_PROBE_FRACTION: big(1000n),
+
+  TOKEN_SAFETY_ENABLED: bool(true),
+  TOKEN_SAFETY_MODE: str("", ["", "stateOverride", "hardhat"]),
+  TOKEN_SAFETY_TTL: ms(1000 * 60 * 60 * 24),
+  TOKEN_PROBE_AMOUNT_BNB: {
+    default: "0.05",
+    parse: (value: unknown) => {
+      const amount = String(value);
+      if (!/^\d+(\.\d+)?$/.test(amount)) throw "a decimal amount";
+      return amount;
+    },
+  },
+  TOKEN_PROBE_CONCURRENCY: int(10, {min: 1}),
+  TOKEN_TAX_TOLERANCE_BPS: int(5),
+
+  DEFAULT_GAS_USED: int(300000, {min: 1}),
+  GAS_PRICE_TTL: ms(1000 * 15),
+  GAS_CALIBRATION_INTERVAL: ms(1000 * 60 * 30),
+  GAS_HISTORY_BLOCKS: int(200000),
+  GAS_HISTORY_BLOCK_RANGE: int(5000, {min: 1}),
+  GAS_HISTORY_RECEIPTS: int(20, {min: 1}),
+  FLASHSWAP_ADDRESS: optionalAddress(),
+  FLASHSWAP_OWNER: optionalAddress(),
+  SIMULATION_ENABLED: bool(true),
+
+  RPC_URLS: strings([], (value) => {
+    if (typeof value !== "string" || !/^(https?|wss?):\/\//.test(value)) {
+      throw "a list of http(s) or ws(s) URLs";
+    }
+    return value;
+  }),
+  RPC_RATE_LIMIT: num(8, {min: 0.1}),
+  RPC_TIMEOUT: ms(1000 * 30),
+  RPC_MAX_ATTEMPTS: int(6, {min: 1}),
+  RPC_BACKOFF_BASE: ms(500),
+  RPC_BACKOFF_MAX: ms(1000 * 60),
+  RPC_BATCH_MAX_COUNT: int(10, {min: 1}),
+  INITIAL_LOAD_MAX_ATTEMPTS: int(5, {min: 1}),
+
+  STORE_ENABLED: bool(true),
+  STORE_FLUSH_INTERVAL: ms(1000 * 10),
+  STORE_COMPACT_MIN_LINES: int(10000),
+
+  INDEXER_ENABLED: bool(true),
+  INDEXER_BACKFILL_BATCH: int(500, {min: 1}),
+  INDEXER_BACKFILL_INTERVAL: ms(1000 * 2),
+  INDEXER_BACKFILL_LOG_RANGES: int(10, {min: 1}),
+  INDEXER_POLL_INTERVAL: ms(1000 * 15),
+  INDEXER_MAX_BLOCK_RANGE: int(2000, {min: 1}),
+
+  MIN_CYCLE_HOPS: int(2, {min: 2}),
+  MAX_CYCLE_HOPS: int(4, {min: 2}),
+  MAX_SNAPSHOT_BLOCK_SPREAD: int(2),
+
+  SCHEDULER_JOB_TIMEOUT: ms(1000 * 60 * 10),
+  SCHEDULER_AGING: ms(1000 * 10),
+  SCHEDULER_METRICS_INTERVAL: ms(1000 * 60 * 10),
+  SHUTDOWN_TIMEOUT: ms(1000 * 30),
+
+  FULL_REFRESH_INTERVAL: ms(1000 * 60 * 5),
+  PRIORITY_REFRESH_INTERVAL: ms(1000 * 30),
+  RESET_INTERVAL: ms(1000 * 60 * 15),
+
+  SYNC_EVENTS_ENABLED: bool(true),
+  SYNC_WS_URL: str(""),
+  SYNC_POLL_INTERVAL: ms(1000 * 3),
+  SYNC_MAX_BLOCK_RANGE: int(50, {min: 1}),
+  SYNC_ADDRESS_CHUNK: int(500, {min: 1}),
+
+  POOL_SELECTION_BUDGET: int(300),
+  POOL_SELECTION_INTERVAL: ms(1000 * 60 * 5),
+  POOL_REPLACE_FRACTION: num(0.1, {min: 0, max: 1}),
+  POOL_REPLACE_MARGIN: num(0.05, {min: 0}),
+  POOL_SCAN_BATCH: int(20000, {min: 1}),
+  POOL_CANDIDATE_LIMIT: int(5000, {min: 1}),
+  POOL_SCORE_WEIGHTS: weights({
+    liquidity: 0.5,
+    activity: 0.3,
+    connectivity: 0.2,
+  }),
+  POOL_ACTIVITY_WINDOW: int(60 * 60 * 24, {min: 1}), // Seconds
+  POOL_ACTIVITY_FULL_SYNCS: num(50, {min: 1}),
+  POOL_CONNECTIVITY_FULL: num(3, {min: 1}),
+  POOL_PROFIT_BONUS: num(0.5, {min: 0}),
+
+  POOLS_TO_SAMPLE: int(100),
+  POOLS_NEWLY_ADDED: int(50),
+  RANDOM_START: int(0),
+  RANDOM_END: int(10000),
+
+  MULTICALL_CHUNK_SIZE: int(400, {min: 1}),
+
+  QUEUE_NAME: str("flash-queue"),
+  REDIS_HOST: str("localhost"),
+  REDIS_PORT: int(6379, {min: 1, max: 65535}),
+  EXECUTOR_CONFIRMATIONS: int(1, {min: 1}),
+
+  MIN_PROFIT_THRESHOLD: num(0.01, {min: 0}),
+  MIN_LIQUIDITY_USD: num(50000, {min: 0}),
+
+  PRICE_MIN_DEPTH_USD: num(1000, {min: 0}),
+  PRICE_FULL_CONFIDENCE_DEPTH_USD: num(500000, {min: 1}),
+
+  PRIORITY_TOKENS: tokens({}),
+  STABLECOINS: strings([], toAddress),
+};
+
+export type SettingKey = keyof typeof SETTINGS_SCHEMA;
+
+export type ScannerSettings = {
+  [K in SettingKey]: SettingValue<(typeof SETTINGS_SCHEMA)[K]>;
+};
+
+export interface ResolvedSettings {
+  settings: ScannerSettings;
+  sources: {[K in SettingKey]: string}; // Where each value came from, "default" when unset
+}
+
+// Env vars of earlier versions, still honoured under the SCAN_ prefixed ones
+const LEGACY_ENV_VARS: {[name: string]: SettingKey[]} = {
+  percent: ["MIN_PROFIT_THRESHOLD"],
+  pools: ["POOL_SELECTION_BUDGET", "POOLS_TO_SAMPLE"],
+  refresh_interval: ["FULL_REFRESH_INTERVAL"],
+  RPC_URLS: ["RPC_URLS"],
+  SYNC_WS_URL: ["SYNC_WS_URL"],
+  TOKEN_SAFETY_MODE: ["TOKEN_SAFETY_MODE"],
+  FLASHSWAP_ADDRESS: ["FLASHSWAP_ADDRESS"],
+  FLASHSWAP_OWNER: ["FLASHSWAP_OWNER"],
+};
+
+const ENV_PREFIX = "SCAN_";
+const CONFIG_ENV_VAR = "SCAN_CONFIG";
+const CONFIG_FLAG = "config";
+const DEFAULT_CONFIG_FILE = path.join(__dirname, "../../scan.config.yaml");
+
+// min-profit-threshold, min_profit_threshold and MIN_PROFIT_THRESHOLD name the same setting
+function toSettingKey(name: string): SettingKey | undefined {
+  const key = name.toUpperCase().replace(/-/g, "_");
+  return key in SETTINGS_SCHEMA ? (key as SettingKey) : undefined;
+}
+
+function toFlag(key: string): string {
+  return `--${key.toLowerCase().replace(/_/g, "-")}`;
+}
+
+// Settings whose name is closest to an unknown one, for the error message
+function suggestKeys(name: string): string {
+  const words = name.toUpperCase().replace(/-/g, "_").split("_");
+  const matches = Object.keys(SETTINGS_SCHEMA).filter((key) =>
+    words.every((word) => key.includes(word))
+  );
+  return matches.length > 0 && matches.length <= 3
+    ? ` (did you mean ${matches.join(", ")}?)`
+    : "";
+}
+
+// Split CLI arguments into --key value / --key=value / --flag / --no-flag pairs
+function parseArgv(argv: string[], errors: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      errors.push(`CLI: unexpected argument "${arg}"`);
+      continue;
+    }
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inlineValue !== undefined) {
+      pairs.push([name, inlineValue]);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      pairs.push([name, argv[++i]]);
+    } else if (name.startsWith("no-")) {
+      pairs.push([name.slice(3), "false"]);
+    } else {
+      pairs.push([name, "true"]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Resolve the scanner settings from, in increasing precedence: the defaults of
+ * SETTINGS_SCHEMA, a YAML file (--config, SCAN_CONFIG or scan.config.yaml), env vars
+ * (SCAN_<KEY>) and CLI flags (--<key>).
+ * @throws An error listing every unknown key and invalid value
+ */
+export function loadSettings(
+  argv: string[],
+  env: NodeJS.ProcessEnv
+): ResolvedSettings {
+  const settings = {} as {[key: string]: unknown};
+  const sources = {} as {[key: string]: string};
+  for (const [key, setting] of Object.entries(SETTINGS_SCHEMA)) {
+    settings[key] = setting.default;
+    sources[key] = "default";
+  }
+
+  const errors: string[] = [];
+  const apply = (name: string, value: unknown, source: string) => {
+    const key = toSettingKey(name);
+    if (!key) {
+      errors.push(`${source}: unknown setting "${name}"${suggestKeys(name)}`);
+      return;
+    }
+    try {
+      settings[key] = SETTINGS_SCHEMA[key].parse(value);
+      sources[key] = source;
+    } catch (expected) {
+      errors.push(
+        `${source}: invalid ${key} ${JSON.stringify(
+          value
+        )}, expected ${expected}`
+      );
+    }
+  };
+
+  const cliArgs = parseArgv(argv, errors);
+  const configFlag = cliArgs.find(([name]) => name === CONFIG_FLAG);
+  const configFile =
+    configFlag?.[1] ??
+    env[CONFIG_ENV_VAR] ??
+    (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+
+  if (configFile) {
+    try {
+      const document = yaml.load(fs.readFileSync(configFile, "utf8")) ?? {};
+      if (typeof document !== "object" || Array.isArray(document)) {
+        errors.push(`${configFile}: expected a mapping of settings`);
+      } else {
+        for (const [name, value] of Object.entries(document)) {
+          apply(name, value, path.basename(configFile));
+        }
+      }
+    } catch (error) {
+      errors.push(
+        `${configFile}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  for (const [name, keys] of Object.entries(LEGACY_ENV_VARS)) {
+    if (env[name] === undefined) continue;
+    for (const key of keys) apply(key, env[name], `env ${name}`);
+  }
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || name === CONFIG_ENV_VAR) continue;
+    apply(name.slice(ENV_PREFIX.length), value, `env ${name}`);
+  }
+
+  for (const [name, value] of cliArgs) {
+    if (name === CONFIG_FLAG) continue;
+    apply(name, value, `CLI ${toFlag(name)}`);
+  }
+
+  // Settings that only make sense together
+  const resolved = settings as ScannerSettings;
+  if (resolved.MIN_CYCLE_HOPS > resolved.MAX_CYCLE_HOPS) {
+    errors.push("MIN_CYCLE_HOPS is greater than MAX_CYCLE_HOPS");
+  }
+  if (resolved.RANDOM_START > resolved.RANDOM_END) {
+    errors.push("RANDOM_START is greater than RANDOM_END");
+  }
+  // The router only verifies the optimum, the curve point at factor 1
+  if (!resolved.PROFIT_CURVE_FACTORS.includes(1)) {
+    errors.push("PROFIT_CURVE_FACTORS must include 1 (the optimal amount)");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid scanner configuration:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+  return {settings: resolved, sources: sources as ResolvedSettings["sources"]};
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string") return value === "" ? '""' : value;
+  return JSON.stringify(value);
+}
+
+/**
+ * One line per setting: name, value and where it came from when it isn't the default
+ */
+export function describeSettings({settings, sources}: ResolvedSettings) {
+  return (Object.keys(settings) as SettingKey[]).map(
+    (key) =>
+      `${key} = ${formatValue(settings[key])}${
+        sources[key] === "default" ? "" : ` (${sources[key]})`
+      }`
+  );
+}
@@ -0,0 +1,127 @@
+import {Contract, isError} from "ethers";
+import * as config from "./config";
+import {ArbitrageSimulation, StartArbitrageArgs} from "./types";
+import {getPrimaryDex} from "./dex-registry";
+import {getFlashSwapContract} from "./gas-model";
+import {getFlashLoanRepayAmount} from "./utils-amm";
+import {debugLog} from "./utils-log";
+
+let router: Contract | null = null;
+
+function getRouter(): Contract {
+  router ??= new Contract(
+    getPrimaryDex().router,
+    config.ROUTER_ABI,
+    config.provider
+  );
+  return router;
+}
+
+function skipped(reason: string): ArbitrageSimulation {
+  return {
+    status: "skipped",
+    blockNumber: 0,
+    revertReason: reason,
+    simulatedAt: Date.now(),
+  };
+}
+
+/**
+ * Run FlashSwap.start with the arguments of a job in an eth_call from FLASHSWAP_OWNER,
+ * against the deployed contract (or the one on a local fork). The router quote of the
+ * triangle at the same block gives the profit, as an eth_call can't return the
+ * ArbitrageExecuted event.
+ * "skipped" when the simulation is disabled or the contract or its owner is unknown
+ * (checkSimulationSetup stops the scanner there), "failed" when the node couldn't run
+ * the call.
+ */
+export async function simulateArbitrage(
+  args: StartArbitrageArgs
+): Promise<ArbitrageSimulation> {
+  if (!config.SIMULATION_ENABLED) return skipped("simulation disabled");
+  const flashSwap = await getFlashSwapContract();
+  if (!flashSwap) return skipped("FlashSwap address unknown");
+  // start is owner-only
+  if (!config.FLASHSWAP_OWNER) return skipped("FLASHSWAP_OWNER not set");
+
+  const borrowAmount = BigInt(args.borrowAmount);
+  let blockNumber = 0;
+  try {
+    blockNumber = await config.provider.getBlockNumber();
+    await flashSwap.start.staticCall(
+      args.token0,
+      borrowAmount,
+      args.token1,
+      args.token2,
+      args.deadLineMin,
+      args.slippages,
+      args.minAmountsOut ?? [],
+      {from: config.FLASHSWAP_OWNER, blockTag: blockNumber}
+    );
+  } catch (error) {
+    if (isError(error, "CALL_EXCEPTION")) {
+      return {
+        status: "reverted",
+        blockNumber,
+        revertReason: error.reason ?? error.shortMessage,
+        simulatedAt: Date.now(),
+      };
+    }
+    debugLog(`Simulation of FlashSwap.start failed: ${error}`, 1);
+    return {
+      status: "failed",
+      blockNumber,
+      revertReason: `${error}`,
+      simulatedAt: Date.now(),
+    };
+  }
+
+  const simulation: ArbitrageSimulation = {
+    status: "passed",
+    blockNumber,
+    simulatedAt: Date.now(),
+  };
+  try {
+    const amounts: bigint[] = await getRouter().getAmountsOut(
+      borrowAmount,
+      [args.token0, args.token1, args.token2, args.token0],
+      {blockTag: blockNumber}
+    );
+    const amountReturned = amounts[amounts.length - 1];
+    const profit = amountReturned - getFlashLoanRepayAmount(borrowAmount);
+    simulation.amountReturned = amountReturned.toString();
+    simulation.profit = profit.toString();
+    // A contract in test mode doesn't revert on a losing trade
+    if (profit <= 0n) simulation.status = "unprofitable";
+  } catch (error) {
+    debugLog(`Router quote of the simulated trade failed: ${error}`, 2);
+  }
+  return simulation;
+}
+
+/**
+ * Refuse to scan with the simulation enabled but unable to run: every job would go
+ * through unsimulated
+ * @throws Error naming the missing settings
+ */
+export async function checkSimulationSetup() {
+  if (!config.SIMULATION_ENABLED) return;
+  const missing: string[] = [];
+  if (!config.FLASHSWAP_OWNER) missing.push("FLASHSWAP_OWNER");
+  if (!(await getFlashSwapContract())) {
+    missing.push("FLASHSWAP_ADDRESS (or a deployment in deployments/)");
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `The simulation of jobs needs ${missing.join(
+        " and "
+      )}; set SIMULATION_ENABLED: false to queue jobs unsimulated`
+    );
+  }
+}
+
+// Whether a job may be queued after its simulation; only a disabled simulation lets
+// unsimulated jobs through, a simulation that failed to run drops the job
+export function isSimulationPassed(simulation: ArbitrageSimulation): boolean {
+  return simulation.status === "passed" || simulation.status === "skipped";
+}
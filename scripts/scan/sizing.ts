@@ -0,0 +1,157 @@
+import * as config from "./config";
+import {ArbitrageOpportunity} from "./types";
+import {findOptimalAmount, getCycleProfit} from "./optimizer";
+import {getTokenPrice} from "./price-oracle";
+import {HopSlippage, getHopSlippages} from "./slippage";
+import {
+  HopReserves,
+  fromRawAmount,
+  getFlashLoanRepayAmount,
+  getHopReserves,
+  getSwapFee,
+  toRawAmount,
+} from "./utils-amm";
+
+export interface TradeSize {
+  borrowAmount: bigint; // raw
+  amountOut: bigint; // raw, returned by the last hop at the current reserves
+  profit: bigint; // raw, amountOut minus the flash loan repayment
+  netProfit: number; // In the start token, after the gas cost
+  capped: boolean; // The optimum was above the risk cap
+  hops: HopSlippage[]; // Expected output, price impact and drift of each hop
+  slippages: number[]; // Per mille per hop: the reserve drift, no looser than the profit margin
+  minAmountsOut: bigint[]; // raw per hop; the last one repays the loan at least
+}
+
+// FlashSwap.start only accepts slippages in [990, 999]
+const MIN_SLIPPAGE = 990;
+const MAX_SLIPPAGE = 999;
+
+// Hops of an opportunity at the in-memory reserves, with each pool's fee; null if a pool is missing
+function getOpportunityHops(
+  opportunity: ArbitrageOpportunity
+): HopReserves[] | null {
+  const hops = [];
+  for (const step of opportunity.path) {
+    const pool = config.state.poolsMap.get(step.poolAddress);
+    if (!pool) return null;
+    hops.push(getHopReserves(pool, step.tokenIn, getSwapFee(step.feeBps)));
+  }
+  return hops;
+}
+
+/**
+ * Largest borrow amount: SIZING_MAX_RESERVE_FRACTION of the smallest input reserve of
+ * the path (in start token terms), and SIZING_MAX_BORROW_USD when the token has a price
+ */
+function getRiskCap(hops: HopReserves[], startToken: string): bigint {
+  const decimals = config.state.tokenCache[startToken].decimals;
+  const fraction = BigInt(
+    Math.round(config.SIZING_MAX_RESERVE_FRACTION * 1_000_000)
+  );
+
+  // Each reserve is brought back to the start token through the spot rates of the
+  // hops before it
+  let cap: bigint | null = null;
+  let rateNumerator = 1n;
+  let rateDenominator = 1n;
+  for (const hop of hops) {
+    const reserveInStartToken =
+      (hop.reserveIn * rateDenominator) / rateNumerator;
+    const hopCap = (reserveInStartToken * fraction) / 1_000_000n;
+    if (cap === null || hopCap < cap) cap = hopCap;
+    rateNumerator *= hop.reserveOut;
+    rateDenominator *= hop.reserveIn;
+  }
+
+  const price = getTokenPrice(startToken);
+  if (price && price.priceUSD > 0) {
+    const usdCap = toRawAmount(
+      config.SIZING_MAX_BORROW_USD / price.priceUSD,
+      decimals
+    );
+    if (cap === null || usdCap < cap) cap = usdCap;
+  }
+  return cap ?? 0n;
+}
+
+/**
+ * Per mille slippage of each hop: the loss each hop may take before the trade no longer
+ * repays the flash loan, spread evenly over the hops. Tighter than 999 isn't possible,
+ * so thin margins end up relying on the contract's profit check.
+ */
+export function getRequiredSlippages(
+  amountOut: bigint,
+  repayAmount: bigint,
+  hopCount: number
+): number[] {
+  const margin = Number(amountOut) / Number(repayAmount);
+  const hopTolerance = margin > 1 ? 1 - Math.pow(margin, -1 / hopCount) : 0;
+  const slippage = Math.min(
+    MAX_SLIPPAGE,
+    Math.max(MIN_SLIPPAGE, Math.ceil(1000 * (1 - hopTolerance)))
+  );
+  return Array(hopCount).fill(slippage);
+}
+
+/**
+ * Borrow amounts for an opportunity, best expected net profit first.
+ * The first is the exact-math optimum at the current reserves, limited by the risk cap;
+ * the others are SIZING_BACKOFF_FACTORS of it, for when the simulation rejects it.
+ * Amounts below TX_MIN_BEST_AMOUNT, or that don't cover the gas cost, are left out.
+ */
+export function getTradeSizes(opportunity: ArbitrageOpportunity): TradeSize[] {
+  const hops = getOpportunityHops(opportunity);
+  if (!hops) return [];
+  const optimum = findOptimalAmount(hops);
+  if (!optimum) return [];
+
+  const decimals = opportunity.path[0].tokenInDecimals;
+  const cap = getRiskCap(hops, opportunity.startToken);
+  const capped = optimum.amountIn > cap;
+  const bestAmount = capped ? cap : optimum.amountIn;
+
+  const amounts = new Set<bigint>();
+  for (const factor of config.SIZING_BACKOFF_FACTORS) {
+    amounts.add((bestAmount * BigInt(Math.round(factor * 1000))) / 1000n);
+  }
+
+  const sizes: TradeSize[] = [];
+  for (const amount of amounts) {
+    if (fromRawAmount(amount, decimals) < config.TX_MIN_BEST_AMOUNT) continue;
+    const point = getCycleProfit(amount, hops);
+    const netProfit =
+      fromRawAmount(point.profit, decimals) - opportunity.estimatedGasCost;
+    if (point.profit <= 0n || netProfit <= 0) continue;
+
+    const repayAmount = getFlashLoanRepayAmount(amount);
+    const hopSlippages = getHopSlippages(
+      amount,
+      hops,
+      opportunity.path.map((step) => step.poolAddress)
+    );
+    const marginSlippages = getRequiredSlippages(
+      point.amountOut,
+      repayAmount,
+      hops.length
+    );
+    const minAmountsOut = hopSlippages.map((hop) => hop.minAmountOut);
+    if (minAmountsOut[minAmountsOut.length - 1] < repayAmount) {
+      minAmountsOut[minAmountsOut.length - 1] = repayAmount;
+    }
+    sizes.push({
+      borrowAmount: amount,
+      amountOut: point.amountOut,
+      profit: point.profit,
+      netProfit,
+      capped,
+      hops: hopSlippages,
+      slippages: hopSlippages.map((hop, i) =>
+        Math.max(hop.slippage, marginSlippages[i])
+      ),
+      minAmountsOut,
+    });
+  }
+
+  return sizes.sort((a, b) => b.netProfit - a.netProfit);
+}
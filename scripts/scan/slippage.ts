@@ -0,0 +1,126 @@
+import * as config from "./config";
+import {HopReserves, getAmountOut} from "./utils-amm";
+
+// Block-to-block price volatility of a pool, from its Sync events
+interface PoolVolatility {
+  price: number; // reserve1 / reserve0 at the last Sync
+  blockNumber: number;
+  variance: number; // Of the log price change per block
+  samples: number;
+}
+
+export interface HopSlippage {
+  expectedOut: bigint; // raw, at the current reserves
+  priceImpact: number; // Fraction of the output lost to the trade's own size
+  drift: number; // Fraction the reserves may move before inclusion
+  minAmountOut: bigint; // raw, from the previous hop's minimum
+  slippage: number; // Per mille factor for FlashSwap.start
+}
+
+// Weight of a new sample in the variance (exponential moving average)
+const VOLATILITY_WEIGHT = 0.1;
+// FlashSwap.start only accepts slippages in [990, 999]
+const MIN_SLIPPAGE = 990;
+const MAX_SLIPPAGE = 999;
+
+const volatilities = new Map<string, PoolVolatility>();
+
+/**
+ * Record the reserves of a pool's Sync; the price move since its previous Sync is a
+ * volatility sample. Several Syncs of one block count as one block apart each, which
+ * overstates the volatility of busy pools slightly.
+ */
+export function recordReserveMove(
+  poolAddress: string,
+  reserve0: bigint,
+  reserve1: bigint,
+  blockNumber: number
+) {
+  if (reserve0 <= 0n || reserve1 <= 0n) return;
+  const price = Number(reserve1) / Number(reserve0);
+  const previous = volatilities.get(poolAddress);
+  if (!previous) {
+    volatilities.set(poolAddress, {
+      price,
+      blockNumber,
+      variance: 0,
+      samples: 0,
+    });
+    return;
+  }
+
+  const blocks = Math.max(1, blockNumber - previous.blockNumber);
+  const sample = Math.log(price / previous.price) ** 2 / blocks;
+  previous.variance =
+    previous.samples === 0
+      ? sample
+      : previous.variance * (1 - VOLATILITY_WEIGHT) +
+        sample * VOLATILITY_WEIGHT;
+  previous.samples++;
+  previous.price = price;
+  previous.blockNumber = blockNumber;
+}
+
+/**
+ * Fraction a pool's price may move until a job is included: SLIPPAGE_DRIFT_SIGMAS
+ * standard deviations over SLIPPAGE_INCLUSION_BLOCKS blocks, SLIPPAGE_DEFAULT_DRIFT
+ * until the pool has SLIPPAGE_MIN_SAMPLES Syncs
+ */
+export function getReserveDrift(poolAddress: string): number {
+  const volatility = volatilities.get(poolAddress);
+  if (!volatility || volatility.samples < config.SLIPPAGE_MIN_SAMPLES) {
+    return config.SLIPPAGE_DEFAULT_DRIFT;
+  }
+  return (
+    config.SLIPPAGE_DRIFT_SIGMAS *
+    Math.sqrt(volatility.variance * config.SLIPPAGE_INCLUSION_BLOCKS)
+  );
+}
+
+/**
+ * Expected output, price impact and minimum output of each hop of a trade.
+ * Each minimum is the previous hop's minimum traded at the current reserves, less the
+ * pool's drift, so the last one is what the trade returns in the worst tolerated case.
+ * @param poolAddresses Pool of each hop, for its drift
+ */
+export function getHopSlippages(
+  amountIn: bigint,
+  hops: HopReserves[],
+  poolAddresses: string[]
+): HopSlippage[] {
+  const result: HopSlippage[] = [];
+  let expectedIn = amountIn;
+  let minIn = amountIn;
+  hops.forEach((hop, i) => {
+    const expectedOut = getAmountOut(
+      expectedIn,
+      hop.reserveIn,
+      hop.reserveOut,
+      hop.fee
+    );
+    // Output at the spot price (fee included) against the actual output
+    const spotOut =
+      (Number(expectedIn) *
+        Number(hop.fee.numerator) *
+        Number(hop.reserveOut)) /
+      (Number(hop.fee.denominator) * Number(hop.reserveIn));
+    const drift = getReserveDrift(poolAddresses[i]);
+    const minOut = getAmountOut(minIn, hop.reserveIn, hop.reserveOut, hop.fee);
+
+    result.push({
+      expectedOut,
+      priceImpact: spotOut > 0 ? 1 - Number(expectedOut) / spotOut : 0,
+      drift,
+      minAmountOut:
+        (minOut * BigInt(Math.floor((1 - Math.min(drift, 1)) * 1_000_000))) /
+        1_000_000n,
+      slippage: Math.min(
+        MAX_SLIPPAGE,
+        Math.max(MIN_SLIPPAGE, Math.floor(1000 * (1 - drift)))
+      ),
+    });
+    expectedIn = expectedOut;
+    minIn = result[i].minAmountOut;
+  });
+  return result;
+}
@@ -0,0 +1,196 @@
+import {Interface, Log, Provider, WebSocketProvider} from "ethers";
+import * as config from "./config";
+import {updatePoolReserves} from "./utils-pool";
+import {recordPoolActivity} from "./pool-selection";
+import {recordReserveMove} from "./slippage";
+import {debugLog} from "./utils-log";
+
+// Called with the pools whose reserves changed in the processed blocks
+export type SyncUpdateHandler = (
+  changedPools: Set<string>,
+  blockNumber: number
+) => Promise<void> | void;
+
+const syncInterface = new Interface([
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+]);
+const SYNC_TOPIC = syncInterface.getEvent("Sync")!.topicHash;
+
+let lastProcessedBlock = 0;
+let processing = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let wsProvider: WebSocketProvider | null = null;
+let onUpdate: SyncUpdateHandler | null = null;
+
+/**
+ * Apply one Sync log to the in-memory pool, returns the pool address if it was tracked
+ * Logs older than the pool's snapshot are skipped, its reserves already include them
+ * @param blockTimestamp Timestamp of the log's block, the pair's new blockTimestampLast
+ */
+export function applySyncLog(log: Log, blockTimestamp: number): string | null {
+  const poolAddress = log.address.toLowerCase();
+  const pool = config.state.poolsMap.get(poolAddress);
+  if (!pool || log.blockNumber < pool.blockNumber) return null;
+
+  const parsed = syncInterface.parseLog({
+    topics: [...log.topics],
+    data: log.data,
+  });
+  if (!parsed) return null;
+
+  recordReserveMove(
+    poolAddress,
+    parsed.args.reserve0,
+    parsed.args.reserve1,
+    log.blockNumber
+  );
+  updatePoolReserves(
+    pool,
+    parsed.args.reserve0,
+    parsed.args.reserve1,
+    log.blockNumber,
+    blockTimestamp
+  );
+  recordPoolActivity(poolAddress);
+  return poolAddress;
+}
+
+/**
+ * Fetch and apply the Sync logs of all tracked pools in a block range
+ * @returns The pools whose reserves changed
+ */
+export async function processBlockRange(
+  provider: Provider,
+  fromBlock: number,
+  toBlock: number
+): Promise<Set<string>> {
+  const poolAddresses = Array.from(config.state.poolsMap.keys());
+  const logs: Log[] = [];
+
+  for (let i = 0; i < poolAddresses.length; i += config.SYNC_ADDRESS_CHUNK) {
+    logs.push(
+      ...(await provider.getLogs({
+        address: poolAddresses.slice(i, i + config.SYNC_ADDRESS_CHUNK),
+        topics: [SYNC_TOPIC],
+        fromBlock,
+        toBlock,
+      }))
+    );
+  }
+
+  // Apply in chain order so the last Sync of each pool wins
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const blockTimestamps = await getBlockTimestamps(
+    provider,
+    logs.map((log) => log.blockNumber)
+  );
+  const changedPools = new Set<string>();
+  for (const log of logs) {
+    const poolAddress = applySyncLog(
+      log,
+      blockTimestamps.get(log.blockNumber)!
+    );
+    if (poolAddress) changedPools.add(poolAddress);
+  }
+
+  // Pools without a Sync in the range still hold the reserves of toBlock, unless their
+  // snapshot is older than the range (the events in between were never applied)
+  for (const pool of config.state.poolsMap.values()) {
+    if (pool.blockNumber >= fromBlock - 1 && pool.blockNumber < toBlock) {
+      pool.blockNumber = toBlock;
+    }
+  }
+  return changedPools;
+}
+
+// Timestamps of the blocks Sync logs were emitted in
+async function getBlockTimestamps(
+  provider: Provider,
+  blockNumbers: number[]
+): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of new Set(blockNumbers)) {
+    const block = await provider.getBlock(blockNumber);
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+    timestamps.set(blockNumber, block.timestamp);
+  }
+  return timestamps;
+}
+
+// Catch up from the last processed block to the new head
+async function handleNewBlock(provider: Provider, blockNumber: number) {
+  if (processing || blockNumber <= lastProcessedBlock) return;
+  processing = true;
+
+  try {
+    const fromBlock = lastProcessedBlock + 1;
+    const toBlock = Math.min(
+      blockNumber,
+      fromBlock + config.SYNC_MAX_BLOCK_RANGE - 1
+    );
+    const changedPools = await processBlockRange(provider, fromBlock, toBlock);
+    lastProcessedBlock = toBlock;
+
+    debugLog(
+      `Sync events: blocks ${fromBlock}-${toBlock}, ${changedPools.size} pools changed`,
+      2
+    );
+    if (changedPools.size > 0 && onUpdate) {
+      await onUpdate(changedPools, toBlock);
+    }
+  } catch (error) {
+    // The range is retried on the next block
+    console.error(`Error processing Sync events: ${error}`);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Follow new blocks and apply the Sync(reserve0, reserve1) events of every tracked pair.
+ * Uses SYNC_WS_URL block subscriptions when configured, otherwise polls the HTTP provider.
+ * @param handler Called after each processed range with the pools that changed
+ */
+export async function startSyncListener(handler: SyncUpdateHandler) {
+  stopSyncListener();
+  onUpdate = handler;
+
+  if (config.SYNC_WS_URL) {
+    const provider = new WebSocketProvider(config.SYNC_WS_URL);
+    wsProvider = provider;
+    lastProcessedBlock = await provider.getBlockNumber();
+    await provider.on("block", (blockNumber: number) =>
+      handleNewBlock(provider, blockNumber)
+    );
+    console.log(
+      `Following Sync events over websocket from block ${lastProcessedBlock}`
+    );
+    return;
+  }
+
+  lastProcessedBlock = await config.provider.getBlockNumber();
+  pollTimer = setInterval(async () => {
+    try {
+      const blockNumber = await config.provider.getBlockNumber();
+      await handleNewBlock(config.provider, blockNumber);
+    } catch (error) {
+      console.error(`Error polling block number: ${error}`);
+    }
+  }, config.SYNC_POLL_INTERVAL);
+  console.log(
+    `Polling Sync events every ${config.SYNC_POLL_INTERVAL} ms from block ${lastProcessedBlock}`
+  );
+}
+
+export function stopSyncListener() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (wsProvider) {
+    wsProvider.destroy();
+    wsProvider = null;
+  }
+  onUpdate = null;
+}
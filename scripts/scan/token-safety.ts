@@ -0,0 +1,273 @@
+import {artifacts, ethers, network} from "hardhat";
+import {Interface, Result} from "ethers";
+import * as config from "./config";
+import {PoolData, TokenSafety} from "./types";
+import {HopReserves} from "./utils-amm";
+import {getDex} from "./dex-registry";
+import {loadTokenSafetyCache, saveTokenSafetyCache} from "./utils-file";
+import {debugLog} from "./utils-log";
+
+interface ProbeRoute {
+  router: string;
+  buyPath: string[];
+}
+
+let probeInterface: Interface | null = null;
+let probeCode: string | null = null;
+let cacheLoaded = false;
+
+// Runtime code and ABI of contracts/TokenProbe.sol
+async function loadProbeArtifact() {
+  if (probeInterface && probeCode) return;
+  const artifact = await artifacts.readArtifact("TokenProbe");
+  probeInterface = new Interface(artifact.abi);
+  probeCode = artifact.deployedBytecode;
+}
+
+// State overrides on a remote node, hardhat_setCode on a Hardhat network or node
+function getProbeMode(): string {
+  if (config.TOKEN_SAFETY_MODE) return config.TOKEN_SAFETY_MODE;
+  return network.name === "hardhat" || network.name === "localnode"
+    ? "hardhat"
+    : "stateOverride";
+}
+
+function loadCache() {
+  if (cacheLoaded) return;
+  cacheLoaded = true;
+  for (const [token, safety] of Object.entries(loadTokenSafetyCache())) {
+    config.state.tokenSafety.set(token, safety);
+  }
+}
+
+// Tax in bps of a received amount against the expected one
+function getTaxBps(expected: bigint, received: bigint): number {
+  if (expected <= 0n || received >= expected) return 0;
+  return Number(((expected - received) * 10000n) / expected);
+}
+
+/**
+ * Route to buy a token with WBNB: through its deepest WBNB pool, or through the deepest
+ * pool whose other token has a WBNB pool on the same DEX (the router needs both pairs)
+ */
+function findProbeRoute(token: string): ProbeRoute | null {
+  const wbnb = config.BASE_TOKEN.toLowerCase();
+  const pools = Array.from(config.state.tokenPools.get(token) ?? [])
+    .map((address) => config.state.poolsMap.get(address) as PoolData)
+    .filter((pool) => pool)
+    .sort(
+      (a, b) => (Number(b.liquidityUSD) || 0) - (Number(a.liquidityUSD) || 0)
+    );
+
+  // Token on the other side of a pool
+  const otherTokenOf = (pool: PoolData, token: string) =>
+    pool.token0.address === token ? pool.token1.address : pool.token0.address;
+
+  for (const pool of pools) {
+    const otherToken = otherTokenOf(pool, token);
+    if (otherToken === wbnb) {
+      return {router: getDex(pool.dex).router, buyPath: [wbnb, token]};
+    }
+  }
+
+  for (const pool of pools) {
+    const otherToken = otherTokenOf(pool, token);
+    const hasWbnbPool = Array.from(
+      config.state.tokenPools.get(otherToken) ?? []
+    ).some((address) => {
+      const otherPool: PoolData | undefined =
+        config.state.poolsMap.get(address);
+      return (
+        otherPool?.dex === pool.dex &&
+        otherTokenOf(otherPool, otherToken) === wbnb
+      );
+    });
+    if (hasWbnbPool) {
+      return {
+        router: getDex(pool.dex).router,
+        buyPath: [wbnb, otherToken, token],
+      };
+    }
+  }
+  return null;
+}
+
+// Run TokenProbe.probe in an eth_call, with the probe code and BNB placed at TOKEN_PROBE_ADDRESS
+async function runProbe(route: ProbeRoute): Promise<Result> {
+  const amountIn = ethers.parseEther(config.TOKEN_PROBE_AMOUNT_BNB);
+  const data = probeInterface!.encodeFunctionData("probe", [
+    route.router,
+    route.buyPath,
+    amountIn,
+  ]);
+  const call = {to: config.TOKEN_PROBE_ADDRESS, data};
+
+  let returnData: string;
+  if (getProbeMode() === "hardhat") {
+    await config.provider.send("hardhat_setCode", [
+      config.TOKEN_PROBE_ADDRESS,
+      probeCode,
+    ]);
+    await config.provider.send("hardhat_setBalance", [
+      config.TOKEN_PROBE_ADDRESS,
+      ethers.toQuantity(amountIn),
+    ]);
+    returnData = await config.provider.send("eth_call", [call, "latest"]);
+  } else {
+    returnData = await config.provider.send("eth_call", [
+      call,
+      "latest",
+      {
+        [config.TOKEN_PROBE_ADDRESS]: {
+          code: probeCode,
+          balance: ethers.toQuantity(amountIn),
+        },
+      },
+    ]);
+  }
+  return probeInterface!.decodeFunctionResult("probe", returnData)[0];
+}
+
+// Classify a token from its round trip
+function classify(result: Result): TokenSafety {
+  const safety: TokenSafety = {
+    status: "safe",
+    buyTaxBps: getTaxBps(result.buyExpected, result.buyReceived),
+    transferTaxBps: getTaxBps(result.transferSent, result.transferReceived),
+    sellTaxBps: getTaxBps(result.sellExpected, result.sellReceived),
+    checkedAt: Date.now(),
+  };
+
+  if (!result.bought) {
+    safety.status = "unsellable";
+    safety.reason = "buy failed";
+  } else if (!result.transferred) {
+    safety.status = "unsellable";
+    safety.reason = "transfer failed";
+  } else if (!result.sold) {
+    safety.status = "unsellable";
+    safety.reason = "sell failed";
+  } else if (
+    Math.max(safety.buyTaxBps, safety.transferTaxBps, safety.sellTaxBps) >
+    config.TOKEN_TAX_TOLERANCE_BPS
+  ) {
+    safety.status = "taxed";
+  }
+  return safety;
+}
+
+// Analyze one token; undefined when it can't be probed (no route, or the call failed)
+async function analyzeToken(token: string): Promise<TokenSafety | undefined> {
+  const route = findProbeRoute(token);
+  if (!route) {
+    debugLog(`No WBNB route to probe ${token}`, 2);
+    return undefined;
+  }
+
+  try {
+    const safety = classify(await runProbe(route));
+    config.state.tokenSafety.set(token, safety);
+    if (safety.status !== "safe") {
+      debugLog(
+        `Token ${config.state.tokenCache[token]?.symbol ?? token} is ${
+          safety.status
+        }${safety.reason ? ` (${safety.reason})` : ""}: buy ${
+          safety.buyTaxBps
+        } bps, transfer ${safety.transferTaxBps} bps, sell ${
+          safety.sellTaxBps
+        } bps`
+      );
+    }
+    return safety;
+  } catch (error) {
+    debugLog(`Token probe failed for ${token}: ${error}`, 2);
+    return undefined;
+  }
+}
+
+/**
+ * Run buy / transfer / sell round trips for the tokens without a recent result.
+ * Results are kept in state.tokenSafety and cached in data/token_safety.json.
+ */
+export async function analyzeTokens(tokens: string[]) {
+  if (!config.TOKEN_SAFETY_ENABLED) return;
+  loadCache();
+
+  const wbnb = config.BASE_TOKEN.toLowerCase();
+  const pending = Array.from(new Set(tokens)).filter((token) => {
+    if (token === wbnb) return false;
+    const safety = config.state.tokenSafety.get(token);
+    return !safety || Date.now() - safety.checkedAt > config.TOKEN_SAFETY_TTL;
+  });
+  if (pending.length === 0) return;
+
+  try {
+    await loadProbeArtifact();
+  } catch (error) {
+    console.error(
+      `TokenProbe artifact not found, compile the contracts: ${error}`
+    );
+    return;
+  }
+
+  const startTime = Date.now();
+  let analyzed = 0;
+  for (let i = 0; i < pending.length; i += config.TOKEN_PROBE_CONCURRENCY) {
+    const results = await Promise.all(
+      pending.slice(i, i + config.TOKEN_PROBE_CONCURRENCY).map(analyzeToken)
+    );
+    analyzed += results.filter((result) => result).length;
+  }
+  saveTokenSafetyCache(config.state.tokenSafety);
+
+  const counts = {safe: 0, taxed: 0, unsellable: 0};
+  for (const safety of config.state.tokenSafety.values())
+    counts[safety.status]++;
+  console.log(
+    `Token safety: analyzed ${analyzed} of ${pending.length} tokens in ${
+      (Date.now() - startTime) / 1000
+    }s (${counts.safe} safe, ${counts.taxed} taxed, ${
+      counts.unsellable
+    } unsellable)`
+  );
+}
+
+// Last round trip result of a token, undefined when it hasn't been probed
+export function getTokenSafety(token: string): TokenSafety | undefined {
+  return config.state.tokenSafety.get(token);
+}
+
+export function isTokenUnsellable(token: string): boolean {
+  return getTokenSafety(token)?.status === "unsellable";
+}
+
+/**
+ * Fold transfer taxes into a hop: the sell tax of tokenIn reduces the amount reaching
+ * the pool, the buy tax of tokenOut reduces what leaves it (same as scaling reserveOut).
+ * Conservative for multi-hop paths, where one pair-to-pair transfer may count twice.
+ */
+export function applyTokenTaxes(
+  hop: HopReserves,
+  tokenIn: string,
+  tokenOut: string
+): HopReserves {
+  const sellTaxBps = getTokenSafety(tokenIn)?.sellTaxBps ?? 0;
+  const buyTaxBps = getTokenSafety(tokenOut)?.buyTaxBps ?? 0;
+  if (sellTaxBps === 0 && buyTaxBps === 0) return hop;
+
+  return {
+    reserveIn: hop.reserveIn,
+    reserveOut: (hop.reserveOut * BigInt(10000 - buyTaxBps)) / 10000n,
+    fee: {
+      numerator: hop.fee.numerator * BigInt(10000 - sellTaxBps),
+      denominator: hop.fee.denominator * 10000n,
+    },
+  };
+}
+
+// Fraction of a hop's output left after the token taxes, for the float edge weights
+export function getHopTaxFactor(tokenIn: string, tokenOut: string): number {
+  const sellTaxBps = getTokenSafety(tokenIn)?.sellTaxBps ?? 0;
+  const buyTaxBps = getTokenSafety(tokenOut)?.buyTaxBps ?? 0;
+  return (1 - sellTaxBps / 10000) * (1 - buyTaxBps / 10000);
+}
@@ -1,15 +1,10 @@
-export interface InputsArgs {
-  percent?: number;
-  pools?: number;
-  full_refresh_interval?: number;
-}
-
 export interface PoolTokenInfo {
   address: string;
   name: string;
   symbol: string;
   decimals: number;
   reserve: string;
+  reserveRaw: string; // raw uint112 reserve, for exact integer math
 }
 
 export interface TokenInfo {
@@ -18,19 +13,106 @@ export interface TokenInfo {
   decimals: number;
 }
 
+export type TokenSafetyStatus = "safe" | "taxed" | "unsellable";
+
+// Result of a buy / transfer / sell round trip of a token
+export interface TokenSafety {
+  status: TokenSafetyStatus;
+  buyTaxBps: number;
+  transferTaxBps: number;
+  sellTaxBps: number;
+  reason?: string; // Why a token is unsellable
+  checkedAt: number; // ms timestamp
+}
+
+export interface TokenPrice {
+  priceUSD: number;
+  confidence: number; // 0-1, product of the hop depths along the pricing path
+  hops: number; // pools between the token and a stablecoin
+  poolAddress: string | null; // pool the price was derived from, null for stablecoins
+}
+
+export interface DexInfo {
+  id: string;
+  name: string;
+  factory: string;
+  router: string;
+  feeBps: number; // Swap fee in basis points
+  initCodeHash: string; // Pair init code hash, for CREATE2 pair addresses
+}
+
+// A pool to load: its factory index (-1 for priority pairs) and DEX, when known
+export interface PoolRef {
+  address: string;
+  index: number;
+  dex?: string;
+}
+
 export interface PoolData {
   index: number;
   address: string;
+  dex: string; // DexInfo id
+  feeBps: number; // Swap fee in basis points
+  feeSource: "registry" | "probed"; // Probed fees come from router quotes
+
   token0: PoolTokenInfo;
   token1: PoolTokenInfo;
   prices: {[key: string]: number};
   liquidityUSD: string;
   totalSupply: string;
+  blockNumber: number; // Block the reserves are known to be current at
+  blockTimestampLast: number; // Timestamp of the pair's last reserve update (getReserves)
+  updated: string;
+}
+
+// Persistent store records (scan/pool-store.ts)
+export interface StoredToken extends TokenInfo {
+  address: string;
+}
+
+export interface StoredPair {
+  dex: string;
+  index: number; // Factory index
+  address: string;
+  token0?: string; // Set by the factory indexer
+  token1?: string;
+  createdBlock?: number; // Set by the factory indexer, from the pair's PairCreated log
+}
+
+// Backfill progress of a DEX
+export interface StoredBackfill {
+  dex: string;
+  next: number; // Factory indices below it are indexed
+  logBlock: number; // PairCreated logs below it are read
+}
+
+export interface StoredPool {
+  address: string;
+  index: number;
+  dex: string;
+  token0: string;
+  token1: string;
+  feeBps: number;
+  feeSource: PoolData["feeSource"];
+  reserve0Raw: string;
+  reserve1Raw: string;
+  totalSupply: string;
+  blockNumber: number;
+  blockTimestampLast: number;
   updated: string;
 }
 
+export interface ArbitrageCycle {
+  id: string; // start token + pool addresses in trade order
+  startToken: string;
+  tokens: string[]; // trade path, starts and ends with startToken
+  poolAddresses: string[]; // one pool per hop
+}
+
 export interface ArbitragePathStep {
   poolAddress: string;
+  dex: string;
+  feeBps: number;
   tokenIn: string;
   tokenOut: string;
   tokenInSymbol: string;
@@ -40,12 +122,17 @@ export interface ArbitragePathStep {
 }
 
 export interface ArbitrageOpportunity {
+  cycleId: string; // Id of the cycle, see getCycleId
+  blockNumber: number; // Newest reserve snapshot of the cycle's pools
   startToken: string;
   path: ArbitragePathStep[];
   expectedProfit: number; // Best profit from all test amounts
   profitPercent: number; // Profit percentage of best amount
   estimatedGasCost: number; // Direct gas cost value
   netProfit: number; // Profit after gas costs
+  expectedProfitUSD?: number; // Set when the start token has a USD price
+  netProfitUSD?: number;
+  priceConfidence?: number; // Confidence of the start token's USD price
   timestamp: string;
   testAmounts: number[]; // All amounts tested
   testResults: TestResult[]; // Results for each test amount
@@ -68,6 +155,7 @@ export interface TestResult {
   error?: string; // Optional error information
 }
 
+// Arguments of FlashSwap.start; queued jobs carry them in a FlashJob (scripts/flash-job.ts)
 export interface StartArbitrageArgs {
   token0: string;
   borrowAmount: bigint | string;
@@ -75,4 +163,18 @@ export interface StartArbitrageArgs {
   token2: string;
   deadLineMin: number;
   slippages: number[];
+  minAmountsOut?: string[]; // Raw minimum output of each hop
+}
+
+/**
+ * FlashSwap.start run in an eth_call before a job is queued.
+ * Amounts are raw integers as strings (job data is JSON).
+ */
+export interface ArbitrageSimulation {
+  status: "passed" | "reverted" | "unprofitable" | "failed" | "skipped";
+  blockNumber: number; // Block the call ran against
+  revertReason?: string; // Revert reason, or why the simulation failed or was skipped
+  amountReturned?: string; // Router quote of the triangle at that block
+  profit?: string; // amountReturned minus the flash loan repayment
+  simulatedAt: number; // ms timestamp
 }
@@ -0,0 +1,143 @@
+import {ethers} from "ethers";
+import {PoolData} from "./types";
+
+// Swap fee as the router applies it: amountIn * numerator / denominator
+export interface SwapFee {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+// Raw reserves of one hop, oriented in the trade direction
+export interface HopReserves {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  fee: SwapFee;
+}
+
+// Swap fee from basis points, e.g. 25 bps -> amountIn * 9975 / 10000
+export function getSwapFee(feeBps: number): SwapFee {
+  return {numerator: BigInt(10000 - feeBps), denominator: 10000n};
+}
+
+// PancakeSwap V2 router: amountInWithFee = amountIn * 9975 / 10000
+export const PANCAKE_V2_FEE: SwapFee = getSwapFee(25);
+
+/**
+ * Solve the swap fee from a router quote: out = x*f*R1 / (R0 + x*f) gives
+ * f = out*R0 / (x*(R1 - out)). The rounded result is checked against the exact math.
+ * @returns the fee in bps, or null when no fee reproduces the quote
+ */
+export function solveFeeBps(
+  amountIn: bigint,
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint
+): number | null {
+  if (amountIn <= 0n || amountOut <= 0n || amountOut >= reserveOut) return null;
+
+  const ratio =
+    (amountOut * reserveIn * 10000n) / (amountIn * (reserveOut - amountOut));
+  const estimate = 10000 - Number(ratio);
+  for (const feeBps of [estimate, estimate - 1, estimate + 1, estimate - 2]) {
+    if (feeBps < 0 || feeBps >= 10000) continue;
+    const quote = getAmountOut(
+      amountIn,
+      reserveIn,
+      reserveOut,
+      getSwapFee(feeBps)
+    );
+    if (quote === amountOut) return feeBps;
+  }
+  return null;
+}
+
+/**
+ * Same integer math as UniswapV2Library.getAmountOut (rounds down)
+ */
+export function getAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: SwapFee = PANCAKE_V2_FEE
+): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+
+  const amountInWithFee = amountIn * fee.numerator;
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * fee.denominator + amountInWithFee;
+  return numerator / denominator;
+}
+
+/**
+ * Same integer math as UniswapV2Library.getAmountIn (rounds up)
+ * Returns 0n when the output can't be bought from the reserves
+ */
+export function getAmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: SwapFee = PANCAKE_V2_FEE
+): bigint {
+  if (amountOut <= 0n || reserveIn <= 0n || amountOut >= reserveOut) return 0n;
+
+  const numerator = reserveIn * amountOut * fee.denominator;
+  const denominator = (reserveOut - amountOut) * fee.numerator;
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Chained getAmountOut over all hops, like router.getAmountsOut
+ * @returns amounts[0] is amountIn, amounts[i + 1] is the output of hop i
+ */
+export function getAmountsOut(amountIn: bigint, hops: HopReserves[]): bigint[] {
+  const amounts = [amountIn];
+  for (const hop of hops) {
+    amounts.push(
+      getAmountOut(
+        amounts[amounts.length - 1],
+        hop.reserveIn,
+        hop.reserveOut,
+        hop.fee
+      )
+    );
+  }
+  return amounts;
+}
+
+/**
+ * Amount FlashSwap.pancakeCall pays back to the borrow pair:
+ * borrowAmount + borrowAmount * 3 / 997 + 1
+ * The contract hard-codes this 0.3% repayment whatever the borrow pair's fee is,
+ * so it is modeled as the contract pays, not from the pool fee
+ */
+export function getFlashLoanRepayAmount(borrowAmount: bigint): bigint {
+  const fee = (borrowAmount * 3n) / 997n + 1n;
+  return borrowAmount + fee;
+}
+
+// Raw reserves of a pool oriented for a swap of tokenIn, with the pool's fee
+export function getHopReserves(
+  pool: PoolData,
+  tokenIn: string,
+  fee: SwapFee = getSwapFee(pool.feeBps)
+): HopReserves {
+  const reserve0 = BigInt(pool.token0.reserveRaw);
+  const reserve1 = BigInt(pool.token1.reserveRaw);
+  return pool.token0.address === tokenIn
+    ? {reserveIn: reserve0, reserveOut: reserve1, fee}
+    : {reserveIn: reserve1, reserveOut: reserve0, fee};
+}
+
+// Convert a human readable amount into raw token units
+export function toRawAmount(amount: number, decimals: number): bigint {
+  // toFixed avoids the exponent notation parseUnits can't read, up to 1e21
+  if (Math.abs(amount) >= 1e21) {
+    return BigInt(Math.round(amount)) * 10n ** BigInt(decimals);
+  }
+  return ethers.parseUnits(amount.toFixed(Math.min(decimals, 18)), decimals);
+}
+
+// Convert raw token units into a human readable amount
+export function fromRawAmount(amount: bigint, decimals: number): number {
+  return Number(ethers.formatUnits(amount, decimals));
+}
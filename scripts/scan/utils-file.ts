@@ -1,6 +1,6 @@
 import fs from "fs";
 import path from "path";
-import {ArbitrageOpportunity, PoolData} from "./types";
+import {ArbitrageOpportunity, PoolData, TokenSafety} from "./types";
 import {MAX_PROFIT_HISTORY_ITEMS} from "./config";
 
 const DATA_DIRECTORY = path.join(__dirname, "../../data");
@@ -8,6 +8,7 @@ const OPPORTUNITIES_FILE = path.join(
   DATA_DIRECTORY,
   "arbitrage_opportunities.json"
 );
+const TOKEN_SAFETY_FILE = path.join(DATA_DIRECTORY, "token_safety.json");
 
 /**
  * Makes sure the data directory exists
@@ -118,13 +119,9 @@ export function getLatestOpportunities(): ArbitrageOpportunity[] | null {
 }
 
 export function saveLocalEstimatesForAnalysis(
-  startToken: string,
-  midToken: string,
-  destToken: string,
+  tradePath: string[],
   testResults: any[],
-  pool1: PoolData,
-  pool2: PoolData,
-  pool3: PoolData
+  pools: PoolData[]
 ) {
   try {
     const DATA_DIRECTORY = path.join(__dirname, "../../data");
@@ -138,87 +135,33 @@ export function saveLocalEstimatesForAnalysis(
       fs.mkdirSync(DATA_DIRECTORY, {recursive: true});
     }
 
+    // Symbol of a token in the given pool
+    const symbolOf = (pool: PoolData, token: string) =>
+      pool.token0.address === token ? pool.token0.symbol : pool.token1.symbol;
+
     // Prepare data to save
     const analysisData = {
       timestamp: new Date().toISOString(),
       timestampLocal: new Date().toLocaleString(),
-      path: [
-        {
-          poolAddress: pool1.address,
-          tokenIn: startToken,
-          tokenOut: midToken,
-          tokenInSymbol:
-            pool1.token0.address === startToken
-              ? pool1.token0.symbol
-              : pool1.token1.symbol,
-          tokenOutSymbol:
-            pool1.token0.address === startToken
-              ? pool1.token1.symbol
-              : pool1.token0.symbol,
-        },
-        {
-          poolAddress: pool2.address,
-          tokenIn: midToken,
-          tokenOut: destToken,
-          tokenInSymbol:
-            pool2.token0.address === midToken
-              ? pool2.token0.symbol
-              : pool2.token1.symbol,
-          tokenOutSymbol:
-            pool2.token0.address === midToken
-              ? pool2.token1.symbol
-              : pool2.token0.symbol,
-        },
-        {
-          poolAddress: pool3.address,
-          tokenIn: destToken,
-          tokenOut: startToken,
-          tokenInSymbol:
-            pool3.token0.address === destToken
-              ? pool3.token0.symbol
-              : pool3.token1.symbol,
-          tokenOutSymbol:
-            pool3.token0.address === destToken
-              ? pool3.token1.symbol
-              : pool3.token0.symbol,
-        },
-      ],
+      path: pools.map((pool, i) => ({
+        poolAddress: pool.address,
+        tokenIn: tradePath[i],
+        tokenOut: tradePath[i + 1],
+        tokenInSymbol: symbolOf(pool, tradePath[i]),
+        tokenOutSymbol: symbolOf(pool, tradePath[i + 1]),
+      })),
       testResults: testResults,
-      poolData: {
-        pool1: {
-          address: pool1.address,
-          token0: {
-            symbol: pool1.token0.symbol,
-            reserve: pool1.token0.reserve,
-          },
-          token1: {
-            symbol: pool1.token1.symbol,
-            reserve: pool1.token1.reserve,
-          },
-        },
-        pool2: {
-          address: pool2.address,
-          token0: {
-            symbol: pool2.token0.symbol,
-            reserve: pool2.token0.reserve,
-          },
-          token1: {
-            symbol: pool2.token1.symbol,
-            reserve: pool2.token1.reserve,
-          },
+      poolData: pools.map((pool) => ({
+        address: pool.address,
+        token0: {
+          symbol: pool.token0.symbol,
+          reserve: pool.token0.reserve,
         },
-        pool3: {
-          address: pool3.address,
-          token0: {
-            symbol: pool3.token0.symbol,
-            reserve: pool3.token0.reserve,
-          },
-          token1: {
-            symbol: pool3.token1.symbol,
-            reserve: pool3.token1.reserve,
-          },
+        token1: {
+          symbol: pool.token1.symbol,
+          reserve: pool.token1.reserve,
         },
-      },
+      })),
     };
 
     // Read existing data
@@ -244,9 +187,42 @@ export function saveLocalEstimatesForAnalysis(
       JSON.stringify(historicalData, null, 2)
     );
     console.log(
-      `Saved local estimate analysis for ${pool1.token0.symbol}-${pool2.token1.symbol}-${pool3.token0.symbol} path`
+      `Saved local estimate analysis for ${analysisData.path
+        .map((step) => step.tokenInSymbol)
+        .join("-")} path`
     );
   } catch (error) {
     console.error("Error saving local estimate analysis:", error);
   }
 }
+
+/**
+ * Load the cached token safety results
+ * @returns Results by token address; empty if the file doesn't exist
+ */
+export function loadTokenSafetyCache(): {[token: string]: TokenSafety} {
+  try {
+    if (fs.existsSync(TOKEN_SAFETY_FILE)) {
+      return JSON.parse(fs.readFileSync(TOKEN_SAFETY_FILE, "utf8"));
+    }
+  } catch (error) {
+    console.log("Error reading token safety cache, starting fresh");
+  }
+  return {};
+}
+
+/**
+ * Save the token safety results
+ * @param results Results by token address
+ */
+export function saveTokenSafetyCache(results: Map<string, TokenSafety>) {
+  try {
+    ensureDataDirectory();
+    fs.writeFileSync(
+      TOKEN_SAFETY_FILE,
+      JSON.stringify(Object.fromEntries(results), null, 2)
+    );
+  } catch (error) {
+    console.error("Error saving token safety cache:", error);
+  }
+}
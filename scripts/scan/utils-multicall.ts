@@ -0,0 +1,91 @@
+import {ethers} from "hardhat";
+import {Interface, Result} from "ethers";
+import * as config from "./config";
+
+export interface MulticallRequest {
+  target: string;
+  iface: Interface;
+  method: string;
+  args?: any[];
+}
+
+const multicallContract = new ethers.Contract(
+  config.MULTICALL3_ADDRESS,
+  config.MULTICALL3_ABI,
+  config.provider
+);
+
+// Decode one aggregate3 result, null if the call reverted or returned garbage
+function decodeResult(
+  request: MulticallRequest,
+  success: boolean,
+  returnData: string
+): Result | null {
+  if (!success || returnData === "0x") return null;
+  try {
+    return request.iface.decodeFunctionResult(request.method, returnData);
+  } catch {
+    return null;
+  }
+}
+
+// Run one chunk; if the RPC call itself fails, split the chunk and retry the halves
+async function runChunk(
+  requests: MulticallRequest[],
+  blockTag?: number
+): Promise<(Result | null)[]> {
+  const calls = requests.map((request) => ({
+    target: request.target,
+    allowFailure: true,
+    callData: request.iface.encodeFunctionData(
+      request.method,
+      request.args ?? []
+    ),
+  }));
+
+  try {
+    const results = await multicallContract.aggregate3.staticCall(calls, {
+      blockTag,
+    });
+    return results.map((result: any, i: number) =>
+      decodeResult(requests[i], result.success, result.returnData)
+    );
+  } catch (error) {
+    if (requests.length === 1) {
+      console.log(
+        `Multicall failed for ${requests[0].method} on ${requests[0].target}: ${error}`
+      );
+      return [null];
+    }
+
+    console.log(
+      `Multicall chunk of ${requests.length} calls failed, splitting: ${error}`
+    );
+    const middle = Math.ceil(requests.length / 2);
+    return [
+      ...(await runChunk(requests.slice(0, middle), blockTag)),
+      ...(await runChunk(requests.slice(middle), blockTag)),
+    ];
+  }
+}
+
+/**
+ * Batch many view calls through Multicall3.aggregate3
+ * @param requests Calls to make, in any order
+ * @param chunkSize Maximum calls per RPC request
+ * @param blockTag Block to read at, so every chunk sees the same state; latest if omitted
+ * @returns Decoded results in request order; null for calls that failed
+ */
+export async function multicall(
+  requests: MulticallRequest[],
+  chunkSize: number = config.MULTICALL_CHUNK_SIZE,
+  blockTag?: number
+): Promise<(Result | null)[]> {
+  const results: (Result | null)[] = [];
+  for (let i = 0; i < requests.length; i += chunkSize) {
+    results.push(
+      ...(await runChunk(requests.slice(i, i + chunkSize), blockTag))
+    );
+  }
+  return results;
+}
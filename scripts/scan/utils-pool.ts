@@ -1,6 +1,25 @@
 import {ethers} from "hardhat";
-import {PoolData, PoolTokenInfo, TokenInfo} from "./types";
+import {Interface} from "ethers";
+import {DexInfo, PoolData, PoolRef, StoredPool} from "./types";
 import * as config from "./config";
+import {multicall} from "./utils-multicall";
+import {addPoolToCycleIndex, removePoolFromCycleIndex} from "./cycle-index";
+import {getPoolLiquidityUSD} from "./price-oracle";
+import {
+  getDex,
+  getEnabledDexes,
+  getPrimaryDex,
+  identifyPairDex,
+} from "./dex-registry";
+import {solveFeeBps} from "./utils-amm";
+import {
+  getStoredPairAddress,
+  getStoredPool,
+  recordPairAddress,
+  recordPool,
+  recordToken,
+} from "./pool-store";
+import {debugLog} from "./utils-log";
 
 // Generate unique random pool indices
 export function generateRandomPoolIndices(
@@ -39,7 +58,9 @@ export function resetPoolSelection() {
   );
 
   // Clear existing data
-  config.state.poolsMap.clear();
+  for (const poolAddress of Array.from(config.state.poolsMap.keys())) {
+    removePool(poolAddress);
+  }
 
   // Generate new random indices
   config.state.currentPoolIndices = generateRandomPoolIndices(
@@ -52,35 +73,55 @@ export function resetPoolSelection() {
   config.state.lastProfitFound = Date.now();
 }
 
+const factoryInterface = new Interface(config.FACTORY_ABI);
+const pairInterface = new Interface(config.PAIR_ABI);
+const erc20Interface = new Interface(config.ERC20_ABI);
+const routerInterface = new Interface(config.ROUTER_ABI);
+
 // Helper function to get token info with caching
 export async function getTokenInfo(address: string) {
   address = address.toLowerCase();
-  if (config.state.tokenCache[address]) {
-    return config.state.tokenCache[address];
-  }
+  await getTokenInfos([address]);
+  return (
+    config.state.tokenCache[address] ?? {
+      name: config.UNKNOW_TOKEN_NAME,
+      symbol: config.UNKNOW_TOKEN_SYMBOL,
+      decimals: 18,
+    }
+  );
+}
+
+// Fetch name, symbol and decimals of all uncached tokens in one multicall
+export async function getTokenInfos(addresses: string[]) {
+  const unknownTokens = Array.from(
+    new Set(addresses.map((address) => address.toLowerCase()))
+  ).filter((address) => !config.state.tokenCache[address]);
+  if (unknownTokens.length === 0) return;
 
   try {
-    const token = new ethers.Contract(
-      address,
-      config.ERC20_ABI,
-      config.provider
+    const results = await multicall(
+      unknownTokens.flatMap((address) =>
+        ["name", "symbol", "decimals"].map((method) => ({
+          target: address,
+          iface: erc20Interface,
+          method,
+        }))
+      )
     );
 
-    const [name, symbol, decimals] = await Promise.all([
-      token.name().catch(() => config.UNKNOW_TOKEN_NAME),
-      token.symbol().catch(() => config.UNKNOW_TOKEN_SYMBOL),
-      token.decimals().catch(() => 18),
-    ]);
-
-    config.state.tokenCache[address] = {name, symbol, decimals};
-    return config.state.tokenCache[address];
+    unknownTokens.forEach((address, i) => {
+      const [name, symbol, decimals] = results.slice(i * 3, i * 3 + 3);
+      config.state.tokenCache[address] = {
+        name: name ? name[0] : config.UNKNOW_TOKEN_NAME,
+        symbol: symbol ? symbol[0] : config.UNKNOW_TOKEN_SYMBOL,
+        decimals: decimals ? Number(decimals[0]) : 18,
+      };
+      recordToken(address, config.state.tokenCache[address]);
+    });
   } catch (error) {
-    console.log(`Error fetching token info for ${address}: ${error}`);
-    return {
-      name: config.UNKNOW_TOKEN_NAME,
-      symbol: config.UNKNOW_TOKEN_SYMBOL,
-      decimals: 18,
-    };
+    console.log(
+      `Error fetching token info for ${unknownTokens.length} tokens: ${error}`
+    );
   }
 }
 
@@ -89,18 +130,143 @@ export function updateTokenPoolsMap(tokenAddress: string, poolAddress: string) {
   if (!config.state.tokenPools.has(tokenAddress)) {
     config.state.tokenPools.set(tokenAddress, new Set());
   }
-  config.state.tokenPools.get(tokenAddress)!.add(poolAddress);
+  const tokenPools = config.state.tokenPools.get(tokenAddress)!;
+  if (!tokenPools.has(poolAddress)) {
+    tokenPools.add(poolAddress);
+    addPoolToCycleIndex(poolAddress);
+  }
 }
 
-// Additional utility functions for pool loading, etc.
-export async function loadPoolByIndex(index: number) {
-  try {
-    const pairAddress = await config.factory.allPairs(index);
-    return await loadPoolData(pairAddress, index);
-  } catch (error) {
-    console.log(`Error loading pool at index ${index}: ${error}`);
-    return null;
+// Remove a pool from memory, the token-to-pools lookup and the cycle index
+export function removePool(poolAddress: string) {
+  const pool = config.state.poolsMap.get(poolAddress);
+  if (!pool) return;
+
+  config.state.poolsMap.delete(poolAddress);
+  for (const token of [pool.token0.address, pool.token1.address]) {
+    const tokenPools = config.state.tokenPools.get(token);
+    tokenPools?.delete(poolAddress);
+    if (tokenPools?.size === 0) config.state.tokenPools.delete(token);
   }
+  removePoolFromCycleIndex(poolAddress);
+}
+
+// Get pair addresses for factory indices, skipping indices that failed
+// Addresses never change, so only the indices missing from the store are fetched
+export async function getPairAddressesByIndex(
+  indices: number[],
+  dex: DexInfo = getPrimaryDex()
+): Promise<PoolRef[]> {
+  const pairs: PoolRef[] = [];
+  const missing: number[] = [];
+  for (const index of indices) {
+    const address = getStoredPairAddress(dex.id, index);
+    if (address) {
+      pairs.push({address, index, dex: dex.id});
+    } else {
+      missing.push(index);
+    }
+  }
+  if (missing.length === 0) return pairs;
+
+  const results = await multicall(
+    missing.map((index) => ({
+      target: dex.factory,
+      iface: factoryInterface,
+      method: "allPairs",
+      args: [index],
+    }))
+  );
+
+  results.forEach((result, i) => {
+    if (result) {
+      pairs.push({address: result[0], index: missing[i], dex: dex.id});
+      recordPairAddress(dex.id, missing[i], result[0].toLowerCase());
+    } else {
+      console.log(`Error loading pool at index ${missing[i]}`);
+    }
+  });
+  return pairs;
+}
+
+// Get the pairs of token pairs on every enabled DEX, in one multicall
+export async function getPairsOnAllDexes(
+  tokenPairs: [string, string][],
+  index: number = -1
+): Promise<PoolRef[]> {
+  const dexes = getEnabledDexes();
+  const results = await multicall(
+    dexes.flatMap((dex) =>
+      tokenPairs.map(([tokenA, tokenB]) => ({
+        target: dex.factory,
+        iface: factoryInterface,
+        method: "getPair",
+        args: [tokenA, tokenB],
+      }))
+    )
+  );
+
+  const pairs: PoolRef[] = [];
+  results.forEach((result, i) => {
+    if (result && result[0] !== ethers.ZeroAddress) {
+      const dex = dexes[Math.floor(i / tokenPairs.length)];
+      pairs.push({address: result[0], index, dex: dex.id});
+    }
+  });
+  return pairs;
+}
+
+/**
+ * Load the pairs of the same tokens on the other enabled DEXes.
+ * A token pair listed on two DEXes is the simplest cross-DEX cycle.
+ */
+export async function loadMirrorPools(pools: PoolData[]): Promise<PoolData[]> {
+  const mirrors = await getPairsOnAllDexes(
+    pools.map((pool) => [pool.token0.address, pool.token1.address])
+  );
+  const newMirrors = mirrors.filter(
+    (mirror) => !config.state.poolsMap.has(mirror.address.toLowerCase())
+  );
+  if (newMirrors.length === 0) return [];
+
+  console.log(`Loading ${newMirrors.length} pools on other DEXes...`);
+  return loadPoolsData(newMirrors);
+}
+
+// Load pools by their factory index, and their mirrors on the other DEXes
+export async function loadPoolsByIndices(indices: number[]) {
+  const pairs = await getPairAddressesByIndex(indices);
+  const pools = await loadPoolsData(pairs);
+  return [...pools, ...(await loadMirrorPools(pools))];
+}
+
+// Pools of the current random sample and their mirrors, replaced by loadRandomPools
+const randomPools = new Set<string>();
+
+/**
+ * Load a random sample of POOLS_TO_SAMPLE pools, the fallback when there are no indexed
+ * pairs to select from. The pools of the previous sample are removed first.
+ */
+export async function loadRandomPools(): Promise<PoolData[]> {
+  for (const poolAddress of randomPools) removePool(poolAddress);
+  randomPools.clear();
+
+  config.state.currentPoolIndices = generateRandomPoolIndices(
+    config.POOLS_TO_SAMPLE,
+    config.RANDOM_START,
+    config.RANDOM_END
+  );
+  console.log(
+    `Loading ${config.state.currentPoolIndices.length} randomly selected pools...`
+  );
+  // Pools loaded already (priority pairs) aren't part of the sample
+  const loadedBefore = new Set(config.state.poolsMap.keys());
+  const pools = (await loadPoolsByIndices(config.state.currentPoolIndices)).filter(
+    (pool) => !loadedBefore.has(pool.address)
+  );
+  for (const pool of pools) randomPools.add(pool.address);
+  config.state.lastProfitFound = Date.now();
+  return pools;
 }
 
 // Load data for a specific pool
@@ -109,145 +275,323 @@ export async function loadPoolData(
   index: number,
   forceRefresh: boolean = false
 ): Promise<PoolData | null> {
-  let localToken0Info: TokenInfo | null = null;
-  let localToken1Info: TokenInfo | null = null;
-  try {
-    pairAddress = pairAddress.toLowerCase();
+  const [poolData] = await loadPoolsData(
+    [{address: pairAddress, index, dex: config.state.poolsMap.get(pairAddress)?.dex}],
+    forceRefresh
+  );
+  return poolData ?? null;
+}
 
-    if (config.state.poolsMap.has(pairAddress)) {
-      localToken0Info = config.state.poolsMap.get(pairAddress)!
-        .token0 as TokenInfo;
-      localToken1Info = config.state.poolsMap.get(pairAddress)!
-        .token1 as TokenInfo;
-    }
+// Whether a loaded pool is recent enough to skip a refresh
+function isPoolFresh(pool: PoolData, index: number): boolean {
+  const secondsSinceUpdate =
+    (Date.now() - new Date(pool.updated).getTime()) / 1000;
+
+  const refreshInterval =
+    index === -1 // -1 is used for priority pairs
+      ? config.PRIORITY_REFRESH_INTERVAL / 1000 // Priority pairs refresh more frequently
+      : config.FULL_REFRESH_INTERVAL / 1000; // Regular pairs refresh less frequently
+
+  return secondsSinceUpdate < refreshInterval;
+}
+
+/**
+ * Load token0, token1, reserves and totalSupply of many pools with a few multicalls
+ * All calls read the same block, which is stored on the pools with their reserves
+ * Pools whose calls fail are skipped, the others are still loaded
+ * @returns The loaded pools (fresh in-memory pools are returned as they are)
+ */
+export async function loadPoolsData(
+  pools: PoolRef[],
+  forceRefresh: boolean = false
+): Promise<PoolData[]> {
+  const loaded: PoolData[] = [];
+  const toFetch: PoolRef[] = [];
+
+  for (const pool of pools) {
+    const address = pool.address.toLowerCase();
+    // Pools of a previous run are restored from the store, then refreshed if stale
+    const existing =
+      config.state.poolsMap.get(address) ?? restorePool(address, pool.index);
 
     // Skip if already loaded recently
-    if (!forceRefresh && config.state.poolsMap.has(pairAddress)) {
-      const existing = config.state.poolsMap.get(pairAddress)!;
-      const lastUpdate = new Date(existing.updated);
-      const now = new Date();
-      const secondsSinceUpdate = (now.getTime() - lastUpdate.getTime()) / 1000;
-
-      const refreshInterval =
-        index === -1 // -1 is used for priority pairs
-          ? config.PRIORITY_REFRESH_INTERVAL / 1000 // Priority pairs refresh more frequently
-          : config.FULL_REFRESH_INTERVAL / 1000; // Regular pairs refresh less frequently
-
-      // Only refresh if data is older
-      if (secondsSinceUpdate < refreshInterval) {
-        return existing;
-      }
+    if (!forceRefresh && existing && isPoolFresh(existing, pool.index)) {
+      loaded.push(existing);
+    } else {
+      toFetch.push({address, index: pool.index, dex: pool.dex ?? existing?.dex});
     }
+  }
+  if (toFetch.length === 0) return loaded;
+
+  // Pin the reads to one block, the chunks would otherwise each read the latest one
+  const blockNumber = await config.provider.getBlockNumber();
+  const methods = ["token0", "token1", "getReserves", "totalSupply"];
+  const results = await multicall(
+    toFetch.flatMap((pool) =>
+      methods.map((method) => ({
+        target: pool.address,
+        iface: pairInterface,
+        method,
+      }))
+    ),
+    config.MULTICALL_CHUNK_SIZE,
+    blockNumber
+  );
 
-    // Get pool data
-    const pair = new ethers.Contract(
-      pairAddress,
-      config.PAIR_ABI,
-      config.provider
-    );
+  // Fetch info for all new tokens in one go
+  const tokens = results
+    .filter((result, i) => result && i % 4 < 2)
+    .map((result) => (result![0] as string).toLowerCase());
+  await getTokenInfos(tokens);
 
-    const [token0, token1, reserves, totalSupply] = await Promise.all([
-      pair.token0(),
-      pair.token1(),
-      pair.getReserves(),
-      pair.totalSupply(),
-    ]);
-
-    // Get token info in parallel
-    const [token0Info, token1Info] = await Promise.all([
-      getTokenInfo(token0),
-      getTokenInfo(token1),
-    ]);
-    if (!localToken0Info) {
-      localToken0Info = token0Info;
-      localToken1Info = token1Info;
+  toFetch.forEach((pool, i) => {
+    const [token0, token1, reserves, totalSupply] = results.slice(
+      i * 4,
+      i * 4 + 4
+    );
+    if (!token0 || !token1 || !reserves || !totalSupply) {
+      const existing = config.state.poolsMap.get(pool.address);
+      console.log(
+        `Error processing pair ${pool.address} (${
+          existing ? existing.token0.symbol : config.UNKNOW_TOKEN_SYMBOL
+        } -> ${
+          existing ? existing.token1.symbol : config.UNKNOW_TOKEN_SYMBOL
+        }): multicall failed`
+      );
+      return;
     }
 
-    if (
-      token0Info.symbol === config.UNKNOW_TOKEN_SYMBOL ||
-      token1Info.symbol === config.UNKNOW_TOKEN_SYMBOL
-    ) {
-      console.log(`Skipping pool ${pairAddress} due to unknown token info`);
-      return null;
-    }
+    const poolData = buildPoolData(
+      pool.address,
+      pool.index,
+      pool.dex,
+      token0[0].toLowerCase(),
+      token1[0].toLowerCase(),
+      reserves,
+      totalSupply[0],
+      blockNumber
+    );
+    if (poolData) loaded.push(poolData);
+  });
 
-    // Format reserves
-    const reserve0 = ethers.formatUnits(reserves[0], token0Info.decimals);
-    const reserve1 = ethers.formatUnits(reserves[1], token1Info.decimals);
-
-    // Calculate prices
-    const token0Price = Number(reserve1) / Number(reserve0);
-    const token1Price = Number(reserve0) / Number(reserve1);
-
-    // Calculate liquidity
-    let liquidityUSD = config.UNKNOW_LIQUIDITY_USD;
-    const token0Lower = token0.toLowerCase();
-    const token1Lower = token1.toLowerCase();
-
-    const r0 = Number(reserve0);
-    const r1 = Number(reserve1);
-    if (config.STABLECOIN_SET.has(token0Lower) && config.STABLECOIN_SET.has(token1Lower)) {
-      // both stable: sum them (already in USD)
-      liquidityUSD = (r0 + r1).toString();
-    } else if (config.STABLECOIN_SET.has(token0Lower)) {
-      liquidityUSD = (r0 * 2).toString();
-    } else if (config.STABLECOIN_SET.has(token1Lower)) {
-      liquidityUSD = (r1 * 2).toString();
-    } else {
-      liquidityUSD = config.UNKNOW_LIQUIDITY_USD;
-    }
+  if (config.FEE_PROBE_ENABLED) {
+    await probePoolFees(
+      loaded.filter((pool) => pool.feeSource !== "probed"),
+      blockNumber
+    );
+  }
 
-    // Create pool data
-    const poolData: PoolData = {
-      index: index,
-      address: pairAddress,
-      token0: {
-        address: token0.toLowerCase(),
-        name: token0Info.name,
-        symbol: token0Info.symbol,
-        decimals: token0Info.decimals,
-        reserve: reserve0,
-      },
-      token1: {
-        address: token1.toLowerCase(),
-        name: token1Info.name,
-        symbol: token1Info.symbol,
-        decimals: token1Info.decimals,
-        reserve: reserve1,
+  return loaded;
+}
+
+/**
+ * Replace the registry fee of pools with the fee their router actually charges.
+ * Quotes a swap of FEE_PROBE_FRACTION of reserve0 and solves the fee from the reserves,
+ * both read in the same multicall so they come from the same block.
+ * @param blockNumber Block to read at, latest if omitted
+ */
+export async function probePoolFees(pools: PoolData[], blockNumber?: number) {
+  const probes = pools
+    .map((pool) => ({
+      pool,
+      amountIn: BigInt(pool.token0.reserveRaw) / config.FEE_PROBE_FRACTION,
+    }))
+    .filter(({amountIn}) => amountIn > 0n);
+  if (probes.length === 0) return;
+
+  const results = await multicall(
+    probes.flatMap(({pool, amountIn}) => [
+      {
+        target: pool.address,
+        iface: pairInterface,
+        method: "getReserves",
       },
-      prices: {
-        [`${token0Info.symbol}_PER_${token1Info.symbol}`]: token1Price,
-        [`${token1Info.symbol}_PER_${token0Info.symbol}`]: token0Price,
+      {
+        target: getDex(pool.dex).router,
+        iface: routerInterface,
+        method: "getAmountsOut",
+        args: [amountIn, [pool.token0.address, pool.token1.address]],
       },
-      liquidityUSD, // Estimated total liquidity in USD
-      totalSupply: ethers.formatEther(totalSupply), // total LP tokens (total liquidity pool contract tokens)
-      updated: new Date().toISOString(),
-    };
-    // LP tokens 
-    /*📈 What is totalSupply for LP-tokens — and when it changes
+    ]),
+    config.MULTICALL_CHUNK_SIZE,
+    blockNumber
+  );
+
+  let probed = 0;
+  probes.forEach(({pool, amountIn}, i) => {
+    const [reserves, quote] = results.slice(i * 2, i * 2 + 2);
+    if (!reserves || !quote) return;
+
+    const feeBps = solveFeeBps(amountIn, quote[0][1], reserves[0], reserves[1]);
+    if (feeBps === null) {
+      debugLog(`Could not probe the fee of pool ${pool.address}`, 2);
+      return;
+    }
+    if (feeBps !== pool.feeBps) {
+      debugLog(
+        `Pool ${pool.address} (${pool.dex}) charges ${feeBps} bps, registry says ${pool.feeBps} bps`
+      );
+    }
+    pool.feeBps = feeBps;
+    pool.feeSource = "probed";
+    recordPool(pool);
+    probed++;
+  });
+  debugLog(`Probed the swap fee of ${probed} of ${probes.length} pools`, 2);
+}
+
+// Update the reserves of an in-memory pool in place (e.g. from a Sync event)
+export function updatePoolReserves(
+  pool: PoolData,
+  reserve0Raw: bigint,
+  reserve1Raw: bigint,
+  blockNumber: number,
+  blockTimestamp: number
+) {
+  const reserve0 = ethers.formatUnits(reserve0Raw, pool.token0.decimals);
+  const reserve1 = ethers.formatUnits(reserve1Raw, pool.token1.decimals);
+
+  pool.token0.reserve = reserve0;
+  pool.token0.reserveRaw = reserve0Raw.toString();
+  pool.token1.reserve = reserve1;
+  pool.token1.reserveRaw = reserve1Raw.toString();
+  pool.prices = {
+    [`${pool.token0.symbol}_PER_${pool.token1.symbol}`]:
+      Number(reserve0) / Number(reserve1),
+    [`${pool.token1.symbol}_PER_${pool.token0.symbol}`]:
+      Number(reserve1) / Number(reserve0),
+  };
+  pool.liquidityUSD = getPoolLiquidityUSD(pool);
+  pool.blockNumber = blockNumber;
+  pool.blockTimestampLast = blockTimestamp;
+  pool.updated = new Date().toISOString();
+  recordPool(pool);
+}
+
+// Rebuild a pool from its last stored state, null when it isn't stored or its tokens aren't cached
+function restorePool(address: string, index: number): PoolData | null {
+  const stored = getStoredPool(address);
+  if (
+    !stored ||
+    !config.state.tokenCache[stored.token0] ||
+    !config.state.tokenCache[stored.token1]
+  ) {
+    return null;
+  }
+
+  return buildPoolData(
+    address,
+    index,
+    stored.dex,
+    stored.token0,
+    stored.token1,
+    [
+      BigInt(stored.reserve0Raw),
+      BigInt(stored.reserve1Raw),
+      BigInt(stored.blockTimestampLast),
+    ],
+    ethers.parseEther(stored.totalSupply),
+    stored.blockNumber,
+    stored
+  );
+}
+
+// Build the pool data from raw pair values and store it in memory
+// When restoring a stored pool, its fee and update time are kept
+function buildPoolData(
+  pairAddress: string,
+  index: number,
+  dexId: string | undefined,
+  token0: string,
+  token1: string,
+  reserves: bigint[],
+  totalSupply: bigint,
+  blockNumber: number,
+  stored?: StoredPool
+): PoolData | null {
+  const token0Info = config.state.tokenCache[token0];
+  const token1Info = config.state.tokenCache[token1];
+
+  if (
+    !token0Info ||
+    !token1Info ||
+    token0Info.symbol === config.UNKNOW_TOKEN_SYMBOL ||
+    token1Info.symbol === config.UNKNOW_TOKEN_SYMBOL
+  ) {
+    console.log(`Skipping pool ${pairAddress} due to unknown token info`);
+    return null;
+  }
+
+  // Pools loaded by address only are attributed to a DEX from their CREATE2 address
+  const dex = dexId ?? identifyPairDex(pairAddress, token0, token1)?.id;
+  if (!dex) {
+    console.log(`Skipping pool ${pairAddress}: not deployed by an enabled DEX`);
+    return null;
+  }
+
+  // A probed fee outlives reserve refreshes; otherwise use the DEX's fee
+  const existing: PoolData | StoredPool | undefined =
+    stored ?? config.state.poolsMap.get(pairAddress);
+  const probedFee = existing?.feeSource === "probed" ? existing.feeBps : null;
+
+  // Format reserves
+  const reserve0 = ethers.formatUnits(reserves[0], token0Info.decimals);
+  const reserve1 = ethers.formatUnits(reserves[1], token1Info.decimals);
+
+  // Calculate prices
+  const token0Price = Number(reserve1) / Number(reserve0);
+  const token1Price = Number(reserve0) / Number(reserve1);
+
+  // Create pool data
+  const poolData: PoolData = {
+    index: index,
+    address: pairAddress,
+    dex,
+    feeBps: probedFee ?? getDex(dex).feeBps,
+    feeSource: probedFee === null ? "registry" : "probed",
+    token0: {
+      address: token0,
+      name: token0Info.name,
+      symbol: token0Info.symbol,
+      decimals: token0Info.decimals,
+      reserve: reserve0,
+      reserveRaw: reserves[0].toString(),
+    },
+    token1: {
+      address: token1,
+      name: token1Info.name,
+      symbol: token1Info.symbol,
+      decimals: token1Info.decimals,
+      reserve: reserve1,
+      reserveRaw: reserves[1].toString(),
+    },
+    prices: {
+      [`${token0Info.symbol}_PER_${token1Info.symbol}`]: token1Price,
+      [`${token1Info.symbol}_PER_${token0Info.symbol}`]: token0Price,
+    },
+    liquidityUSD: config.UNKNOW_LIQUIDITY_USD, // Estimated total liquidity in USD, set below
+    totalSupply: ethers.formatEther(totalSupply), // total LP tokens (total liquidity pool contract tokens)
+    blockNumber,
+    blockTimestampLast: Number(reserves[2]),
+    updated: stored?.updated ?? new Date().toISOString(),
+  };
+  // LP tokens 
+  /*📈 What is totalSupply for LP-tokens — and when it changes
 	•	totalSupply is the total number of LP tokens currently outstanding for that pool — i.e. all LP tokens minted minus those burned.  ￼
 	•	Initially, when the pool is first created and someone supplies the first liquidity, totalSupply = 0. Then the first liquidity provider deposits token0 + token1; the contract mints a certain amount of LP tokens (minus a small “MINIMUM_LIQUIDITY” reserved amount) and sends them to the provider.  ￼
 	•	On subsequent liquidity additions (by same or different providers), totalSupply increases: new LP tokens are minted in proportion to the amount of liquidity added (relative to existing reserves).  ￼
 	•	On liquidity removal (“burn”), LP tokens are burned, and totalSupply decreases accordingly.  */
 
-    // Save to memory
-    config.state.poolsMap.set(pairAddress, poolData);
+  // Liquidity from the last derived token prices; refreshed with the prices on each scan
+  poolData.liquidityUSD = getPoolLiquidityUSD(poolData);
 
-    // Update token pools lookup
-    updateTokenPoolsMap(token0.toLowerCase(), pairAddress);
-    updateTokenPoolsMap(token1.toLowerCase(), pairAddress);
+  // Save to memory, and to the store unless it comes from there
+  config.state.poolsMap.set(pairAddress, poolData);
+  if (!stored) recordPool(poolData);
 
-    return poolData;
-  } catch (error) {
-    console.log(
-      `Error processing pair ${pairAddress} (${
-        localToken0Info ? localToken0Info.symbol : config.UNKNOW_TOKEN_SYMBOL
-      } -> ${
-        localToken1Info ? localToken1Info.symbol : config.UNKNOW_TOKEN_SYMBOL
-      }): ${error}`
-    );
-    // Wait a moment before returning to avoid rapid retries on persistent errors
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    return null;
-  }
+  // Update token pools lookup
+  updateTokenPoolsMap(token0, pairAddress);
+  updateTokenPoolsMap(token1, pairAddress);
+
+  return poolData;
 }
@@ -4,14 +4,7 @@ import fs from "fs";
 import path from "path";
 import {FlashSwap} from "../typechain-types";
 import readline from "readline";
-
-// Token reference for BSC Testnet
-const TESTNET_TOKENS = {
-  BUSD: "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7", // BUSD on testnet
-  CAKE: "0xFa60D973F7642B748046464e165A65B7323b0DEE", // CAKE on testnet
-  USDT: "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684", // USDT on testnet
-  WBNB: "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd", // WBNB on testnet
-};
+import {ChainProfile, getChainProfile, getExplorerLink} from "./chain-profiles";
 
 interface BaseEvent {
   type: string;
@@ -140,13 +133,12 @@ async function attachToContract(contractAddress: string) {
 /**
  * Displays token information for reference
  */
-function displayTokenReference() {
+function displayTokenReference(profile: ChainProfile) {
   console.log("----------------------------------------------------");
-  console.log("Popular BSC Testnet Tokens:");
-  console.log(`BUSD: ${TESTNET_TOKENS.BUSD}`);
-  console.log(`CAKE: ${TESTNET_TOKENS.CAKE}`);
-  console.log(`USDT: ${TESTNET_TOKENS.USDT}`);
-  console.log(`WBNB: ${TESTNET_TOKENS.WBNB}`);
+  console.log(`Popular ${profile.name} Tokens:`);
+  for (const [symbol, address] of Object.entries(profile.priorityTokens)) {
+    console.log(`${symbol}: ${address}`);
+  }
   console.log("----------------------------------------------------");
 }
 
@@ -170,14 +162,17 @@ async function executeArbitrage(
     token1,
     token2,
     0,
-    [997, 997, 997] // slippage for 3 trades
+    [997, 997, 997], // slippage for 3 trades
+    [] // no minimum outputs
   );
 
   console.log(`Transaction sent! Hash: ${tx.hash}`);
   console.log(
-    `View on explorer: https://${
-      chainId === 97n ? "testnet." : ""
-    }bscscan.com/tx/${tx.hash}`
+    `View on explorer: ${getExplorerLink(
+      getChainProfile(chainId),
+      "tx",
+      tx.hash
+    )}`
   );
 
   console.log("Waiting for transaction confirmation...");
@@ -456,7 +451,7 @@ async function main() {
     const flashSwap = await attachToContract(contractAddress);
 
     // Display token reference for user convenience
-    displayTokenReference();
+    displayTokenReference(getChainProfile(chainId));
 
     // Get token0 (to borrow) from user
     console.log("----------------------------------------------------");
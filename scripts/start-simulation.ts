@@ -2,7 +2,12 @@
 import {ethers} from "hardhat";
 import {Contract} from "ethers";
 import * as readline from "readline";
-import {PRIORITY_TOKENS_MUTABLE} from "./scan/config";
+import {
+  ChainProfile,
+  getChainProfile,
+  getPrimaryDexInfo,
+} from "./chain-profiles";
+import {getFlashLoanRepayAmount, solveFeeBps} from "./scan/utils-amm";
 
 // Interfaces we need to interact with
 const IUniswapV2Factory = [
@@ -19,13 +24,6 @@ const IUniswapV2Router = [
   "function getAmountsOut(uint amountIn, address[] memory path) external view returns (uint[] memory amounts)",
 ];
 
-const TESTNET_TOKENS = {
-  BUSD: "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7",
-  CAKE: "0xFa60D973F7642B748046464e165A65B7323b0DEE",
-  USDT: "0x7ef95a0FEE0Dd31b22626fA2e10Ee6A223F8a684",
-  WBNB: "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd",
-};
-
 // Simulation result structure (matches the contract's structure)
 interface SimulationResult {
   success: boolean;
@@ -38,9 +36,34 @@ interface SimulationResult {
   isProfitable: boolean;
   profitAmount: bigint;
   repayAmount: bigint;
+  feesBps: (number | null)[]; // Swap fee of each trade's pair, solved from its quote
   contractCheck?: ContractBalanceCheck;
 }
 
+// Swap fee of a pair in bps, solved from a router quote and the pair reserves
+async function getPairFeeBps(
+  factory: Contract,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  amountOut: bigint
+): Promise<number | null> {
+  const pairAddress = await factory.getPair(tokenIn, tokenOut);
+  if (pairAddress === ethers.ZeroAddress) return null;
+
+  const pair = new ethers.Contract(
+    pairAddress,
+    IUniswapV2Pair,
+    ethers.provider
+  );
+  const [reserve0, reserve1] = await pair.getReserves();
+  const isToken0In =
+    (await pair.token0()).toLowerCase() === tokenIn.toLowerCase();
+  return isToken0In
+    ? solveFeeBps(amountIn, amountOut, reserve0, reserve1)
+    : solveFeeBps(amountIn, amountOut, reserve1, reserve0);
+}
+
 // Add near the top of your file with other interfaces
 interface ContractBalanceCheck {
   address: string;
@@ -94,21 +117,11 @@ async function main() {
     console.log(`Connected to network with chain ID: ${chainId}`);
 
     // Set up contract addresses based on network
-    let factoryAddress: string, routerAddress: string, baseTokenAddress: string;
-
-    if (chainId === 97n) {
-      // BSC Testnet
-      factoryAddress = "0x6725F303b657a9451d8BA641348b6761A6CC7a17";
-      routerAddress = "0xD99D1c33F9fC3444f8101754aBC46c52416550D1";
-      baseTokenAddress = "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd"; // WBNB
-    } else if (chainId === 56n) {
-      // BSC Mainnet
-      factoryAddress = "0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73";
-      routerAddress = "0x10ED43C718714eb63d5aA57B78B54704E256024E";
-      baseTokenAddress = "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c"; // WBNB
-    } else {
-      throw new Error(`Unsupported network: ${chainId}`);
-    }
+    const profile = getChainProfile(chainId);
+    const primaryDex = getPrimaryDexInfo(profile);
+    const factoryAddress = primaryDex.factory;
+    const routerAddress = primaryDex.router;
+    const baseTokenAddress = profile.baseToken.address;
 
     // Create contract instances
     const factory = new ethers.Contract(
@@ -123,7 +136,7 @@ async function main() {
     );
 
     // Display token reference
-    displayTokenReference(chainId);
+    displayTokenReference(profile);
 
     // Get tokens and amount from user input
     const token0 = await askQuestion(rl, "Enter token to borrow: ");
@@ -256,6 +269,7 @@ async function simulateArbitrage(
     isProfitable: false,
     profitAmount: 0n,
     repayAmount: 0n,
+    feesBps: [],
   };
 
   // Step 1: Check if borrow pool exists and has sufficient liquidity
@@ -390,9 +404,36 @@ async function simulateArbitrage(
     return result;
   }
 
-  // Step 5: Calculate profitability
-  const fee = (amount * 3n) / 997n + 1n; // 0.3% fee calculation
-  result.repayAmount = amount + fee;
+  // Step 5: Swap fee of each pair; the router quotes above already include them
+  try {
+    result.feesBps = await Promise.all([
+      getPairFeeBps(factory, token0, token1, amount, result.expectedTrade1),
+      getPairFeeBps(
+        factory,
+        token1,
+        token2,
+        result.expectedTrade1,
+        result.expectedTrade2
+      ),
+      getPairFeeBps(
+        factory,
+        token2,
+        token0,
+        result.expectedTrade2,
+        result.expectedTrade3
+      ),
+    ]);
+  } catch (error) {
+    console.log(
+      `Could not read the pair fees: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  // Step 6: Calculate profitability
+  result.repayAmount = getFlashLoanRepayAmount(amount); // 0.3% fee calculation
+  const fee = result.repayAmount - amount;
 
   console.log(`Flash loan fee: ${ethers.formatUnits(fee, 18)} ${token0}`);
   console.log(
@@ -438,6 +479,12 @@ function displayResults(
       )} ${token2} → ${ethers.formatUnits(result.expectedTrade3, 18)} ${token0}`
     );
 
+    console.log(
+      `Swap fees: ${result.feesBps
+        .map((feeBps) => (feeBps === null ? "unknown" : `${feeBps} bps`))
+        .join(", ")}`
+    );
+
     console.log("\nFlash Loan Details:");
     console.log(
       `Borrow Amount: ${ethers.formatUnits(result.amountIn, 18)} ${token0}`
@@ -527,35 +574,11 @@ async function askQuestion(
 }
 
 // Display token references
-function displayTokenReference(chainId: bigint) {
+function displayTokenReference(profile: ChainProfile) {
   console.log("----------------------------------------------------");
-
-  // Check which network we're on
-  if (chainId === 97n) {
-    // BSC Testnet
-    console.log("Popular BSC Testnet Tokens:");
-    console.log(`BUSD: ${TESTNET_TOKENS.BUSD}`);
-    console.log(`CAKE: ${TESTNET_TOKENS.CAKE}`);
-    console.log(`USDT: ${TESTNET_TOKENS.USDT}`);
-    console.log(`WBNB: ${TESTNET_TOKENS.WBNB}`);
-  } else if (chainId === 56n) {
-    // BSC Mainnet
-    console.log("Popular BSC Mainnet Tokens:");
-    console.log(`WBNB:  ${PRIORITY_TOKENS_MUTABLE.WBNB}`);
-    console.log(`BUSD:  ${PRIORITY_TOKENS_MUTABLE.BUSD}`);
-    console.log(`USDT:  ${PRIORITY_TOKENS_MUTABLE.USDT}`);
-    console.log(`CAKE:  ${PRIORITY_TOKENS_MUTABLE.CAKE}`);
-    console.log(`ETH:   ${PRIORITY_TOKENS_MUTABLE.ETH}`);
-    console.log(`BTCB:  ${PRIORITY_TOKENS_MUTABLE.BTCB}`);
-    console.log(`USDC:  ${PRIORITY_TOKENS_MUTABLE.USDC}`);
-
-    console.log("\nAdditional High-Liquidity Tokens:");
-    //console.log(`DOT:   ${PRIORITY_TOKENS_MUTABLE.DOT}`);
-    //console.log(`ADA:   ${PRIORITY_TOKENS_MUTABLE.ADA}`);
-    console.log(`DOGE:  ${PRIORITY_TOKENS_MUTABLE.DOGE}`);
-    //console.log(`XRP:   ${PRIORITY_TOKENS_MUTABLE.XRP}`);
-    //console.log(`MATIC: ${PRIORITY_TOKENS_MUTABLE.MATIC}`);
-    //console.log(`LINK:  ${PRIORITY_TOKENS_MUTABLE.LINK}`);
+  console.log(`Popular ${profile.name} Tokens:`);
+  for (const [symbol, address] of Object.entries(profile.priorityTokens)) {
+    console.log(`${`${symbol}:`.padEnd(6)} ${address}`);
   }
   console.log("----------------------------------------------------");
 }
@@ -1,10 +1,15 @@
 import {ethers} from "hardhat";
+import {
+  getPrimaryDexInfo,
+  getTokenAddress,
+  resolveChainProfile,
+} from "./chain-profiles";
 
 async function main() {
-  // PancakeSwap Router address on BSC Testnet
-  const ROUTER = "0xD99D1c33F9fC3444f8101754aBC46c52416550D1";
-  // BUSD address on BSC Testnet
-  const BUSD = "0x78867BbEeF44f2326bF8DDd1941a4439382EF2A7";
+  // Router of the chain's primary DEX and its BUSD
+  const profile = await resolveChainProfile(ethers.provider);
+  const ROUTER = getPrimaryDexInfo(profile).router;
+  const BUSD = getTokenAddress(profile, "BUSD");
 
   // Get signer
   const [signer] = await ethers.getSigners();
@@ -21,7 +26,7 @@ async function main() {
   const router = new ethers.Contract(ROUTER, routerAbi, signer);
 
   // Create path for swap (BNB → BUSD)
-  const WBNB = "0xae13d989daC2f0dEbFf460aC112a837C89BAa7cd";
+  const WBNB = profile.baseToken.address;
   const path = [WBNB, BUSD];
 
   // Execute swap
@@ -0,0 +1,204 @@
+import {expect} from "chai";
+import * as config from "../scripts/scan/config";
+import {
+  enumerateCycles,
+  enumerateCyclesThrough,
+  getCycleId,
+} from "../scripts/scan/cycles";
+import {
+  addPoolToCycleIndex,
+  clearCycleIndex,
+  getIndexedCycles,
+  removePoolFromCycleIndex,
+} from "../scripts/scan/cycle-index";
+import {ArbitrageCycle, PoolData} from "../scripts/scan/types";
+
+describe("Cycle search", () => {
+  // Only the graph structure matters to the enumeration
+  function addPool(address: string, tokenA: string, tokenB: string) {
+    config.state.poolsMap.set(address, {
+      address,
+      token0: {address: tokenA},
+      token1: {address: tokenB},
+    } as unknown as PoolData);
+    for (const token of [tokenA, tokenB]) {
+      if (!config.state.tokenPools.has(token)) {
+        config.state.tokenPools.set(token, new Set());
+      }
+      config.state.tokenPools.get(token)!.add(address);
+    }
+  }
+
+  function clearGraph() {
+    config.state.poolsMap.clear();
+    config.state.tokenPools.clear();
+    clearCycleIndex();
+  }
+
+  // Deterministic graph of tokenCount tokens and poolCount pools
+  function addRandomGraph(tokenCount: number, poolCount: number) {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed / 2 ** 31;
+    };
+    for (let i = 0; i < poolCount; i++) {
+      const tokenA = Math.floor(random() * tokenCount);
+      const tokenB =
+        (tokenA + 1 + Math.floor(random() * (tokenCount - 1))) % tokenCount;
+      addPool(`pool${i}`, `token${tokenA}`, `token${tokenB}`);
+    }
+  }
+
+  const getIds = (cycles: ArbitrageCycle[]) =>
+    cycles.map((cycle) => cycle.id).sort();
+
+  afterEach(clearGraph);
+
+  describe("enumerateCycles", () => {
+    beforeEach(() => {
+      // Triangle a-b-c, and two pools between a and b
+      addPool("ab", "a", "b");
+      addPool("bc", "b", "c");
+      addPool("ca", "c", "a");
+      addPool("ab2", "a", "b");
+    });
+
+    it("finds every cycle through the start token in both directions", () => {
+      expect(getIds(enumerateCycles(["a"], 3))).to.deep.equal(
+        [
+          ["ab", "bc", "ca"],
+          ["ca", "bc", "ab"],
+          ["ab2", "bc", "ca"],
+          ["ca", "bc", "ab2"],
+          ["ab", "ab2"],
+          ["ab2", "ab"],
+        ]
+          .map((pools) => getCycleId("a", pools))
+          .sort()
+      );
+    });
+
+    it("returns the trade path of each cycle", () => {
+      const cycle = enumerateCycles(["a"], 3).find(
+        (cycle) => cycle.id === getCycleId("a", ["ab", "bc", "ca"])
+      );
+      expect(cycle).to.deep.include({
+        startToken: "a",
+        tokens: ["a", "b", "c", "a"],
+        poolAddresses: ["ab", "bc", "ca"],
+      });
+    });
+
+    it("respects the maximum number of hops", () => {
+      const cycles = enumerateCycles(["a"], 2);
+      expect(getIds(cycles)).to.deep.equal(
+        [getCycleId("a", ["ab", "ab2"]), getCycleId("a", ["ab2", "ab"])].sort()
+      );
+    });
+
+    it("uses each pool and intermediate token once", () => {
+      addPool("cd", "c", "d");
+      addPool("db", "d", "b");
+      for (const cycle of enumerateCycles(["a"], 5)) {
+        const middle = cycle.tokens.slice(1, -1);
+        expect(new Set(middle).size).to.equal(middle.length);
+        expect(middle).to.not.include("a");
+        expect(new Set(cycle.poolAddresses).size).to.equal(
+          cycle.poolAddresses.length
+        );
+      }
+    });
+  });
+
+  describe("enumerateCyclesThrough", () => {
+    const START_TOKENS = ["token0", "token1", "token2"];
+
+    beforeEach(() => addRandomGraph(12, 40));
+
+    for (const maxHops of [3, 4, 5]) {
+      it(`matches the full enumeration filtered to the pools (${maxHops} hops)`, () => {
+        const pools = new Set(["pool0", "pool7", "pool13", "pool21", "pool34"]);
+        const expected = enumerateCycles(START_TOKENS, maxHops).filter(
+          (cycle) => cycle.poolAddresses.some((pool) => pools.has(pool))
+        );
+        expect(expected).to.not.be.empty;
+
+        const cycles = enumerateCyclesThrough(START_TOKENS, pools, maxHops);
+        expect(getIds(cycles)).to.deep.equal(getIds(expected));
+      });
+    }
+
+    it("returns a cycle through several of the pools once", () => {
+      const cycles = enumerateCyclesThrough(
+        START_TOKENS,
+        config.state.poolsMap.keys(),
+        4
+      );
+      const ids = getIds(cycles);
+      expect(new Set(ids).size).to.equal(ids.length);
+      expect(ids).to.deep.equal(getIds(enumerateCycles(START_TOKENS, 4)));
+    });
+  });
+
+  describe("cycle index", () => {
+    const priorityTokens = {...config.PRIORITY_TOKENS_MUTABLE};
+
+    function setPriorityTokens(tokens: {[symbol: string]: string}) {
+      for (const symbol of Object.keys(config.PRIORITY_TOKENS_MUTABLE)) {
+        delete config.PRIORITY_TOKENS_MUTABLE[symbol];
+      }
+      Object.assign(config.PRIORITY_TOKENS_MUTABLE, tokens);
+    }
+
+    beforeEach(() => setPriorityTokens({T0: "token0", T1: "token1"}));
+    after(() => setPriorityTokens(priorityTokens));
+
+    it("adds the cycles of new pools without duplicates", () => {
+      addRandomGraph(10, 20);
+      getIndexedCycles();
+      addPool("extra1", "token0", "token5");
+      addPool("extra2", "token5", "token1");
+      addPoolToCycleIndex("extra1");
+      addPoolToCycleIndex("extra2");
+
+      const ids = getIds(getIndexedCycles());
+      expect(new Set(ids).size).to.equal(ids.length);
+      expect(ids).to.deep.equal(
+        getIds(enumerateCycles(["token0", "token1"], config.MAX_CYCLE_HOPS))
+      );
+    });
+
+    it("returns the cycles through the given pools", () => {
+      addRandomGraph(10, 20);
+      const cycles = getIndexedCycles(new Set(["pool3"]));
+      expect(cycles).to.not.be.empty;
+      for (const cycle of cycles) {
+        expect(cycle.poolAddresses).to.include("pool3");
+      }
+    });
+
+    it("drops the cycles of a removed pool", () => {
+      addRandomGraph(10, 20);
+      getIndexedCycles();
+      removePoolFromCycleIndex("pool3");
+
+      const cycles = getIndexedCycles();
+      expect(cycles).to.not.be.empty;
+      for (const cycle of cycles) {
+        expect(cycle.poolAddresses).to.not.include("pool3");
+      }
+      expect(config.state.poolCycles.has("pool3")).to.equal(false);
+    });
+
+    it("rebuilds when the start tokens change", () => {
+      addRandomGraph(10, 20);
+      getIndexedCycles();
+      setPriorityTokens({T2: "token2"});
+
+      expect(getIds(getIndexedCycles())).to.deep.equal(
+        getIds(enumerateCycles(["token2"], config.MAX_CYCLE_HOPS))
+      );
+    });
+  });
+});
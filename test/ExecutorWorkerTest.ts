@@ -0,0 +1,196 @@
+import {expect} from "chai";
+import net from "net";
+import {ethers} from "hardhat";
+import {Queue, QueueEvents, Worker} from "bullmq";
+import {impersonateFundErc20} from "../utils/utilities";
+import {FlashSwap, IERC20__factory} from "../typechain-types";
+import {getChainProfile, getPrimaryDexInfo} from "../scripts/chain-profiles";
+import {
+  ArbitrageJobResult,
+  startExecutorWorker,
+} from "../scripts/executor/worker";
+import {createFlashJob, FLASH_JOB_NAME} from "../scripts/flash-job";
+
+const provider = ethers.provider;
+
+const REDIS_CONNECTION = {
+  host: process.env.REDIS_HOST ?? "localhost",
+  port: Number(process.env.REDIS_PORT ?? 6379),
+};
+
+// The worker needs a real Redis; BullMQ would retry the connection forever
+function isRedisReachable(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect(REDIS_CONNECTION);
+    socket.setTimeout(1000);
+    socket.once("connect", () => {
+      socket.end();
+      resolve(true);
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once("error", () => resolve(false));
+  });
+}
+
+describe("Executor worker", () => {
+  let FLASHSWAP: FlashSwap;
+  let queue: Queue;
+  let queueEvents: QueueEvents;
+  let worker: Worker;
+
+  const BUSD_WHALE = "0x8894e0a0c962cb723c1976a4421c95949be2d4e3";
+  const BUSD = "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56";
+  const CAKE = "0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82";
+  const USDT = "0x55d398326f99059fF775485246999027B3197955";
+
+  const BORROW_AMOUNT = ethers.parseUnits("1", 18);
+  // A queue of its own so a running scanner or executor doesn't take the jobs
+  const QUEUE_NAME = `flash-queue-test-${Date.now()}`;
+
+  const JOB = createFlashJob({
+    token0: BUSD,
+    borrowAmount: BORROW_AMOUNT,
+    token1: CAKE,
+    token2: USDT,
+    deadLineMin: 5,
+    slippages: [990, 990, 990],
+    metadata: {
+      cycleId: "test",
+      detectionBlock: 0,
+      expectedProfit: 0n,
+      createdAt: Date.now(),
+    },
+  });
+
+  before(async function () {
+    if (!(await isRedisReachable())) {
+      console.log("Redis is not reachable, skipping the executor tests");
+      this.skip();
+    }
+
+    const [owner] = await ethers.getSigners();
+    const profile = getChainProfile(56);
+    const dex = getPrimaryDexInfo(profile);
+    const FlashSwap = await ethers.getContractFactory("FlashSwap");
+    FLASHSWAP = await FlashSwap.deploy(
+      dex.factory,
+      dex.router,
+      profile.baseToken.address
+    );
+    // Unprofitable trades go through, the funding below covers the loss
+    await FLASHSWAP.setTestMode(true);
+    await impersonateFundErc20(
+      IERC20__factory.connect(BUSD, provider),
+      BUSD_WHALE,
+      await FLASHSWAP.getAddress(),
+      "100"
+    );
+
+    queue = new Queue(QUEUE_NAME, {connection: REDIS_CONNECTION});
+    queueEvents = new QueueEvents(QUEUE_NAME, {connection: REDIS_CONNECTION});
+    await queueEvents.waitUntilReady();
+    worker = startExecutorWorker({
+      flashSwapAddress: await FLASHSWAP.getAddress(),
+      signer: owner,
+      queueName: QUEUE_NAME,
+      connection: REDIS_CONNECTION,
+      confirmations: 1,
+    });
+  });
+
+  after(async () => {
+    await worker?.close();
+    await queueEvents?.close();
+    await queue?.obliterate({force: true});
+    await queue?.close();
+  });
+
+  it("executes a flash job and returns the ArbitrageExecuted values", async () => {
+    const job = await queue.add(FLASH_JOB_NAME, JOB);
+    const result: ArbitrageJobResult = await job.waitUntilFinished(queueEvents);
+
+    expect(result.tokenBorrowed.toLowerCase()).to.equal(BUSD.toLowerCase());
+    expect(result.amountBorrowed).to.equal(BORROW_AMOUNT.toString());
+    const receipt = await provider.getTransactionReceipt(result.txHash);
+    expect(receipt?.status).to.equal(1);
+    expect(receipt?.blockNumber).to.equal(result.blockNumber);
+  });
+
+  it("fails the job with the revert reason of FlashSwap", async () => {
+    await FLASHSWAP.setTestMode(false);
+    const job = await queue.add(FLASH_JOB_NAME, JOB);
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      "Not Profitable!"
+    );
+    await FLASHSWAP.setTestMode(true);
+  });
+
+  it("fails the job when a hop returns less than its minimum", async () => {
+    const job = await queue.add(FLASH_JOB_NAME, {
+      ...JOB,
+      minAmountsOut: [BORROW_AMOUNT * 1000n, 0n, 0n].map(String),
+    });
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      "Trade output below minimum"
+    );
+  });
+
+  it("uses the contract's deadline for jobs without one", async () => {
+    const job = await queue.add(FLASH_JOB_NAME, {...JOB, deadLineMin: 0});
+    const result: ArbitrageJobResult = await job.waitUntilFinished(queueEvents);
+
+    expect(result.amountBorrowed).to.equal(BORROW_AMOUNT.toString());
+  });
+
+  it("drops jobs past their deadline", async () => {
+    // Added longer ago than the job's 5 minute deadline
+    const job = await queue.add(FLASH_JOB_NAME, JOB, {
+      timestamp: Date.now() - 10 * 60 * 1000,
+    });
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      "expired"
+    );
+  });
+
+  it("drops jobs past their expiry block", async () => {
+    const expiryBlock = (await provider.getBlockNumber()) - 1;
+    const job = await queue.add(FLASH_JOB_NAME, {...JOB, expiryBlock});
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      `expired at block ${expiryBlock}`
+    );
+  });
+
+  it("rejects jobs that don't match the job schema", async () => {
+    const job = await queue.add(FLASH_JOB_NAME, {
+      ...JOB,
+      slippages: [980, 980, 980],
+    });
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      "slippages"
+    );
+  });
+
+  it("rejects jobs of another schema version", async () => {
+    const job = await queue.add(FLASH_JOB_NAME, {...JOB, version: 0});
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      "version 0"
+    );
+  });
+
+  it("rejects jobs with another name", async () => {
+    const job = await queue.add("other", JOB);
+
+    await expect(job.waitUntilFinished(queueEvents)).to.be.rejectedWith(
+      "Unknown job name"
+    );
+  });
+});
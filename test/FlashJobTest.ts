@@ -0,0 +1,104 @@
+import {expect} from "chai";
+import {getAddress} from "ethers";
+import {
+  createFlashJob,
+  FLASH_JOB_VERSION,
+  FlashJob,
+  getFlashJobProblems,
+  validateFlashJob,
+} from "../scripts/flash-job";
+
+describe("Flash jobs", () => {
+  const [TOKEN0, TOKEN1, TOKEN2] = ["ab", "cd", "ef"].map((byte) =>
+    getAddress(`0x${byte.repeat(20)}`)
+  );
+
+  function job(overrides: Partial<FlashJob> = {}): FlashJob {
+    return {
+      version: FLASH_JOB_VERSION,
+      token0: TOKEN0,
+      token1: TOKEN1,
+      token2: TOKEN2,
+      borrowAmount: "1000",
+      deadLineMin: 0,
+      slippages: [995, 995, 995],
+      minAmountsOut: ["990", "980", "1001"],
+      metadata: {
+        cycleId: "cycle",
+        detectionBlock: 100,
+        expectedProfit: "5",
+        createdAt: 1,
+      },
+      ...overrides,
+    };
+  }
+
+  it("accepts a valid job", () => {
+    expect(getFlashJobProblems(job())).to.be.empty;
+    expect(getFlashJobProblems(job({slippages: []}))).to.be.empty;
+  });
+
+  it("accepts a zero expected profit", () => {
+    const data = job();
+    data.metadata.expectedProfit = "0";
+    expect(getFlashJobProblems(data)).to.be.empty;
+  });
+
+  it("rejects slippages outside what FlashSwap accepts", () => {
+    for (const slippages of [
+      [989, 995, 995],
+      [995, 995, 1000],
+      [995.5, 995, 995],
+      [995, 995],
+    ]) {
+      expect(getFlashJobProblems(job({slippages}))).to.deep.equal([
+        "slippages is neither empty nor 3 integers in [990, 999]",
+      ]);
+    }
+  });
+
+  it("rejects addresses that aren't checksummed", () => {
+    expect(
+      getFlashJobProblems(job({token1: TOKEN1.toLowerCase(), token2: "0x12"}))
+    ).to.deep.equal(["token1 is not checksummed", "token2 is not an address"]);
+  });
+
+  it("rejects other versions before looking at the fields", () => {
+    expect(getFlashJobProblems({version: 0})).to.deep.equal([
+      `version 0, expected ${FLASH_JOB_VERSION}`,
+    ]);
+    expect(getFlashJobProblems(null)).to.deep.equal(["not an object"]);
+  });
+
+  it("lists every problem of a job", () => {
+    expect(() =>
+      validateFlashJob({...job(), borrowAmount: "0", metadata: undefined})
+    )
+      .to.throw("Invalid flash job")
+      .with.property("message")
+      .that.includes("borrowAmount is not a positive integer string")
+      .and.includes("metadata is missing");
+  });
+
+  it("encodes the fields of a new job", () => {
+    const created = createFlashJob({
+      token0: TOKEN0.toLowerCase(),
+      token1: TOKEN1,
+      token2: TOKEN2,
+      borrowAmount: 1000n,
+      deadLineMin: 0,
+      slippages: [995, 995, 995],
+      minAmountsOut: [990n, 980n, 1001n],
+      metadata: {
+        cycleId: "cycle",
+        detectionBlock: 100,
+        expectedProfit: 0n,
+        createdAt: 1,
+      },
+    });
+    expect(created).to.deep.equal({
+      ...job(),
+      metadata: {...job().metadata, expectedProfit: "0"},
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import {expect} from "chai";
+import * as config from "../scripts/scan/config";
+import {
+  claimOpportunity,
+  getExpiryBlock,
+  recordSentJobs,
+  releaseOpportunity,
+} from "../scripts/scan/opportunity-dedup";
+import {ArbitrageOpportunity} from "../scripts/scan/types";
+
+describe("Opportunity de-duplication", () => {
+  const queueRemove = config.arbitrageQueue.remove;
+  let removedJobs: string[];
+
+  // Each test uses cycles of its own, the sent jobs are module state
+  let cycleCount = 0;
+  const newCycleId = () => `cycle-${++cycleCount}`;
+
+  function opportunity(
+    cycleId: string,
+    blockNumber: number,
+    expectedProfit: number
+  ): ArbitrageOpportunity {
+    return {cycleId, blockNumber, expectedProfit} as ArbitrageOpportunity;
+  }
+
+  // Claim, queue and release like sendArbitrage
+  async function send(sent: ArbitrageOpportunity, jobIds: string[]) {
+    expect(claimOpportunity(sent)).to.equal(null);
+    await recordSentJobs(sent, jobIds);
+    releaseOpportunity(sent);
+  }
+
+  // The queue isn't needed to check which jobs are replaced
+  beforeEach(() => {
+    removedJobs = [];
+    config.arbitrageQueue.remove = async (jobId: string) => {
+      removedJobs.push(jobId);
+      return 1;
+    };
+  });
+
+  after(() => {
+    config.arbitrageQueue.remove = queueRemove;
+  });
+
+  it("lets one send of a cycle claim it at a time", () => {
+    const first = opportunity(newCycleId(), 100, 1);
+    expect(claimOpportunity(first)).to.equal(null);
+    expect(claimOpportunity(first)).to.equal("already being sent");
+
+    releaseOpportunity(first);
+    expect(claimOpportunity(first)).to.equal(null);
+    releaseOpportunity(first);
+  });
+
+  it("keeps cycles apart", async () => {
+    await send(opportunity(newCycleId(), 100, 1), ["job-1"]);
+    expect(claimOpportunity(opportunity(newCycleId(), 100, 1))).to.equal(null);
+  });
+
+  it("rejects reserves no newer than the sent ones", async () => {
+    const cycleId = newCycleId();
+    await send(opportunity(cycleId, 100, 1), ["job-1"]);
+
+    expect(claimOpportunity(opportunity(cycleId, 100, 2))).to.equal(
+      "already sent at block 100"
+    );
+    expect(claimOpportunity(opportunity(cycleId, 99, 2))).to.equal(
+      "already sent at block 100"
+    );
+  });
+
+  it("rejects a newer opportunity that isn't better enough", async () => {
+    const cycleId = newCycleId();
+    await send(opportunity(cycleId, 100, 1), ["job-1"]);
+
+    const profit = 1 + config.OPPORTUNITY_REPLACE_IMPROVEMENT;
+    expect(claimOpportunity(opportunity(cycleId, 101, profit))).to.equal(
+      "not better than the job sent at block 100"
+    );
+  });
+
+  it("replaces the jobs of a cycle with a better opportunity", async () => {
+    const cycleId = newCycleId();
+    await send(opportunity(cycleId, 100, 1), ["job-1", "job-2"]);
+
+    const better = opportunity(
+      cycleId,
+      101,
+      (1 + config.OPPORTUNITY_REPLACE_IMPROVEMENT) * 1.01
+    );
+    await send(better, ["job-3"]);
+    expect(removedJobs).to.deep.equal(["job-1", "job-2"]);
+
+    // The replacement is what later opportunities are compared with
+    expect(claimOpportunity(opportunity(cycleId, 102, 1.1))).to.equal(
+      "not better than the job sent at block 101"
+    );
+  });
+
+  it("sends a cycle again once its job expired", async () => {
+    const cycleId = newCycleId();
+    const sent = opportunity(cycleId, 100, 1);
+    await send(sent, ["job-1"]);
+    expect(getExpiryBlock(sent)).to.equal(100 + config.OPPORTUNITY_TTL_BLOCKS);
+
+    const expiryBlock = getExpiryBlock(sent);
+    expect(claimOpportunity(opportunity(cycleId, expiryBlock, 0.5))).to.equal(
+      "not better than the job sent at block 100"
+    );
+    const later = opportunity(cycleId, expiryBlock + 1, 0.5);
+    expect(claimOpportunity(later)).to.equal(null);
+    await recordSentJobs(later, ["job-2"]);
+    releaseOpportunity(later);
+    expect(removedJobs).to.be.empty;
+  });
+});
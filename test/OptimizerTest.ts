@@ -0,0 +1,92 @@
+import {expect} from "chai";
+import {
+  findOptimalAmount,
+  getClosedFormOptimalAmount,
+  getCycleProfit,
+} from "../scripts/scan/optimizer";
+import {HopReserves, getSwapFee} from "../scripts/scan/utils-amm";
+
+describe("Cycle optimizer", () => {
+  const ONE = 10n ** 18n;
+
+  function hop(
+    reserveIn: bigint,
+    reserveOut: bigint,
+    feeBps = 25
+  ): HopReserves {
+    return {
+      reserveIn: reserveIn * ONE,
+      reserveOut: reserveOut * ONE,
+      fee: getSwapFee(feeBps),
+    };
+  }
+
+  // Best amount on an even grid up to maxAmount
+  function bruteForce(hops: HopReserves[], maxAmount: bigint, steps: bigint) {
+    const step = maxAmount / steps;
+    let best = getCycleProfit(step, hops);
+    for (let amount = 2n * step; amount <= maxAmount; amount += step) {
+      const point = getCycleProfit(amount, hops);
+      if (point.profit > best.profit) best = point;
+    }
+    return {best, step};
+  }
+
+  const CYCLES: {[name: string]: HopReserves[]} = {
+    "3 hops": [hop(1000n, 1100n), hop(2000n, 2000n), hop(500n, 500n)],
+    "4 hops, mixed fees": [
+      hop(800n, 900n, 30),
+      hop(5000n, 5100n),
+      hop(300n, 310n, 20),
+      hop(10000n, 10050n),
+    ],
+    "2 hops, skewed reserves": [hop(100n, 20000n), hop(210000n, 1100n, 30)],
+  };
+
+  for (const [name, hops] of Object.entries(CYCLES)) {
+    describe(name, () => {
+      const {best, step} = bruteForce(hops, hops[0].reserveIn, 20000n);
+
+      it("puts the closed-form optimum next to the brute-force one", () => {
+        expect(best.profit > 0n).to.equal(true);
+        const estimate = getClosedFormOptimalAmount(hops);
+        const distance =
+          estimate > best.amountIn
+            ? estimate - best.amountIn
+            : best.amountIn - estimate;
+        expect(distance <= step).to.equal(true);
+      });
+
+      it("finds at least the brute-force profit", () => {
+        const optimum = findOptimalAmount(hops)!;
+        expect(optimum).to.not.equal(null);
+        expect(optimum.profit >= best.profit).to.equal(true);
+        expect(optimum).to.deep.include(getCycleProfit(optimum.amountIn, hops));
+      });
+
+      it("returns the profit curve around the optimum", () => {
+        const optimum = findOptimalAmount(hops)!;
+        const amounts = optimum.curve.map((point) => point.amountIn);
+        expect(amounts).to.deep.equal(
+          [...amounts].sort((a, b) => (a < b ? -1 : 1))
+        );
+        expect(amounts).to.include(optimum.amountIn);
+        for (const point of optimum.curve) {
+          expect(point.profit <= optimum.profit).to.equal(true);
+        }
+      });
+    });
+  }
+
+  it("finds nothing on a cycle the fees make unprofitable", () => {
+    const hops = [hop(1000n, 1002n), hop(1000n, 1000n), hop(1000n, 1000n)];
+    expect(getClosedFormOptimalAmount(hops)).to.equal(0n);
+    expect(findOptimalAmount(hops)).to.equal(null);
+  });
+
+  it("finds nothing on a cycle with an empty pool", () => {
+    const hops = [hop(1000n, 1100n), {...hop(1000n, 1000n), reserveOut: 0n}];
+    expect(getClosedFormOptimalAmount(hops)).to.equal(0n);
+    expect(findOptimalAmount(hops)).to.equal(null);
+  });
+});
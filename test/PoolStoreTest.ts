@@ -0,0 +1,174 @@
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as config from "../scripts/scan/config";
+import {
+  flushPoolStore,
+  getStoredBackfill,
+  getStoredPair,
+  getStoredPairAddress,
+  getStoredPool,
+  recordBackfill,
+  recordPair,
+  recordPairAddress,
+  recordPool,
+  recordToken,
+  restoreTokenCache,
+  setPoolStoreDirectory,
+} from "../scripts/scan/pool-store";
+import {PoolData} from "../scripts/scan/types";
+
+describe("Pool store", () => {
+  const DEFAULT_DIRECTORY = path.join(__dirname, "../data/store");
+  let storeDirectory: string;
+
+  const readLines = (fileName: string) =>
+    fs
+      .readFileSync(path.join(storeDirectory, fileName), "utf8")
+      .split("\n")
+      .filter((line) => line);
+
+  // Write the pending records and read the store back from its files
+  function reload() {
+    flushPoolStore();
+    setPoolStoreDirectory(storeDirectory);
+  }
+
+  beforeEach(() => {
+    storeDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "pool-store-"));
+    setPoolStoreDirectory(storeDirectory);
+  });
+
+  afterEach(() => {
+    setPoolStoreDirectory(DEFAULT_DIRECTORY);
+    fs.rmSync(storeDirectory, {recursive: true, force: true});
+  });
+
+  it("reads back what it recorded", () => {
+    const pool = {
+      address: "0xpool",
+      index: 7,
+      dex: "pancake",
+      token0: {address: "0xa", reserveRaw: "1000"},
+      token1: {address: "0xb", reserveRaw: "2000"},
+      feeBps: 25,
+      feeSource: "registry",
+      totalSupply: "1500",
+      blockNumber: 100,
+      blockTimestampLast: 1700000000,
+      updated: "2024-01-01T00:00:00.000Z",
+    } as unknown as PoolData;
+    recordToken("0xa", {name: "Token A", symbol: "A", decimals: 18});
+    recordPair({
+      dex: "pancake",
+      index: 7,
+      address: "0xpool",
+      token0: "0xa",
+      token1: "0xb",
+      createdBlock: 90,
+    });
+    recordPool(pool);
+    recordBackfill({dex: "pancake", next: 8, logBlock: 95});
+    reload();
+
+    expect(getStoredPair("pancake", 7)).to.deep.equal({
+      dex: "pancake",
+      index: 7,
+      address: "0xpool",
+      token0: "0xa",
+      token1: "0xb",
+      createdBlock: 90,
+    });
+    expect(getStoredPool("0xpool")).to.deep.include({
+      token0: "0xa",
+      token1: "0xb",
+      reserve0Raw: "1000",
+      reserve1Raw: "2000",
+      feeBps: 25,
+      blockNumber: 100,
+    });
+    expect(getStoredBackfill("pancake")).to.deep.equal({
+      dex: "pancake",
+      next: 8,
+      logBlock: 95,
+    });
+
+    delete config.state.tokenCache["0xa"];
+    restoreTokenCache();
+    expect(config.state.tokenCache["0xa"]).to.deep.equal({
+      name: "Token A",
+      symbol: "A",
+      decimals: 18,
+    });
+    delete config.state.tokenCache["0xa"];
+  });
+
+  it("keeps the last record of a key", () => {
+    recordPairAddress("pancake", 1, "0xold");
+    flushPoolStore();
+    recordPairAddress("pancake", 1, "0xnew");
+    reload();
+
+    expect(readLines("pairs.jsonl")).to.have.length(2);
+    expect(getStoredPairAddress("pancake", 1)).to.equal("0xnew");
+  });
+
+  it("appends only on flush", () => {
+    recordPairAddress("pancake", 1, "0xpair");
+    expect(fs.existsSync(path.join(storeDirectory, "pairs.jsonl"))).to.equal(
+      false
+    );
+    flushPoolStore();
+    expect(readLines("pairs.jsonl")).to.have.length(1);
+  });
+
+  it("leaves out tokens whose metadata couldn't be read", () => {
+    recordToken("0xa", {
+      name: config.UNKNOW_TOKEN_SYMBOL,
+      symbol: config.UNKNOW_TOKEN_SYMBOL,
+      decimals: 18,
+    });
+    flushPoolStore();
+    expect(fs.existsSync(path.join(storeDirectory, "tokens.jsonl"))).to.equal(
+      false
+    );
+  });
+
+  it("skips a line cut short and appends after it", () => {
+    recordPairAddress("pancake", 1, "0xfirst");
+    flushPoolStore();
+    fs.appendFileSync(path.join(storeDirectory, "pairs.jsonl"), '{"dex":"pan');
+    setPoolStoreDirectory(storeDirectory);
+
+    expect(getStoredPairAddress("pancake", 1)).to.equal("0xfirst");
+    recordPairAddress("pancake", 2, "0xsecond");
+    reload();
+    expect(getStoredPairAddress("pancake", 1)).to.equal("0xfirst");
+    expect(getStoredPairAddress("pancake", 2)).to.equal("0xsecond");
+  });
+
+  it("compacts a file of mostly overwritten records on load", () => {
+    const lines = [];
+    for (let i = 0; i <= config.STORE_COMPACT_MIN_LINES; i++) {
+      const index = i % 2;
+      lines.push(
+        JSON.stringify({dex: "pancake", index, address: `0xpair${i}`})
+      );
+    }
+    fs.writeFileSync(
+      path.join(storeDirectory, "pairs.jsonl"),
+      `${lines.join("\n")}\n`
+    );
+
+    const last = config.STORE_COMPACT_MIN_LINES;
+    expect(getStoredPairAddress("pancake", last % 2)).to.equal(`0xpair${last}`);
+    expect(getStoredPairAddress("pancake", (last - 1) % 2)).to.equal(
+      `0xpair${last - 1}`
+    );
+    expect(readLines("pairs.jsonl")).to.have.length(2);
+
+    setPoolStoreDirectory(storeDirectory);
+    expect(getStoredPairAddress("pancake", last % 2)).to.equal(`0xpair${last}`);
+  });
+});
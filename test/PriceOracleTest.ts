@@ -0,0 +1,104 @@
+import {expect} from "chai";
+import * as config from "../scripts/scan/config";
+import {
+  getPoolLiquidityUSD,
+  getTokenPrice,
+  updateTokenPrices,
+} from "../scripts/scan/price-oracle";
+import {PoolData} from "../scripts/scan/types";
+
+describe("Price oracle", () => {
+  const STABLE = config.STABLECOINS[0];
+
+  // Pool with reserves in token units
+  function addPool(
+    address: string,
+    [tokenA, reserveA]: [string, number],
+    [tokenB, reserveB]: [string, number]
+  ) {
+    const pool = {
+      address,
+      token0: {address: tokenA, reserve: reserveA.toString()},
+      token1: {address: tokenB, reserve: reserveB.toString()},
+    } as unknown as PoolData;
+    config.state.poolsMap.set(address, pool);
+    for (const token of [tokenA, tokenB]) {
+      if (!config.state.tokenPools.has(token)) {
+        config.state.tokenPools.set(token, new Set());
+      }
+      config.state.tokenPools.get(token)!.add(address);
+    }
+    return pool;
+  }
+
+  afterEach(() => {
+    config.state.poolsMap.clear();
+    config.state.tokenPools.clear();
+    config.state.tokenPrices.clear();
+  });
+
+  it("prices tokens through the pools from the stablecoins", () => {
+    const fullDepth = config.PRICE_FULL_CONFIDENCE_DEPTH_USD;
+    addPool("stable-base", [STABLE, fullDepth * 2], ["base", fullDepth / 200]);
+    // Half the full confidence depth on the priced side
+    addPool("base-token", ["base", fullDepth / 800], ["token", fullDepth / 8]);
+    updateTokenPrices();
+
+    expect(getTokenPrice(STABLE)).to.deep.equal({
+      priceUSD: 1,
+      confidence: 1,
+      hops: 0,
+      poolAddress: null,
+    });
+    expect(getTokenPrice("base")).to.deep.equal({
+      priceUSD: 400,
+      confidence: 1,
+      hops: 1,
+      poolAddress: "stable-base",
+    });
+    expect(getTokenPrice("token")).to.deep.equal({
+      priceUSD: 4,
+      confidence: 0.5,
+      hops: 2,
+      poolAddress: "base-token",
+    });
+  });
+
+  it("takes the price of the most confident path", () => {
+    const fullDepth = config.PRICE_FULL_CONFIDENCE_DEPTH_USD;
+    addPool("shallow", [STABLE, fullDepth / 10], ["token", fullDepth / 20]);
+    addPool("deep", [STABLE, fullDepth], ["token", fullDepth / 4]);
+    updateTokenPrices();
+
+    expect(getTokenPrice("token")).to.include({
+      priceUSD: 4,
+      poolAddress: "deep",
+    });
+  });
+
+  it("doesn't price through pools below the minimum depth", () => {
+    const depth = config.PRICE_MIN_DEPTH_USD / 2;
+    addPool("thin", [STABLE, depth], ["token", depth]);
+    updateTokenPrices();
+
+    expect(getTokenPrice("token")).to.equal(undefined);
+    expect(config.state.poolsMap.get("thin")!.liquidityUSD).to.equal(
+      (depth * 2).toString()
+    );
+  });
+
+  it("values the liquidity of pools with the new prices", () => {
+    const fullDepth = config.PRICE_FULL_CONFIDENCE_DEPTH_USD;
+    const stablePool = addPool(
+      "stable-base",
+      [STABLE, fullDepth],
+      ["base", fullDepth / 400]
+    );
+    const unpriced = addPool("other", ["a", 100], ["b", 100]);
+    updateTokenPrices();
+
+    expect(stablePool.liquidityUSD).to.equal((fullDepth * 2).toString());
+    expect(unpriced.liquidityUSD).to.equal(config.UNKNOW_LIQUIDITY_USD);
+    expect(getPoolLiquidityUSD(stablePool)).to.equal(stablePool.liquidityUSD);
+  });
+});
@@ -0,0 +1,198 @@
+import {expect} from "chai";
+import {JsonRpcPayload} from "ethers";
+import http from "http";
+import {AddressInfo} from "net";
+import {
+  getBackoffDelay,
+  RpcOptions,
+  RpcProviderManager,
+} from "../scripts/scan/provider-manager";
+
+// Reply of a stub endpoint to one request, null for an HTTP 500
+type Reply = {result: unknown} | {error: {code: number; message: string}};
+
+interface StubEndpoint {
+  url: string;
+  calls: number;
+  reply: (payload: JsonRpcPayload) => Reply | null;
+  server: http.Server;
+}
+
+describe("RPC provider manager", () => {
+  let endpoints: StubEndpoint[] = [];
+  let manager: RpcProviderManager | undefined;
+
+  // Local JSON-RPC server answering every request with reply
+  async function startEndpoint(reply: StubEndpoint["reply"]) {
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        const payload = JSON.parse(body);
+        const payloads: JsonRpcPayload[] = Array.isArray(payload)
+          ? payload
+          : [payload];
+        endpoint.calls += payloads.length;
+        const replies = payloads.map((item) => endpoint.reply(item));
+        if (replies.includes(null)) {
+          response.writeHead(500).end();
+          return;
+        }
+        const results = replies.map((item, i) => ({
+          jsonrpc: "2.0",
+          id: payloads[i].id,
+          ...item,
+        }));
+        response.writeHead(200, {"content-type": "application/json"});
+        response.end(
+          JSON.stringify(Array.isArray(payload) ? results : results[0])
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const {port} = server.address() as AddressInfo;
+    const endpoint = {url: `http://127.0.0.1:${port}`, calls: 0, reply, server};
+    endpoints.push(endpoint);
+    return endpoint;
+  }
+
+  function createManager(urls: string[], options: Partial<RpcOptions> = {}) {
+    manager = new RpcProviderManager({
+      urls,
+      chainId: 31337,
+      rateLimit: 100,
+      timeout: 1000,
+      maxAttempts: 3,
+      backoffBase: 1000,
+      backoffMax: 5000,
+      batchMaxCount: 1,
+      ...options,
+    });
+    return manager;
+  }
+
+  const blockNumber = () => ({result: "0x10"});
+
+  afterEach(async () => {
+    manager?.destroy();
+    manager = undefined;
+    for (const {server} of endpoints) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+    endpoints = [];
+  });
+
+  describe("failover", () => {
+    it("fails over to the next endpoint when one is down", async () => {
+      const down = await startEndpoint(() => null);
+      const up = await startEndpoint(blockNumber);
+      const provider = createManager([down.url, up.url]);
+
+      expect(await provider.send("eth_blockNumber", [])).to.equal("0x10");
+      expect([down.calls, up.calls]).to.deep.equal([1, 1]);
+      expect(provider.describeEndpoints()[0]).to.include("backed off");
+    });
+
+    it("keeps away from a backed off endpoint", async () => {
+      const down = await startEndpoint(() => null);
+      const up = await startEndpoint(blockNumber);
+      const provider = createManager([down.url, up.url]);
+
+      await provider.send("eth_blockNumber", []);
+      await provider.send("eth_blockNumber", []);
+      expect([down.calls, up.calls]).to.deep.equal([1, 2]);
+    });
+
+    it("gives up after maxAttempts endpoints", async () => {
+      const down = await startEndpoint(() => null);
+      const provider = createManager([down.url], {
+        maxAttempts: 2,
+        backoffBase: 10,
+        backoffMax: 10,
+      });
+
+      let failed = false;
+      await provider.send("eth_blockNumber", []).catch(() => (failed = true));
+      expect(failed).to.equal(true);
+      expect(down.calls).to.equal(2);
+    });
+  });
+
+  describe("rate limit detection", () => {
+    for (const error of [
+      {code: -32005, message: "request limit reached"},
+      {code: -32000, message: "Too Many Requests"},
+    ]) {
+      it(`fails over on "${error.message}" (${error.code})`, async () => {
+        const limited = await startEndpoint(() => ({error}));
+        const up = await startEndpoint(blockNumber);
+        const provider = createManager([limited.url, up.url]);
+
+        expect(await provider.send("eth_blockNumber", [])).to.equal("0x10");
+        expect([limited.calls, up.calls]).to.deep.equal([1, 1]);
+      });
+    }
+
+    it("returns other errors without failing over", async () => {
+      const reverting = await startEndpoint(() => ({
+        error: {code: 3, message: "execution reverted"},
+      }));
+      const up = await startEndpoint(blockNumber);
+      const provider = createManager([reverting.url, up.url]);
+
+      let failed = false;
+      await provider.send("eth_call", []).catch(() => (failed = true));
+      expect(failed).to.equal(true);
+      expect([reverting.calls, up.calls]).to.deep.equal([1, 0]);
+      expect(provider.describeEndpoints()[0]).to.not.include("backed off");
+    });
+  });
+
+  describe("request budget", () => {
+    it("moves to the next endpoint once the budget is spent", async () => {
+      const first = await startEndpoint(blockNumber);
+      const second = await startEndpoint(blockNumber);
+      const provider = createManager([first.url, second.url], {rateLimit: 2});
+
+      await Promise.all(
+        [1, 2, 3, 4].map(() => provider.send("eth_blockNumber", []))
+      );
+      expect([first.calls, second.calls]).to.deep.equal([2, 2]);
+    });
+
+    it("waits for the budget to refill", async () => {
+      const endpoint = await startEndpoint(blockNumber);
+      const provider = createManager([endpoint.url], {rateLimit: 2});
+
+      const startTime = Date.now();
+      await Promise.all(
+        [1, 2, 3].map(() => provider.send("eth_blockNumber", []))
+      );
+      // The third request waits half a second for its token
+      expect(Date.now() - startTime).to.be.at.least(450);
+      expect(endpoint.calls).to.equal(3);
+    });
+  });
+
+  describe("getBackoffDelay", () => {
+    const random = Math.random;
+    afterEach(() => (Math.random = random));
+
+    it("doubles the delay per attempt up to the maximum", () => {
+      Math.random = () => 1;
+      expect(
+        [0, 1, 2, 3, 4].map((i) => getBackoffDelay(i, 100, 1000))
+      ).to.deep.equal([100, 200, 400, 800, 1000]);
+    });
+
+    it("takes up to a quarter off as jitter", () => {
+      Math.random = () => 0;
+      expect(getBackoffDelay(2, 100, 1000)).to.equal(300);
+      Math.random = () => 0.5;
+      expect(getBackoffDelay(2, 100, 1000)).to.equal(350);
+    });
+  });
+});
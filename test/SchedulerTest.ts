@@ -0,0 +1,145 @@
+import {expect} from "chai";
+import * as config from "../scripts/scan/config";
+import {
+  getJobMetrics,
+  registerJob,
+  startScheduler,
+  stopScheduler,
+  triggerJob,
+} from "../scripts/scan/scheduler";
+
+describe("Scheduler", () => {
+  const now = Date.now;
+  let clockOffset = 0;
+  let runOrder: string[];
+
+  // Jobs stay registered, so each test names its own
+  let testCount = 0;
+  let prefix: string;
+
+  // A job that records its runs; resolves `done` once it has run
+  function addJob(name: string, priority: number) {
+    let resolveDone: () => void;
+    const done = new Promise<void>((resolve) => (resolveDone = resolve));
+    registerJob({
+      name: `${prefix}${name}`,
+      priority,
+      run: async () => {
+        runOrder.push(name);
+        resolveDone();
+      },
+    });
+    return done;
+  }
+
+  // A running job that holds the scheduler until released, so others queue up behind it
+  async function block() {
+    let release: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    let resolveStarted: () => void;
+    const started = new Promise<void>((resolve) => (resolveStarted = resolve));
+    registerJob({
+      name: `${prefix}blocker`,
+      priority: 100,
+      run: async () => {
+        resolveStarted();
+        await released;
+      },
+    });
+    triggerJob(`${prefix}blocker`);
+    await started;
+    return release!;
+  }
+
+  const trigger = (name: string) => triggerJob(`${prefix}${name}`);
+
+  before(() => {
+    // The clock moves forward on demand, for the aging
+    Date.now = () => now() + clockOffset;
+    startScheduler();
+  });
+
+  beforeEach(() => {
+    prefix = `test${++testCount}-`;
+    runOrder = [];
+  });
+
+  after(async () => {
+    await stopScheduler();
+    Date.now = now;
+  });
+
+  it("runs the highest priority due job first", async () => {
+    const release = await block();
+    const done = [addJob("low", 0), addJob("high", 2), addJob("mid", 1)];
+    trigger("low");
+    trigger("high");
+    trigger("mid");
+
+    release();
+    await Promise.all(done);
+    expect(runOrder).to.deep.equal(["high", "mid", "low"]);
+  });
+
+  it("raises the priority of waiting jobs so they aren't starved", async () => {
+    const release = await block();
+    const done = [addJob("low", 0), addJob("high", 2)];
+    trigger("low");
+    // Waiting longer than two priority levels' worth of aging
+    clockOffset += config.SCHEDULER_AGING * 2.5;
+    trigger("high");
+
+    release();
+    await Promise.all(done);
+    expect(runOrder).to.deep.equal(["low", "high"]);
+  });
+
+  it("keeps the priority order among jobs that waited as long", async () => {
+    const release = await block();
+    const done = [addJob("low", 0), addJob("high", 2)];
+    trigger("low");
+    trigger("high");
+    clockOffset += config.SCHEDULER_AGING * 2.5;
+
+    release();
+    await Promise.all(done);
+    expect(runOrder).to.deep.equal(["high", "low"]);
+  });
+
+  it("frees the slot when a job that ignores the signal times out", async () => {
+    registerJob({
+      name: `${prefix}stuck`,
+      priority: 2,
+      timeout: 20,
+      run: () => new Promise<void>(() => {}),
+    });
+    const done = addJob("next", 0);
+    trigger("stuck");
+    trigger("next");
+
+    await done;
+    expect(runOrder).to.deep.equal(["next"]);
+    expect(getJobMetrics()[`${prefix}stuck`]).to.include({
+      runs: 0,
+      cancelled: 1,
+    });
+  });
+
+  it("merges triggers of a pending job into one run", async () => {
+    const release = await block();
+    const done = addJob("job", 0);
+    trigger("job");
+    trigger("job");
+    trigger("job");
+
+    release();
+    await done;
+    // Let the scheduler look for another run
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(runOrder).to.deep.equal(["job"]);
+    expect(getJobMetrics()[`${prefix}job`]).to.include({
+      runs: 1,
+      coalesced: 2,
+    });
+  });
+});
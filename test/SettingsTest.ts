@@ -0,0 +1,132 @@
+import {expect} from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {SETTINGS_SCHEMA, loadSettings} from "../scripts/scan/settings";
+
+describe("Scanner settings", () => {
+  let configDirectory: string;
+  let configFile: string;
+
+  // YAML file given through SCAN_CONFIG, so a scan.config.yaml of the checkout isn't read
+  function writeConfig(content: string) {
+    fs.writeFileSync(configFile, content);
+    return {SCAN_CONFIG: configFile};
+  }
+
+  before(() => {
+    configDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "scan-settings-"));
+    configFile = path.join(configDirectory, "scan.yaml");
+  });
+
+  after(() => fs.rmSync(configDirectory, {recursive: true, force: true}));
+
+  it("uses the schema defaults when nothing is set", () => {
+    const {settings, sources} = loadSettings([], writeConfig("{}"));
+    expect(settings.MAX_CYCLE_HOPS).to.equal(
+      SETTINGS_SCHEMA.MAX_CYCLE_HOPS.default
+    );
+    expect(sources.MAX_CYCLE_HOPS).to.equal("default");
+  });
+
+  describe("precedence", () => {
+    const YAML =
+      "MAX_CYCLE_HOPS: 3\nMIN_PROFIT_THRESHOLD: 0.02\nDEBUG: false\n";
+
+    it("takes the YAML file over the defaults", () => {
+      const {settings, sources} = loadSettings([], writeConfig(YAML));
+      expect(settings).to.include({
+        MAX_CYCLE_HOPS: 3,
+        MIN_PROFIT_THRESHOLD: 0.02,
+        DEBUG: false,
+      });
+      expect(sources.MAX_CYCLE_HOPS).to.equal("scan.yaml");
+    });
+
+    it("takes env vars over the YAML file", () => {
+      const {settings, sources} = loadSettings([], {
+        ...writeConfig(YAML),
+        SCAN_MAX_CYCLE_HOPS: "5",
+      });
+      expect(settings.MAX_CYCLE_HOPS).to.equal(5);
+      expect(settings.MIN_PROFIT_THRESHOLD).to.equal(0.02);
+      expect(sources.MAX_CYCLE_HOPS).to.equal("env SCAN_MAX_CYCLE_HOPS");
+    });
+
+    it("takes CLI flags over env vars", () => {
+      const {settings, sources} = loadSettings(
+        ["--max-cycle-hops", "6", "--min-profit-threshold=0.03", "--debug"],
+        {...writeConfig(YAML), SCAN_MAX_CYCLE_HOPS: "5"}
+      );
+      expect(settings).to.include({
+        MAX_CYCLE_HOPS: 6,
+        MIN_PROFIT_THRESHOLD: 0.03,
+        DEBUG: true,
+      });
+      expect(sources.MAX_CYCLE_HOPS).to.equal("CLI --max-cycle-hops");
+    });
+
+    it("reads the YAML file named by --config", () => {
+      fs.writeFileSync(configFile, YAML);
+      const {settings} = loadSettings(["--config", configFile], {});
+      expect(settings.MAX_CYCLE_HOPS).to.equal(3);
+    });
+
+    it("honours legacy env vars under the prefixed ones", () => {
+      const legacy = loadSettings([], {...writeConfig("{}"), percent: "0.05"});
+      expect(legacy.settings.MIN_PROFIT_THRESHOLD).to.equal(0.05);
+
+      const prefixed = loadSettings([], {
+        ...writeConfig("{}"),
+        percent: "0.05",
+        SCAN_MIN_PROFIT_THRESHOLD: "0.04",
+      });
+      expect(prefixed.settings.MIN_PROFIT_THRESHOLD).to.equal(0.04);
+    });
+  });
+
+  describe("validation", () => {
+    it("rejects unknown keys from every source", () => {
+      const env = {
+        ...writeConfig("MAX_CYCLE_HOP: 3\n"),
+        SCAN_MIN_PROFIT: "0.1",
+      };
+      expect(() => loadSettings(["--max-hops", "3"], env))
+        .to.throw(Error)
+        .with.property("message")
+        .that.includes('scan.yaml: unknown setting "MAX_CYCLE_HOP"')
+        .and.includes('env SCAN_MIN_PROFIT: unknown setting "MIN_PROFIT"')
+        .and.includes('CLI --max-hops: unknown setting "max-hops"');
+    });
+
+    it("rejects positional arguments", () => {
+      expect(() => loadSettings(["test"], writeConfig("{}"))).to.throw(
+        'CLI: unexpected argument "test"'
+      );
+    });
+
+    it("rejects invalid values", () => {
+      expect(() =>
+        loadSettings(["--max-cycle-hops", "1"], writeConfig("{}"))
+      ).to.throw("CLI --max-cycle-hops: invalid MAX_CYCLE_HOPS");
+      expect(() => loadSettings([], writeConfig("DEBUG: maybe\n"))).to.throw(
+        "scan.yaml: invalid DEBUG"
+      );
+    });
+
+    it("rejects settings that contradict each other", () => {
+      expect(() =>
+        loadSettings(
+          ["--min-cycle-hops", "4", "--max-cycle-hops", "3"],
+          writeConfig("{}")
+        )
+      ).to.throw("MIN_CYCLE_HOPS is greater than MAX_CYCLE_HOPS");
+    });
+
+    it("requires the optimal amount on the profit curve", () => {
+      expect(() =>
+        loadSettings([], writeConfig("PROFIT_CURVE_FACTORS: [0.5, 2]\n"))
+      ).to.throw("PROFIT_CURVE_FACTORS must include 1");
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {expect} from "chai";
+import * as config from "../scripts/scan/config";
+import {
+  checkSimulationSetup,
+  isSimulationPassed,
+  simulateArbitrage,
+} from "../scripts/scan/simulation";
+import {ArbitrageSimulation, StartArbitrageArgs} from "../scripts/scan/types";
+
+describe("Simulation", () => {
+  // The config exports are plain properties at runtime, so each test can set its own
+  const settings = config as unknown as {
+    SIMULATION_ENABLED: boolean;
+    FLASHSWAP_ADDRESS: string;
+    FLASHSWAP_OWNER: string;
+  };
+  const initial = {
+    SIMULATION_ENABLED: settings.SIMULATION_ENABLED,
+    FLASHSWAP_ADDRESS: settings.FLASHSWAP_ADDRESS,
+    FLASHSWAP_OWNER: settings.FLASHSWAP_OWNER,
+  };
+  const ADDRESS = "0x1111111111111111111111111111111111111111";
+
+  const ARGS: StartArbitrageArgs = {
+    token0: ADDRESS,
+    token1: ADDRESS,
+    token2: ADDRESS,
+    borrowAmount: "1000",
+    deadLineMin: 0,
+    slippages: [],
+  };
+
+  function setSimulation(enabled: boolean, owner: string) {
+    settings.SIMULATION_ENABLED = enabled;
+    // A known contract address, so no deployment file is looked up
+    settings.FLASHSWAP_ADDRESS = ADDRESS;
+    settings.FLASHSWAP_OWNER = owner;
+  }
+
+  afterEach(() => Object.assign(settings, initial));
+
+  describe("isSimulationPassed", () => {
+    const withStatus = (status: ArbitrageSimulation["status"]) =>
+      ({status, blockNumber: 1, simulatedAt: 0} as ArbitrageSimulation);
+
+    it("lets passed and skipped jobs through", () => {
+      expect(isSimulationPassed(withStatus("passed"))).to.equal(true);
+      expect(isSimulationPassed(withStatus("skipped"))).to.equal(true);
+    });
+
+    it("drops jobs whose simulation didn't pass or couldn't run", () => {
+      for (const status of ["reverted", "unprofitable", "failed"] as const) {
+        expect(isSimulationPassed(withStatus(status))).to.equal(false);
+      }
+    });
+  });
+
+  describe("when disabled", () => {
+    it("skips the simulation", async () => {
+      setSimulation(false, "");
+      const simulation = await simulateArbitrage(ARGS);
+      expect(simulation).to.include({
+        status: "skipped",
+        revertReason: "simulation disabled",
+      });
+      expect(isSimulationPassed(simulation)).to.equal(true);
+    });
+
+    it("doesn't need the contract owner", async () => {
+      setSimulation(false, "");
+      await checkSimulationSetup();
+    });
+  });
+
+  describe("when enabled", () => {
+    it("refuses to start without the contract owner", async () => {
+      setSimulation(true, "");
+      let message = "";
+      await checkSimulationSetup().catch((error) => (message = error.message));
+      expect(message)
+        .to.include("The simulation of jobs needs FLASHSWAP_OWNER;")
+        .and.include("SIMULATION_ENABLED: false");
+      expect(message).to.not.include("FLASHSWAP_ADDRESS");
+    });
+
+    it("skips the simulation of a job without the contract owner", async () => {
+      setSimulation(true, "");
+      expect(await simulateArbitrage(ARGS)).to.include({
+        status: "skipped",
+        revertReason: "FLASHSWAP_OWNER not set",
+      });
+    });
+
+    it("starts with the contract and its owner", async () => {
+      setSimulation(true, ADDRESS);
+      await checkSimulationSetup();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import {expect} from "chai";
+import {ethers} from "ethers";
+import * as config from "../scripts/scan/config";
+import {findOptimalAmount} from "../scripts/scan/optimizer";
+import {getRequiredSlippages, getTradeSizes} from "../scripts/scan/sizing";
+import {
+  getFlashLoanRepayAmount,
+  getHopReserves,
+} from "../scripts/scan/utils-amm";
+import {ArbitrageOpportunity, PoolData} from "../scripts/scan/types";
+
+describe("Trade sizing", () => {
+  const TOKENS = ["0xa", "0xb", "0xc"];
+  const parse = (amount: number) => ethers.parseUnits(amount.toString(), 18);
+
+  // Triangle a -> b -> c -> a, reserves in whole tokens in the trade direction
+  function setCycle(reserves: [number, number][]): ArbitrageOpportunity {
+    const path = reserves.map(([reserveIn, reserveOut], i) => {
+      const tokenIn = TOKENS[i];
+      const tokenOut = TOKENS[(i + 1) % TOKENS.length];
+      const poolAddress = `pool-${tokenIn}-${tokenOut}`;
+      config.state.poolsMap.set(poolAddress, {
+        address: poolAddress,
+        feeBps: 25,
+        token0: {address: tokenIn, reserveRaw: parse(reserveIn).toString()},
+        token1: {address: tokenOut, reserveRaw: parse(reserveOut).toString()},
+      } as unknown as PoolData);
+      return {
+        poolAddress,
+        feeBps: 25,
+        tokenIn,
+        tokenOut,
+        tokenInDecimals: 18,
+        tokenOutDecimals: 18,
+      };
+    });
+    return {
+      startToken: TOKENS[0],
+      path,
+      estimatedGasCost: 0,
+    } as unknown as ArbitrageOpportunity;
+  }
+
+  function getOptimum(opportunity: ArbitrageOpportunity) {
+    return findOptimalAmount(
+      opportunity.path.map((step) =>
+        getHopReserves(
+          config.state.poolsMap.get(step.poolAddress),
+          step.tokenIn
+        )
+      )
+    )!;
+  }
+
+  before(() => {
+    for (const token of TOKENS) {
+      config.state.tokenCache[token] = {
+        name: token,
+        symbol: token,
+        decimals: 18,
+      };
+    }
+  });
+
+  afterEach(() => {
+    config.state.poolsMap.clear();
+    config.state.tokenPrices.clear();
+  });
+
+  after(() => {
+    for (const token of TOKENS) delete config.state.tokenCache[token];
+  });
+
+  describe("risk cap", () => {
+    it("borrows the optimum when it is below the cap", () => {
+      const opportunity = setCycle([
+        [1_000_000, 1_020_000],
+        [100_000_000, 100_000_000],
+        [100_000_000, 100_000_000],
+      ]);
+      const [best] = getTradeSizes(opportunity);
+      expect(best.capped).to.equal(false);
+      expect(best.borrowAmount).to.equal(getOptimum(opportunity).amountIn);
+    });
+
+    it("caps the borrow at a fraction of the smallest reserve", () => {
+      const opportunity = setCycle([
+        [100_000, 130_000],
+        [10_000_000, 10_000_000],
+        [10_000_000, 10_000_000],
+      ]);
+      const cap = parse(100_000 * config.SIZING_MAX_RESERVE_FRACTION);
+      expect(getOptimum(opportunity).amountIn > cap).to.equal(true);
+
+      const [best] = getTradeSizes(opportunity);
+      expect(best.capped).to.equal(true);
+      expect(best.borrowAmount).to.equal(cap);
+    });
+
+    it("caps the borrow at SIZING_MAX_BORROW_USD", () => {
+      const opportunity = setCycle([
+        [100_000, 130_000],
+        [10_000_000, 10_000_000],
+        [10_000_000, 10_000_000],
+      ]);
+      const priceUSD = config.SIZING_MAX_BORROW_USD / 1000;
+      config.state.tokenPrices.set(TOKENS[0], {
+        priceUSD,
+        confidence: 1,
+        hops: 1,
+        poolAddress: null,
+      });
+
+      const [best] = getTradeSizes(opportunity);
+      expect(best.capped).to.equal(true);
+      expect(best.borrowAmount).to.equal(parse(1000));
+    });
+  });
+
+  describe("backoff", () => {
+    const RESERVES: [number, number][] = [
+      [100_000, 130_000],
+      [10_000_000, 10_000_000],
+      [10_000_000, 10_000_000],
+    ];
+
+    it("offers the backoff fractions of the best amount, best net profit first", () => {
+      const sizes = getTradeSizes(setCycle(RESERVES));
+      const cap = parse(100_000 * config.SIZING_MAX_RESERVE_FRACTION);
+      expect(sizes.map((size) => size.borrowAmount)).to.deep.equal(
+        [...config.SIZING_BACKOFF_FACTORS]
+          .sort((a, b) => b - a)
+          .map((factor) => (cap * BigInt(Math.round(factor * 1000))) / 1000n)
+      );
+      for (let i = 1; i < sizes.length; i++) {
+        expect(sizes[i].netProfit).to.be.at.most(sizes[i - 1].netProfit);
+      }
+    });
+
+    it("leaves out the sizes that don't cover the gas cost", () => {
+      const opportunity = setCycle(RESERVES);
+      const sizes = getTradeSizes(opportunity);
+      const smallest = sizes[sizes.length - 1];
+
+      opportunity.estimatedGasCost = smallest.netProfit;
+      expect(getTradeSizes(opportunity)).to.have.length(sizes.length - 1);
+      opportunity.estimatedGasCost = sizes[0].netProfit;
+      expect(getTradeSizes(opportunity)).to.be.empty;
+    });
+
+    it("finds nothing when a pool of the path is missing", () => {
+      const opportunity = setCycle(RESERVES);
+      config.state.poolsMap.delete(opportunity.path[1].poolAddress);
+      expect(getTradeSizes(opportunity)).to.be.empty;
+    });
+
+    it("requires the last hop to repay the flash loan", () => {
+      for (const size of getTradeSizes(setCycle(RESERVES))) {
+        expect(size.minAmountsOut).to.have.length(3);
+        expect(
+          size.minAmountsOut[2] >= getFlashLoanRepayAmount(size.borrowAmount)
+        ).to.equal(true);
+        for (const slippage of size.slippages) {
+          expect(slippage).to.be.within(990, 999);
+        }
+      }
+    });
+  });
+
+  describe("minAmountsOut", () => {
+    const minimums = (size: ReturnType<typeof getTradeSizes>[number]) =>
+      size.hops.map((hop) => hop.minAmountOut);
+
+    it("takes the minimums from the reserve drift of each hop", () => {
+      const [best] = getTradeSizes(
+        setCycle([
+          [100_000, 130_000],
+          [10_000_000, 10_000_000],
+          [10_000_000, 10_000_000],
+        ])
+      );
+      expect(best.minAmountsOut).to.deep.equal(minimums(best));
+    });
+
+    it("raises the last minimum to the flash loan repayment", () => {
+      // A profit margin thinner than the default drift of three hops
+      const [best] = getTradeSizes(
+        setCycle([
+          [1_000_000, 1_012_000],
+          [100_000_000, 100_000_000],
+          [100_000_000, 100_000_000],
+        ])
+      );
+      const repayAmount = getFlashLoanRepayAmount(best.borrowAmount);
+      expect(minimums(best)[2] < repayAmount).to.equal(true);
+      expect(best.minAmountsOut).to.deep.equal([
+        ...minimums(best).slice(0, 2),
+        repayAmount,
+      ]);
+    });
+  });
+
+  describe("getRequiredSlippages", () => {
+    const REPAY = parse(1000);
+
+    it("spreads the profit margin over the hops", () => {
+      // 1 - 1.01^(-1/3) = 0.33% per hop
+      expect(getRequiredSlippages(parse(1010), REPAY, 3)).to.deep.equal([
+        997, 997, 997,
+      ]);
+    });
+
+    it("keeps the slippages within what FlashSwap accepts", () => {
+      expect(getRequiredSlippages(parse(2000), REPAY, 3)).to.deep.equal([
+        990, 990, 990,
+      ]);
+      expect(getRequiredSlippages(parse(999), REPAY, 2)).to.deep.equal([
+        999, 999,
+      ]);
+    });
+  });
+});
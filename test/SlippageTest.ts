@@ -0,0 +1,142 @@
+import {expect} from "chai";
+import {ethers} from "ethers";
+import * as config from "../scripts/scan/config";
+import {
+  getHopSlippages,
+  getReserveDrift,
+  recordReserveMove,
+} from "../scripts/scan/slippage";
+import {
+  getAmountsOut,
+  getSwapFee,
+  HopReserves,
+} from "../scripts/scan/utils-amm";
+
+describe("Slippage", () => {
+  const parse = (amount: number) => ethers.parseUnits(amount.toString(), 18);
+
+  // Pool volatility is module state, so each test uses pools of its own
+  let poolCount = 0;
+  const newPool = () => `pool-${++poolCount}`;
+
+  // Syncs moving the price by the same factor up and down, once per block
+  function recordMoves(poolAddress: string, factor: number, moves: number) {
+    for (let block = 0; block <= moves; block++) {
+      const reserve1 = block % 2 === 0 ? 1_000_000 : 1_000_000 * factor;
+      recordReserveMove(
+        poolAddress,
+        parse(1_000_000),
+        parse(reserve1),
+        100 + block
+      );
+    }
+  }
+
+  function hop(reserveIn: number, reserveOut: number): HopReserves {
+    return {
+      reserveIn: parse(reserveIn),
+      reserveOut: parse(reserveOut),
+      fee: getSwapFee(25),
+    };
+  }
+
+  describe("getReserveDrift", () => {
+    it("uses the default drift until the pool has enough samples", () => {
+      const pool = newPool();
+      expect(getReserveDrift(pool)).to.equal(config.SLIPPAGE_DEFAULT_DRIFT);
+      recordMoves(pool, 1.05, config.SLIPPAGE_MIN_SAMPLES - 1);
+      expect(getReserveDrift(pool)).to.equal(config.SLIPPAGE_DEFAULT_DRIFT);
+    });
+
+    it("scales the block-to-block volatility to the inclusion delay", () => {
+      const pool = newPool();
+      recordMoves(pool, 1.01, config.SLIPPAGE_MIN_SAMPLES);
+      expect(getReserveDrift(pool)).to.be.closeTo(
+        config.SLIPPAGE_DRIFT_SIGMAS *
+          Math.log(1.01) *
+          Math.sqrt(config.SLIPPAGE_INCLUSION_BLOCKS),
+        1e-9
+      );
+    });
+
+    it("spreads a move over the blocks since the previous Sync", () => {
+      const pool = newPool();
+      for (let i = 0; i <= config.SLIPPAGE_MIN_SAMPLES; i++) {
+        const reserve1 = i % 2 === 0 ? 1_000_000 : 1_010_000;
+        recordReserveMove(pool, parse(1_000_000), parse(reserve1), 100 + i * 4);
+      }
+      expect(getReserveDrift(pool)).to.be.closeTo(
+        config.SLIPPAGE_DRIFT_SIGMAS *
+          Math.log(1.01) *
+          Math.sqrt(config.SLIPPAGE_INCLUSION_BLOCKS / 4),
+        1e-9
+      );
+    });
+  });
+
+  describe("getHopSlippages", () => {
+    const HOPS = [
+      hop(1_000_000, 1_020_000),
+      hop(500_000, 500_000),
+      hop(2_000_000, 2_000_000),
+    ];
+
+    it("chains the expected outputs of the hops", () => {
+      const amountIn = parse(1000);
+      const slippages = getHopSlippages(amountIn, HOPS, [
+        newPool(),
+        newPool(),
+        newPool(),
+      ]);
+      expect(slippages.map((slippage) => slippage.expectedOut)).to.deep.equal(
+        getAmountsOut(amountIn, HOPS).slice(1)
+      );
+    });
+
+    it("measures the price impact of the trade size", () => {
+      const pools = [newPool(), newPool(), newPool()];
+      const small = getHopSlippages(parse(10), HOPS, pools);
+      const large = getHopSlippages(parse(10_000), HOPS, pools);
+      // Against 1M of reserves, 10k in loses about 1% to the price impact
+      expect(large[0].priceImpact).to.be.closeTo(0.01, 0.0005);
+      expect(small[0].priceImpact).to.be.below(0.0001);
+    });
+
+    it("derives each minimum from the previous hop's minimum less the drift", () => {
+      const volatile = newPool();
+      recordMoves(volatile, 1.002, config.SLIPPAGE_MIN_SAMPLES);
+      const pools = [newPool(), volatile, newPool()];
+      const amountIn = parse(1000);
+      const slippages = getHopSlippages(amountIn, HOPS, pools);
+
+      let minIn = amountIn;
+      slippages.forEach((slippage, i) => {
+        const drift = getReserveDrift(pools[i]);
+        expect(slippage.drift).to.equal(drift);
+        const [, minOut] = getAmountsOut(minIn, [HOPS[i]]);
+        expect(slippage.minAmountOut).to.equal(
+          (minOut * BigInt(Math.floor((1 - drift) * 1_000_000))) / 1_000_000n
+        );
+        expect(slippage.minAmountOut < slippage.expectedOut).to.equal(true);
+        minIn = slippage.minAmountOut;
+      });
+    });
+
+    it("keeps the slippages within what FlashSwap accepts", () => {
+      const calm = newPool();
+      recordMoves(calm, 1.00001, config.SLIPPAGE_MIN_SAMPLES);
+      const wild = newPool();
+      recordMoves(wild, 1.1, config.SLIPPAGE_MIN_SAMPLES);
+      const slippages = getHopSlippages(parse(1000), HOPS, [
+        calm,
+        newPool(),
+        wild,
+      ]);
+      expect(slippages.map((slippage) => slippage.slippage)).to.deep.equal([
+        999,
+        Math.floor(1000 * (1 - config.SLIPPAGE_DEFAULT_DRIFT)),
+        990,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import {Contract} from "ethers";
+import {HardhatEthersSigner} from "@nomicfoundation/hardhat-ethers/signers";
+import * as config from "../scripts/scan/config";
+import {getPrimaryDexInfo, getTokenAddress} from "../scripts/chain-profiles";
+import {loadPoolsData, removePool} from "../scripts/scan/utils-pool";
+import {applySyncLog, processBlockRange} from "../scripts/scan/sync-events";
+import {PoolData} from "../scripts/scan/types";
+
+const provider = ethers.provider;
+
+const SYNC_TOPIC = ethers.id("Sync(uint112,uint112)");
+
+describe("Sync events", () => {
+  const dex = getPrimaryDexInfo(config.CHAIN);
+  const WBNB = config.BASE_TOKEN;
+  const BUSD = getTokenAddress(config.CHAIN, "BUSD");
+
+  let signer: HardhatEthersSigner;
+  let router: Contract;
+  let pair: Contract;
+  let pool: PoolData;
+
+  // Buy BUSD with BNB on the pair, returns the block of the swap
+  async function swap(): Promise<number> {
+    const tx = await router.swapExactETHForTokens(
+      0,
+      [WBNB, BUSD],
+      signer.address,
+      Math.floor(Date.now() / 1000) + 3600,
+      {value: ethers.parseEther("10")}
+    );
+    const receipt = await tx.wait();
+    return receipt!.blockNumber;
+  }
+
+  async function expectPoolAtChain(blockNumber: number) {
+    const [reserve0, reserve1] = await pair.getReserves({
+      blockTag: blockNumber,
+    });
+    expect(pool.token0.reserveRaw).to.equal(reserve0.toString());
+    expect(pool.token1.reserveRaw).to.equal(reserve1.toString());
+    expect(pool.blockNumber).to.equal(blockNumber);
+  }
+
+  before(async () => {
+    [signer] = await ethers.getSigners();
+    router = new Contract(
+      dex.router,
+      [
+        "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)",
+      ],
+      signer
+    );
+    const factory = new Contract(
+      dex.factory,
+      ["function getPair(address, address) view returns (address)"],
+      provider
+    );
+    const pairAddress: string = await factory.getPair(WBNB, BUSD);
+    pair = new Contract(
+      pairAddress,
+      [
+        "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+      ],
+      provider
+    );
+
+    [pool] = await loadPoolsData(
+      [{address: pairAddress, index: -1, dex: dex.id}],
+      true
+    );
+    expect(pool, "BUSD/WBNB pool not loaded").to.not.be.undefined;
+  });
+
+  after(() => {
+    if (pool) removePool(pool.address);
+  });
+
+  it("updates the reserves and block of a pool swapped in the range", async () => {
+    const fromBlock = pool.blockNumber + 1;
+    const blockNumber = await swap();
+
+    const changedPools = await processBlockRange(
+      provider,
+      fromBlock,
+      blockNumber
+    );
+
+    expect(Array.from(changedPools)).to.deep.equal([pool.address]);
+    await expectPoolAtChain(blockNumber);
+  });
+
+  it("moves a pool without Syncs in the range to the end of the range", async () => {
+    const fromBlock = pool.blockNumber + 1;
+    await provider.send("evm_mine", []);
+    const blockNumber = await provider.getBlockNumber();
+
+    const changedPools = await processBlockRange(
+      provider,
+      fromBlock,
+      blockNumber
+    );
+
+    expect(changedPools.size).to.equal(0);
+    await expectPoolAtChain(blockNumber);
+  });
+
+  it("applies a Sync log and skips logs older than the pool", async () => {
+    const blockNumber = await swap();
+    const [log] = await provider.getLogs({
+      address: pool.address,
+      topics: [SYNC_TOPIC],
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+    });
+    const block = await provider.getBlock(blockNumber);
+
+    expect(applySyncLog(log, block!.timestamp)).to.equal(pool.address);
+    await expectPoolAtChain(blockNumber);
+    expect(pool.blockTimestampLast).to.equal(block!.timestamp);
+
+    // A log of an earlier block is already part of the pool's reserves
+    pool.blockNumber = blockNumber + 1;
+    expect(applySyncLog(log, block!.timestamp)).to.equal(null);
+  });
+});
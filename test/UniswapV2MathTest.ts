@@ -0,0 +1,162 @@
+import {expect} from "chai";
+import {ethers} from "ethers";
+import {
+  PANCAKE_V2_FEE,
+  getAmountIn,
+  getAmountOut,
+  getAmountsOut,
+  getFlashLoanRepayAmount,
+  getHopReserves,
+  getSwapFee,
+  solveFeeBps,
+  toRawAmount,
+} from "../scripts/scan/utils-amm";
+import {PoolData} from "../scripts/scan/types";
+
+describe("Uniswap V2 integer math", () => {
+  const ONE = 10n ** 18n;
+  const RESERVE = 1000n * ONE;
+
+  describe("getAmountOut", () => {
+    it("matches the PancakeSwap V2 router rounding", () => {
+      expect(getAmountOut(ONE, RESERVE, RESERVE)).to.equal(996505985279683515n);
+    });
+
+    it("uses the given fee numerator and denominator", () => {
+      expect(
+        getAmountOut(ONE, RESERVE, RESERVE, {
+          numerator: 997n,
+          denominator: 1000n,
+        })
+      ).to.equal(996006981039903216n);
+    });
+
+    it("returns zero for empty reserves or amounts", () => {
+      expect(getAmountOut(0n, RESERVE, RESERVE)).to.equal(0n);
+      expect(getAmountOut(ONE, 0n, RESERVE)).to.equal(0n);
+      expect(getAmountOut(ONE, RESERVE, 0n)).to.equal(0n);
+    });
+  });
+
+  describe("getAmountIn", () => {
+    it("buys at least the requested output", () => {
+      const amountOut = 123456789n * 10n ** 9n;
+      const amountIn = getAmountIn(amountOut, RESERVE, 2n * RESERVE);
+      expect(getAmountOut(amountIn, RESERVE, 2n * RESERVE)).to.be.gte(
+        amountOut
+      );
+      expect(getAmountOut(amountIn - 1n, RESERVE, 2n * RESERVE)).to.be.lt(
+        amountOut
+      );
+    });
+
+    it("returns zero when the output exceeds the reserve", () => {
+      expect(getAmountIn(RESERVE, RESERVE, RESERVE)).to.equal(0n);
+    });
+  });
+
+  describe("getAmountsOut", () => {
+    it("chains the hops like the router", () => {
+      const hops = [
+        {reserveIn: RESERVE, reserveOut: 2n * RESERVE, fee: PANCAKE_V2_FEE},
+        {reserveIn: 2n * RESERVE, reserveOut: RESERVE, fee: PANCAKE_V2_FEE},
+      ];
+      const amounts = getAmountsOut(ONE, hops);
+      expect(amounts).to.have.length(3);
+      expect(amounts[0]).to.equal(ONE);
+      expect(amounts[1]).to.equal(getAmountOut(ONE, RESERVE, 2n * RESERVE));
+      expect(amounts[2]).to.equal(
+        getAmountOut(amounts[1], 2n * RESERVE, RESERVE)
+      );
+    });
+  });
+
+  it("repays the flash loan like FlashSwap.pancakeCall", () => {
+    expect(getFlashLoanRepayAmount(ONE)).to.equal(ONE + 3009027081243732n);
+  });
+
+  it("orients pool reserves in the trade direction", () => {
+    const pool = {
+      token0: {address: "0xa", reserveRaw: "100"},
+      token1: {address: "0xb", reserveRaw: "200"},
+      feeBps: 10,
+    } as unknown as PoolData;
+    expect(getHopReserves(pool, "0xa")).to.include({
+      reserveIn: 100n,
+      reserveOut: 200n,
+    });
+    expect(getHopReserves(pool, "0xa").fee).to.deep.equal(getSwapFee(10));
+    expect(getHopReserves(pool, "0xb")).to.include({
+      reserveIn: 200n,
+      reserveOut: 100n,
+    });
+  });
+
+  describe("solveFeeBps", () => {
+    it("recovers the fee from a router quote", () => {
+      for (const feeBps of [10, 20, 25, 30]) {
+        const amountIn = RESERVE / 1000n;
+        const amountOut = getAmountOut(
+          amountIn,
+          RESERVE,
+          3n * RESERVE,
+          getSwapFee(feeBps)
+        );
+        expect(
+          solveFeeBps(amountIn, amountOut, RESERVE, 3n * RESERVE)
+        ).to.equal(feeBps);
+      }
+    });
+
+    it("reproduces the quote across trade sizes and reserve ratios", () => {
+      const reserves: [bigint, bigint][] = [
+        [RESERVE, 3n * RESERVE],
+        [5n * RESERVE, RESERVE / 7n],
+        [ONE / 1000n, 10n ** 9n],
+      ];
+      for (const feeBps of [0, 1, 17, 25, 100, 300]) {
+        for (const [reserveIn, reserveOut] of reserves) {
+          for (const amountIn of [1000n, reserveIn / 1000n, reserveIn / 3n]) {
+            const fee = getSwapFee(feeBps);
+            const amountOut = getAmountOut(
+              amountIn,
+              reserveIn,
+              reserveOut,
+              fee
+            );
+            const solved = solveFeeBps(
+              amountIn,
+              amountOut,
+              reserveIn,
+              reserveOut
+            );
+            if (amountOut === 0n) {
+              expect(solved).to.equal(null);
+              continue;
+            }
+            // Small quotes round alike for neighbouring fees; any of them is a solution
+            expect(solved).to.not.equal(null);
+            expect(
+              getAmountOut(amountIn, reserveIn, reserveOut, getSwapFee(solved!))
+            ).to.equal(amountOut);
+            if (amountIn >= ONE) expect(solved).to.equal(feeBps);
+          }
+        }
+      }
+    });
+
+    it("returns null when no fee reproduces the quote", () => {
+      expect(solveFeeBps(ONE, 0n, RESERVE, RESERVE)).to.equal(null);
+      expect(solveFeeBps(0n, ONE, RESERVE, RESERVE)).to.equal(null);
+      expect(solveFeeBps(ONE, RESERVE, RESERVE, RESERVE)).to.equal(null);
+      // More than the trade returns without a fee
+      const noFeeOut = getAmountOut(ONE, RESERVE, RESERVE, getSwapFee(0));
+      expect(solveFeeBps(ONE, noFeeOut + 1n, RESERVE, RESERVE)).to.equal(null);
+    });
+  });
+
+  it("converts large human readable amounts to raw units", () => {
+    expect(toRawAmount(1e21, 18)).to.equal(ethers.parseUnits("1", 39));
+    expect(toRawAmount(1.5, 6)).to.equal(1500000n);
+  });
+});